@@ -0,0 +1,15 @@
+-- /docker-entrypoint-initdb.d/init-api-keys.sql
+
+-- API keys, stored as SHA-256 hashes of the key
+-- report_ids restricts a key to the contracts of those reports (NULL = all reports)
+CREATE TABLE IF NOT EXISTS api_keys (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(255) NOT NULL,
+    key_prefix VARCHAR(16) NOT NULL,
+    key_hash CHAR(64) NOT NULL UNIQUE,
+    scopes TEXT[] NOT NULL,
+    report_ids TEXT[],
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    last_used_at TIMESTAMPTZ,
+    revoked_at TIMESTAMPTZ
+);
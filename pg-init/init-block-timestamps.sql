@@ -0,0 +1,10 @@
+-- /docker-entrypoint-initdb.d/init-block-timestamps.sql
+
+-- Cache of block timestamps fetched from each network's RPC
+-- Used for time-based event queries on tables without a block_timestamp column
+CREATE TABLE IF NOT EXISTS block_timestamps (
+    network VARCHAR(255) NOT NULL,
+    block_number NUMERIC NOT NULL,
+    block_timestamp TIMESTAMPTZ NOT NULL,
+    PRIMARY KEY (network, block_number)
+);
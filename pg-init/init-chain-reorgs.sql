@@ -0,0 +1,27 @@
+-- /docker-entrypoint-initdb.d/init-chain-reorgs.sql
+
+-- Reorganizations found by the reorg checker, one per check that found orphaned blocks
+-- blocks holds { block_number, orphaned_hash, canonical_hash } per orphaned block
+CREATE TABLE IF NOT EXISTS chain_reorgs (
+    id SERIAL PRIMARY KEY,
+    network VARCHAR(255) NOT NULL,
+    first_block NUMERIC NOT NULL,
+    last_block NUMERIC NOT NULL,
+    chain_head NUMERIC NOT NULL,
+    action VARCHAR(6) NOT NULL,
+    events_affected INTEGER NOT NULL,
+    blocks JSONB NOT NULL,
+    detected_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_chain_reorgs_network ON chain_reorgs (network, id);
+
+-- Block hashes that are no longer part of the canonical chain
+-- Events stored with one of these hashes are left out of event queries
+CREATE TABLE IF NOT EXISTS orphaned_blocks (
+    network VARCHAR(255) NOT NULL,
+    block_number NUMERIC NOT NULL,
+    block_hash VARCHAR(66) NOT NULL,
+    reorg_id INTEGER NOT NULL REFERENCES chain_reorgs (id) ON DELETE CASCADE,
+    PRIMARY KEY (network, block_number, block_hash)
+);
@@ -0,0 +1,20 @@
+-- /docker-entrypoint-initdb.d/init-config-versions.sql
+
+-- Snapshots of rindexer.yaml and the ABI files it references, one per change
+-- source is the endpoint that made the change, or 'external' for edits made outside the API
+-- request is the request that made the change, without ABIs
+-- abis maps the path of each ABI file to the SHA-256 hash of its content in config_abis
+CREATE TABLE IF NOT EXISTS config_versions (
+    id SERIAL PRIMARY KEY,
+    source VARCHAR(64) NOT NULL,
+    request JSONB,
+    config TEXT NOT NULL,
+    abis JSONB NOT NULL DEFAULT '{}',
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- ABI file contents shared by the versions that reference them
+CREATE TABLE IF NOT EXISTS config_abis (
+    hash CHAR(64) PRIMARY KEY,
+    content TEXT NOT NULL
+);
@@ -0,0 +1,18 @@
+-- /docker-entrypoint-initdb.d/init-contract-jobs.sql
+
+-- Asynchronous contract registrations (POST /add-contracts?async=true)
+-- request holds the original batch so interrupted jobs can be re-run after a restart
+CREATE TABLE IF NOT EXISTS contract_jobs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    status VARCHAR(16) NOT NULL DEFAULT 'queued'
+        CHECK (status IN ('queued', 'applying', 'restarting', 'indexing', 'failed')),
+    request JSONB NOT NULL,
+    report_ids TEXT[] NOT NULL,
+    results JSONB NOT NULL DEFAULT '[]',
+    error TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_contract_jobs_queued
+    ON contract_jobs (created_at) WHERE status = 'queued';
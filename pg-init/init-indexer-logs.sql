@@ -0,0 +1,15 @@
+-- /docker-entrypoint-initdb.d/init-indexer-logs.sql
+
+-- Rindexer process output, stored when INDEXER_LOGS_PERSIST=true
+CREATE TABLE IF NOT EXISTS indexer_logs (
+    id BIGSERIAL PRIMARY KEY,
+    logged_at TIMESTAMPTZ NOT NULL,
+    stream VARCHAR(6) NOT NULL,
+    level VARCHAR(5) NOT NULL,
+    indexer_id VARCHAR(255),
+    network VARCHAR(255),
+    message TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_indexer_logs_logged_at ON indexer_logs (logged_at);
+CREATE INDEX IF NOT EXISTS idx_indexer_logs_indexer_id ON indexer_logs (indexer_id, logged_at);
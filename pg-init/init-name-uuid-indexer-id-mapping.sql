@@ -3,7 +3,39 @@
 -- Create the mapping table for the combination of contract name and report uuid (name_uuid) to indexer_id
 -- name_uuid is the Primary Key
 -- indexer_id is NOT NULL and must be UNIQUE to ensure a 1-to-1 relationship
+-- contract_name and report_id are stored separately, since name_uuid cannot be split back
+-- unambiguously when either contains an underscore
 CREATE TABLE IF NOT EXISTS name_uuid_indexer_id_mapping (
     name_uuid VARCHAR(255) PRIMARY KEY,
-    indexer_id VARCHAR(255) NOT NULL UNIQUE
-);
\ No newline at end of file
+    indexer_id VARCHAR(255) NOT NULL UNIQUE,
+    contract_name VARCHAR(255) NOT NULL,
+    report_id VARCHAR(255) NOT NULL
+);
+
+-- Tables created before contract_name and report_id were stored. Report ids are UUIDs,
+-- which hold no underscore, so a key ending in "_<uuid>" splits unambiguously; any other
+-- key stops the migration until its columns are set by hand
+ALTER TABLE name_uuid_indexer_id_mapping ADD COLUMN IF NOT EXISTS contract_name VARCHAR(255);
+ALTER TABLE name_uuid_indexer_id_mapping ADD COLUMN IF NOT EXISTS report_id VARCHAR(255);
+UPDATE name_uuid_indexer_id_mapping
+SET contract_name = substring(name_uuid from '^(.+)_[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$'),
+    report_id = substring(name_uuid from '_([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12})$')
+WHERE (contract_name IS NULL OR report_id IS NULL)
+  AND name_uuid ~ '^.+_[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$';
+DO $$
+DECLARE
+    unsplit TEXT;
+BEGIN
+    SELECT string_agg(name_uuid, ', ') INTO unsplit
+    FROM name_uuid_indexer_id_mapping
+    WHERE contract_name IS NULL OR report_id IS NULL;
+    IF unsplit IS NOT NULL THEN
+        RAISE EXCEPTION 'Set contract_name and report_id of name_uuid_indexer_id_mapping rows %', unsplit;
+    END IF;
+END $$;
+ALTER TABLE name_uuid_indexer_id_mapping
+    ALTER COLUMN contract_name SET NOT NULL,
+    ALTER COLUMN report_id SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_name_uuid_indexer_id_mapping_contract
+    ON name_uuid_indexer_id_mapping (report_id, contract_name);
@@ -0,0 +1,35 @@
+-- /docker-entrypoint-initdb.d/init-retention.sql
+
+-- Retention policies for indexed events, per contract (indexer_id), per network or both
+-- The most specific policy applies to each deployment of a contract
+CREATE TABLE IF NOT EXISTS retention_policies (
+    id SERIAL PRIMARY KEY,
+    indexer_id VARCHAR(255),
+    network VARCHAR(255),
+    keep_days INTEGER,
+    keep_blocks BIGINT,
+    delete_when_archived BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CHECK (indexer_id IS NOT NULL OR network IS NOT NULL)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_retention_policies_scope
+    ON retention_policies ((COALESCE(indexer_id, '')), (COALESCE(network, '')));
+
+-- Reports whose contracts' events are deleted by policies with delete_when_archived
+CREATE TABLE IF NOT EXISTS archived_reports (
+    report_id VARCHAR(255) PRIMARY KEY,
+    archived_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Results of each pruning run, with the rows and bytes deleted per event table
+CREATE TABLE IF NOT EXISTS retention_runs (
+    id SERIAL PRIMARY KEY,
+    trigger VARCHAR(8) NOT NULL,
+    rows_deleted BIGINT NOT NULL,
+    bytes_reclaimed BIGINT NOT NULL,
+    tables JSONB NOT NULL,
+    started_at TIMESTAMPTZ NOT NULL,
+    finished_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
@@ -0,0 +1,355 @@
+/**
+ * API key authentication and per-report authorization.
+ *
+ * Keys are sent as "Authorization: Bearer <key>" and stored as SHA-256 hashes.
+ * The ADMIN_API_KEY environment variable is a bootstrap key with the admin scope,
+ * used to create the first stored keys.
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import { status } from "elysia";
+import type { Client } from "pg";
+import { APP_CONSTANTS } from "./helpers.js";
+import { findUnauthorizedGraphqlFields } from "./graphql.js";
+import {
+	type ApiKey,
+	type ApiKeyContext,
+	type ApiKeyScope,
+	type CreateApiKeyRequest,
+	ApiKeyError,
+	AuthError,
+} from "./types.js";
+
+export const API_KEY_SCOPES: ApiKeyScope[] = [
+	"events:read",
+	"contracts:manage",
+	"admin",
+];
+
+const API_KEY_PREFIX = "cai_";
+const UUID_PATTERN =
+	/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Routes reachable without a key: health check and Swagger documentation
+const PUBLIC_PATHS = ["/", "/docs"];
+
+/**
+ * Returns the bootstrap admin key from environment variables.
+ */
+export function getAdminApiKey(): string {
+	if (!APP_CONSTANTS.ADMIN_API_KEY) {
+		throw new Error(
+			"ADMIN_API_KEY environment variable is required. Please set it to a long random string used to manage API keys.",
+		);
+	}
+	return APP_CONSTANTS.ADMIN_API_KEY;
+}
+
+export function hashApiKey(key: string): string {
+	return createHash("sha256").update(key).digest("hex");
+}
+
+export function isPublicPath(path: string): boolean {
+	return PUBLIC_PATHS.some(
+		(publicPath) =>
+			path === publicPath ||
+			(publicPath !== "/" && path.startsWith(`${publicPath}/`)),
+	);
+}
+
+/**
+ * Resolves the API key of a request from its Authorization header.
+ * Returns null when the header is missing or the key is unknown or revoked.
+ */
+export async function authenticateRequest(
+	client: Client,
+	authorization: string | undefined,
+): Promise<ApiKeyContext | null> {
+	const match = authorization?.match(/^Bearer\s+(\S+)$/i);
+	if (!match) {
+		return null;
+	}
+
+	const keyHash = hashApiKey(match[1]);
+	const adminKeyHash = hashApiKey(getAdminApiKey());
+	if (timingSafeEqual(Buffer.from(keyHash), Buffer.from(adminKeyHash))) {
+		return {
+			id: "bootstrap",
+			name: "ADMIN_API_KEY",
+			scopes: ["admin"],
+			report_ids: null,
+		};
+	}
+
+	const result = await client.query<ApiKeyContext>(
+		`SELECT id, name, scopes, report_ids
+         FROM api_keys
+         WHERE key_hash = $1 AND revoked_at IS NULL`,
+		[keyHash],
+	);
+	const apiKey = result.rows[0];
+	if (!apiKey) {
+		return null;
+	}
+
+	// Record usage at most once a minute to avoid a write on every request
+	void client
+		.query(
+			`UPDATE api_keys SET last_used_at = NOW()
+             WHERE id = $1 AND (last_used_at IS NULL OR last_used_at < NOW() - INTERVAL '1 minute')`,
+			[apiKey.id],
+		)
+		.catch((error) => console.error("Error recording API key usage:", error));
+
+	return apiKey;
+}
+
+// ===== AUTHORIZATION =====
+
+/**
+ * Checks that a request has a key with the given scope. The admin scope grants every scope.
+ */
+export function requireScope(
+	apiKey: ApiKeyContext | null,
+	scope: ApiKeyScope,
+): ApiKeyContext {
+	if (!apiKey) {
+		throw new AuthError("A valid API key is required", 401);
+	}
+	if (!apiKey.scopes.includes(scope) && !apiKey.scopes.includes("admin")) {
+		throw new AuthError(`API key is missing the "${scope}" scope`, 403);
+	}
+	return apiKey;
+}
+
+export function canAccessReport(
+	apiKey: ApiKeyContext,
+	reportId: string,
+): boolean {
+	return apiKey.report_ids === null || apiKey.report_ids.includes(reportId);
+}
+
+export function requireReports(
+	apiKey: ApiKeyContext | null,
+	scope: ApiKeyScope,
+	reportIds: string[],
+): void {
+	const key = requireScope(apiKey, scope);
+	const denied = reportIds.filter(
+		(reportId) => !canAccessReport(key, reportId),
+	);
+	if (denied.length > 0) {
+		throw new AuthError(
+			`API key has no access to report(s): ${Array.from(new Set(denied)).join(", ")}`,
+			403,
+		);
+	}
+}
+
+/**
+ * Checks that every indexer_id belongs to a contract of an allowed report.
+ */
+export async function requireIndexers(
+	client: Client,
+	apiKey: ApiKeyContext | null,
+	scope: ApiKeyScope,
+	indexerIds: string[],
+): Promise<void> {
+	const key = requireScope(apiKey, scope);
+	if (key.report_ids === null) {
+		return;
+	}
+
+	const result = await client.query<{ indexer_id: string; report_id: string }>(
+		"SELECT indexer_id, report_id FROM name_uuid_indexer_id_mapping WHERE indexer_id = ANY($1)",
+		[indexerIds],
+	);
+	const allowed = new Set(
+		result.rows
+			.filter((row) => canAccessReport(key, row.report_id))
+			.map((row) => row.indexer_id),
+	);
+	const denied = indexerIds.filter((indexerId) => !allowed.has(indexerId));
+	if (denied.length > 0) {
+		throw new AuthError(
+			`API key has no access to indexer(s): ${Array.from(new Set(denied)).join(", ")}`,
+			403,
+		);
+	}
+}
+
+/**
+ * Checks that a webhook belongs to a contract of an allowed report.
+ * Unknown webhook ids are left for the route to report as not found.
+ */
+export async function requireWebhook(
+	client: Client,
+	apiKey: ApiKeyContext | null,
+	scope: ApiKeyScope,
+	webhookId: string,
+): Promise<void> {
+	const key = requireScope(apiKey, scope);
+	if (key.report_ids === null || !UUID_PATTERN.test(webhookId)) {
+		return;
+	}
+
+	const result = await client.query<{ report_id: string }>(
+		`SELECT m.report_id
+         FROM webhooks w
+         JOIN name_uuid_indexer_id_mapping m ON m.name_uuid = w.name_uuid
+         WHERE w.id = $1`,
+		[webhookId],
+	);
+	const webhook = result.rows[0];
+	if (webhook && !canAccessReport(key, webhook.report_id)) {
+		throw new AuthError(`API key has no access to webhook "${webhookId}"`, 403);
+	}
+}
+
+/**
+ * Checks that every contract of a registration job belongs to an allowed report.
+ * Unknown job ids are left for the route to report as not found.
+ */
+export async function requireJob(
+	client: Client,
+	apiKey: ApiKeyContext | null,
+	scope: ApiKeyScope,
+	jobId: string,
+): Promise<void> {
+	const key = requireScope(apiKey, scope);
+	if (key.report_ids === null || !UUID_PATTERN.test(jobId)) {
+		return;
+	}
+
+	const result = await client.query<{ report_ids: string[] }>(
+		"SELECT report_ids FROM contract_jobs WHERE id = $1",
+		[jobId],
+	);
+	const job = result.rows[0];
+	if (job) {
+		requireReports(key, scope, job.report_ids);
+	}
+}
+
+/**
+ * Checks that a GraphQL query only reads event tables of the key's reports.
+ */
+export async function requireGraphqlQuery(
+	client: Client,
+	apiKey: ApiKeyContext | null,
+	scope: ApiKeyScope,
+	query: string,
+): Promise<void> {
+	const key = requireScope(apiKey, scope);
+	if (key.report_ids === null) {
+		return;
+	}
+
+	const denied = await findUnauthorizedGraphqlFields(
+		client,
+		key.report_ids,
+		query,
+	);
+	if (denied.length > 0) {
+		throw new AuthError(
+			`API key has no access to GraphQL field(s): ${denied.join(", ")}`,
+			403,
+		);
+	}
+}
+
+/**
+ * Runs an authorization check from a route's beforeHandle hook, turning AuthError
+ * into a 401/403 response.
+ */
+export async function checkAccess(check: () => unknown): Promise<void> {
+	try {
+		await check();
+	} catch (error) {
+		if (error instanceof AuthError) {
+			throw status(error.status, { error: error.message });
+		}
+		throw error;
+	}
+}
+
+// ===== KEY MANAGEMENT =====
+
+type ApiKeyRow = Omit<ApiKey, "created_at" | "last_used_at" | "revoked_at"> & {
+	created_at: Date;
+	last_used_at: Date | null;
+	revoked_at: Date | null;
+};
+
+const API_KEY_COLUMNS =
+	"id, name, key_prefix, scopes, report_ids, created_at, last_used_at, revoked_at";
+
+function toApiKey(row: ApiKeyRow): ApiKey {
+	return {
+		...row,
+		created_at: row.created_at.toISOString(),
+		last_used_at: row.last_used_at?.toISOString() ?? null,
+		revoked_at: row.revoked_at?.toISOString() ?? null,
+	};
+}
+
+/**
+ * Creates an API key. The plaintext key is only returned here.
+ */
+export async function createApiKey(
+	client: Client,
+	request: CreateApiKeyRequest,
+): Promise<ApiKey & { key: string }> {
+	if (!request.name) {
+		throw new ApiKeyError("API key name is required");
+	}
+	const invalidScopes = request.scopes.filter(
+		(scope) => !API_KEY_SCOPES.includes(scope),
+	);
+	if (request.scopes.length === 0 || invalidScopes.length > 0) {
+		throw new ApiKeyError(
+			`Scopes must be a non-empty list of: ${API_KEY_SCOPES.join(", ")}`,
+		);
+	}
+	// An omitted list means every report; an empty one would silently mean the same
+	if (request.report_ids && request.report_ids.length === 0) {
+		throw new ApiKeyError(
+			"report_ids must list at least one report, or be omitted for access to every report",
+		);
+	}
+
+	const key = `${API_KEY_PREFIX}${randomBytes(24).toString("base64url")}`;
+	const result = await client.query<ApiKeyRow>(
+		`INSERT INTO api_keys (name, key_prefix, key_hash, scopes, report_ids)
+         VALUES ($1, $2, $3, $4, $5)
+         RETURNING ${API_KEY_COLUMNS}`,
+		[
+			request.name,
+			key.slice(0, API_KEY_PREFIX.length + 6),
+			hashApiKey(key),
+			Array.from(new Set(request.scopes)),
+			request.report_ids ?? null,
+		],
+	);
+
+	return { ...toApiKey(result.rows[0]), key };
+}
+
+export async function listApiKeys(client: Client): Promise<ApiKey[]> {
+	const result = await client.query<ApiKeyRow>(
+		`SELECT ${API_KEY_COLUMNS} FROM api_keys ORDER BY created_at`,
+	);
+	return result.rows.map(toApiKey);
+}
+
+export async function revokeApiKey(client: Client, id: string): Promise<void> {
+	const result = UUID_PATTERN.test(id)
+		? await client.query(
+				"UPDATE api_keys SET revoked_at = NOW() WHERE id = $1 AND revoked_at IS NULL",
+				[id],
+			)
+		: null;
+	if (!result?.rowCount) {
+		throw new ApiKeyError(`API key "${id}" not found or already revoked`);
+	}
+}
@@ -0,0 +1,565 @@
+/**
+ * Event query utilities for reading rindexer event tables.
+ */
+
+import type { Client } from "pg";
+import {
+	APP_CONSTANTS,
+	getCachedChainHead,
+	getContractNetworks,
+	getSchemaName,
+	loadRindexerConfig,
+	quoteIdentifier,
+} from "./helpers.js";
+import {
+	type EventColumnFilter,
+	type EventCursor,
+	type EventFilters,
+	type EventTableSummary,
+	type EventsPage,
+	EventQueryError,
+} from "./types.js";
+import { attachBlockTimestamps, buildTimeCondition } from "./timestamps.js";
+
+const RANGE_OPERATORS = {
+	eq: "=",
+	gt: ">",
+	gte: ">=",
+	lt: "<",
+	lte: "<=",
+} as const;
+
+const NUMERIC_COLUMN_TYPES = new Set([
+	"numeric",
+	"integer",
+	"bigint",
+	"smallint",
+	"real",
+	"double precision",
+]);
+
+// ===== CURSORS =====
+
+/**
+ * Encodes a position in the (block_number, log_index, network) ordering as an opaque
+ * cursor. The network tells apart events of different chains at the same position.
+ */
+export function encodeEventCursor(cursor: EventCursor): string {
+	return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+export function decodeEventCursor(value: string): EventCursor {
+	try {
+		const cursor = JSON.parse(
+			Buffer.from(value, "base64url").toString("utf8"),
+		) as EventCursor;
+		if (
+			!/^\d+$/.test(cursor.block_number) ||
+			!/^\d+$/.test(cursor.log_index) ||
+			(cursor.network !== undefined && typeof cursor.network !== "string") ||
+			(cursor.direction !== "next" && cursor.direction !== "prev")
+		) {
+			throw new Error();
+		}
+		return cursor;
+	} catch {
+		throw new EventQueryError("Invalid cursor");
+	}
+}
+
+function toEventCursor(
+	row: Record<string, any>,
+	direction: EventCursor["direction"],
+): string {
+	return encodeEventCursor({
+		block_number: String(row.block_number),
+		log_index: String(row.log_index),
+		...(row.network !== undefined && { network: String(row.network) }),
+		direction,
+	});
+}
+
+// ===== QUERIES =====
+
+/**
+ * Checks whether an event table exists in a contract schema.
+ */
+export async function eventTableExists(
+	client: Client,
+	schemaName: string,
+	eventName: string,
+): Promise<boolean> {
+	const result = await client.query<{ exists: boolean }>(
+		`SELECT EXISTS (
+            SELECT 1 
+            FROM information_schema.tables 
+            WHERE table_schema = $1 AND table_name = $2
+        ) AS exists`,
+		[schemaName, eventName],
+	);
+	return result.rows[0]?.exists ?? false;
+}
+
+/**
+ * Lists the event tables of a contract schema (one table per event type).
+ */
+export async function listEventTables(
+	client: Client,
+	schemaName: string,
+): Promise<string[]> {
+	const result = await client.query<{ table_name: string }>(
+		`SELECT table_name 
+         FROM information_schema.tables 
+         WHERE table_schema = $1`,
+		[schemaName],
+	);
+	return result.rows.map((row) => row.table_name);
+}
+
+/**
+ * Returns the columns of an event table mapped to their Postgres data types.
+ */
+export async function getEventTableColumns(
+	client: Client,
+	schemaName: string,
+	eventName: string,
+): Promise<Map<string, string>> {
+	const result = await client.query<{ column_name: string; data_type: string }>(
+		`SELECT column_name, data_type
+         FROM information_schema.columns
+         WHERE table_schema = $1 AND table_name = $2
+         ORDER BY ordinal_position`,
+		[schemaName, eventName],
+	);
+	return new Map(result.rows.map((row) => [row.column_name, row.data_type]));
+}
+
+/**
+ * Parses the JSON `filters` query parameter into per-column filters.
+ */
+export function parseColumnFilters(
+	value?: string,
+): Record<string, EventColumnFilter> | undefined {
+	if (!value) {
+		return undefined;
+	}
+	try {
+		const filters = JSON.parse(value);
+		if (filters && typeof filters === "object" && !Array.isArray(filters)) {
+			return filters;
+		}
+	} catch {}
+	throw new EventQueryError(
+		'Invalid filters - must be a JSON object like {"to":"0x...","value":{"gte":"1000"}}',
+	);
+}
+
+function pushColumnCondition(
+	conditions: string[],
+	params: unknown[],
+	column: string,
+	dataType: string,
+	operator: keyof typeof RANGE_OPERATORS,
+	value: unknown,
+): void {
+	if (typeof value !== "string" && typeof value !== "number") {
+		throw new EventQueryError(
+			`Filter "${column}.${operator}" must be a string or number`,
+		);
+	}
+
+	const text = String(value);
+	const isNumericColumn = NUMERIC_COLUMN_TYPES.has(dataType);
+	if (isNumericColumn && !/^-?\d+(\.\d+)?$/.test(text)) {
+		throw new EventQueryError(`Filter "${column}" must be numeric`);
+	}
+
+	params.push(text);
+	const placeholder = `$${params.length}`;
+
+	// Hex strings (addresses, hashes) are matched regardless of checksum casing
+	if (!isNumericColumn && operator === "eq" && /^0x[0-9a-fA-F]*$/.test(text)) {
+		conditions.push(
+			`LOWER(${quoteIdentifier(column)}::text) = LOWER(${placeholder})`,
+		);
+		return;
+	}
+
+	conditions.push(
+		`${quoteIdentifier(column)} ${RANGE_OPERATORS[operator]} ${placeholder}`,
+	);
+}
+
+/**
+ * Builds WHERE conditions for event filters, appending their values to `params`.
+ * Column names are validated against the table's columns before being quoted.
+ */
+export function buildEventFilterConditions(
+	columns: Map<string, string>,
+	filters: EventFilters,
+	params: unknown[],
+): string[] {
+	const conditions: string[] = [];
+	const columnFilters: Record<string, EventColumnFilter> = {
+		...filters.columns,
+	};
+
+	if (filters.from_block !== undefined || filters.to_block !== undefined) {
+		columnFilters.block_number = {
+			...(filters.from_block !== undefined && { gte: filters.from_block }),
+			...(filters.to_block !== undefined && { lte: filters.to_block }),
+		};
+	}
+	if (filters.tx_hash !== undefined) {
+		columnFilters.tx_hash = filters.tx_hash;
+	}
+	if (filters.network !== undefined) {
+		columnFilters.network = filters.network;
+	}
+
+	for (const [column, filter] of Object.entries(columnFilters)) {
+		const dataType = columns.get(column);
+		if (!dataType) {
+			throw new EventQueryError(`Unknown column "${column}"`);
+		}
+
+		if (typeof filter === "object" && filter !== null) {
+			const operators = Object.keys(filter);
+			if (operators.length === 0) {
+				throw new EventQueryError(`Filter "${column}" has no operators`);
+			}
+			for (const operator of operators) {
+				if (!(operator in RANGE_OPERATORS)) {
+					throw new EventQueryError(
+						`Unsupported operator "${operator}" for filter "${column}"`,
+					);
+				}
+				pushColumnCondition(
+					conditions,
+					params,
+					column,
+					dataType,
+					operator as keyof typeof RANGE_OPERATORS,
+					filter[operator as keyof typeof filter],
+				);
+			}
+		} else {
+			pushColumnCondition(conditions, params, column, dataType, "eq", filter);
+		}
+	}
+
+	return conditions;
+}
+
+/**
+ * Returns the networks the contract of an event schema is deployed on, from rindexer.yaml.
+ */
+async function getSchemaNetworks(schemaName: string): Promise<string[]> {
+	const { config } = await loadRindexerConfig();
+	for (const contract of config.contracts ?? []) {
+		if ((await getSchemaName(contract.name)) === schemaName) {
+			return getContractNetworks(contract.name);
+		}
+	}
+	return [];
+}
+
+/**
+ * Builds a WHERE condition keeping events with at least `minConfirmations`
+ * confirmations, counting the event's own block, against each network's chain head.
+ */
+async function buildConfirmationsCondition(
+	schemaName: string,
+	eventName: string,
+	columns: Map<string, string>,
+	minConfirmations: number | undefined,
+	params: unknown[],
+): Promise<string | null> {
+	if (minConfirmations === undefined) {
+		return null;
+	}
+	if (!Number.isInteger(minConfirmations) || minConfirmations < 0) {
+		throw new EventQueryError(
+			"min_confirmations must be a non-negative integer",
+		);
+	}
+	if (minConfirmations === 0) {
+		return null;
+	}
+	if (!columns.has("network")) {
+		throw new EventQueryError(
+			`Event "${eventName}" has no network column to count confirmations`,
+		);
+	}
+
+	const networkConditions: string[] = [];
+	for (const network of await getSchemaNetworks(schemaName)) {
+		const lastConfirmedBlock =
+			(await getCachedChainHead(network)) - BigInt(minConfirmations) + 1n;
+		params.push(network, lastConfirmedBlock.toString());
+		networkConditions.push(
+			`(network = $${params.length - 1} AND block_number <= $${params.length}::numeric)`,
+		);
+	}
+
+	return networkConditions.length > 0
+		? `(${networkConditions.join(" OR ")})`
+		: "FALSE";
+}
+
+/**
+ * Builds a WHERE condition leaving out events of blocks the reorg checker found
+ * orphaned. Only applies while reorg checking is configured.
+ */
+function buildOrphanedBlockCondition(
+	schemaName: string,
+	eventName: string,
+	columns: Map<string, string>,
+): string | null {
+	if (
+		!APP_CONSTANTS.REORG.NETWORKS ||
+		!["network", "block_number", "block_hash"].every((column) =>
+			columns.has(column),
+		)
+	) {
+		return null;
+	}
+
+	const table = `${quoteIdentifier(schemaName)}.${quoteIdentifier(eventName)}`;
+	return `NOT EXISTS (
+        SELECT 1 FROM orphaned_blocks o
+        WHERE o.network = ${table}.network
+          AND o.block_number = ${table}.block_number
+          AND o.block_hash = LOWER(${table}.block_hash::text)
+    )`;
+}
+
+/**
+ * Builds all WHERE conditions for event filters, including time ranges and
+ * confirmations.
+ */
+export async function buildEventConditions(
+	client: Client,
+	schemaName: string,
+	eventName: string,
+	columns: Map<string, string>,
+	filters: EventFilters,
+	params: unknown[],
+): Promise<string[]> {
+	const conditions = buildEventFilterConditions(columns, filters, params);
+	const timeCondition = await buildTimeCondition(
+		client,
+		schemaName,
+		eventName,
+		columns,
+		filters,
+		params,
+	);
+	if (timeCondition) {
+		conditions.push(timeCondition);
+	}
+	const confirmationsCondition = await buildConfirmationsCondition(
+		schemaName,
+		eventName,
+		columns,
+		filters.min_confirmations,
+		params,
+	);
+	if (confirmationsCondition) {
+		conditions.push(confirmationsCondition);
+	}
+	const orphanedBlockCondition = buildOrphanedBlockCondition(
+		schemaName,
+		eventName,
+		columns,
+	);
+	if (orphanedBlockCondition) {
+		conditions.push(orphanedBlockCondition);
+	}
+	return conditions;
+}
+
+export function clampEventsLimit(limit?: number): number {
+	if (!limit || !Number.isFinite(limit)) {
+		return APP_CONSTANTS.DEFAULT_EVENTS_PER_PAGE;
+	}
+	return Math.min(
+		Math.max(Math.floor(limit), 1),
+		APP_CONSTANTS.MAX_EVENTS_PER_PAGE,
+	);
+}
+
+/**
+ * Fetches one page of events in blockchain order (block number, then log index).
+ * Filters must stay the same across pages for cursors to remain meaningful.
+ *
+ * A "next" cursor continues in the requested sort order and a "prev" cursor walks
+ * back against it. Cursors are returned whenever the page has rows so clients can
+ * keep polling for events that arrive later; has_more reports whether more rows
+ * currently exist in the direction being paged.
+ */
+export async function queryEventsPage(
+	client: Client,
+	schemaName: string,
+	eventName: string,
+	options: {
+		sortOrder: number;
+		limit?: number;
+		cursor?: string;
+		filters?: EventFilters;
+	},
+): Promise<EventsPage> {
+	const limit = clampEventsLimit(options.limit);
+	const cursor = options.cursor ? decodeEventCursor(options.cursor) : null;
+	const backward = cursor?.direction === "prev";
+
+	// Paging backward scans against the sort order, rows are flipped back afterwards
+	const scanAscending = (options.sortOrder === 1) !== backward;
+	const order = scanAscending ? "ASC" : "DESC";
+
+	const params: unknown[] = [];
+	const conditions = options.filters
+		? await buildEventConditions(
+				client,
+				schemaName,
+				eventName,
+				await getEventTableColumns(client, schemaName, eventName),
+				options.filters,
+				params,
+			)
+		: [];
+
+	if (cursor?.network !== undefined) {
+		params.push(cursor.block_number, cursor.log_index, cursor.network);
+		conditions.push(
+			`(block_number, log_index, network) ${scanAscending ? ">" : "<"} ($${params.length - 2}::numeric, $${params.length - 1}::numeric, $${params.length})`,
+		);
+	} else if (cursor) {
+		params.push(cursor.block_number, cursor.log_index);
+		conditions.push(
+			`(block_number, log_index) ${scanAscending ? ">" : "<"} ($${params.length - 1}::numeric, $${params.length}::numeric)`,
+		);
+	}
+
+	// Fetch one extra row to know whether another page exists
+	params.push(limit + 1);
+	const whereClause =
+		conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+	const result = await client.query(
+		`SELECT * FROM ${quoteIdentifier(schemaName)}.${quoteIdentifier(eventName)}
+         ${whereClause}
+         ORDER BY block_number ${order}, log_index ${order}, network ${order}
+         LIMIT $${params.length}`,
+		params,
+	);
+
+	const hasMore = result.rows.length > limit;
+	const events = await attachBlockTimestamps(
+		client,
+		result.rows.slice(0, limit),
+	);
+	if (backward) {
+		events.reverse();
+	}
+
+	if (events.length === 0) {
+		return {
+			events,
+			next_cursor: cursor
+				? encodeEventCursor({ ...cursor, direction: "next" })
+				: null,
+			prev_cursor: cursor
+				? encodeEventCursor({ ...cursor, direction: "prev" })
+				: null,
+			has_more: false,
+		};
+	}
+
+	return {
+		events,
+		next_cursor: toEventCursor(events[events.length - 1], "next"),
+		prev_cursor: toEventCursor(events[0], "prev"),
+		has_more: hasMore,
+	};
+}
+
+/**
+ * Summarizes the first and last event of each table, optionally within a time range.
+ * With a time range, tables without events in it are left out.
+ */
+export async function summarizeEventTables(
+	client: Client,
+	schemaName: string,
+	eventNames: string[],
+	range: { from_time?: Date; to_time?: Date },
+): Promise<EventTableSummary[]> {
+	const summaries: EventTableSummary[] = [];
+	const hasTimeRange = Boolean(range.from_time || range.to_time);
+
+	for (const eventName of eventNames) {
+		const columns = await getEventTableColumns(client, schemaName, eventName);
+		if (!columns.has("block_number")) {
+			continue;
+		}
+
+		const params: unknown[] = [];
+		const timeCondition = await buildTimeCondition(
+			client,
+			schemaName,
+			eventName,
+			columns,
+			range,
+			params,
+		);
+		const whereClause = timeCondition ? `WHERE ${timeCondition}` : "";
+		const selectColumns = ["block_number", "network", "block_timestamp"]
+			.filter((column) => columns.has(column))
+			.join(", ");
+		const table = `${quoteIdentifier(schemaName)}.${quoteIdentifier(eventName)}`;
+
+		const [first, last] = await Promise.all(
+			["ASC", "DESC"].map(async (order) => {
+				const result = await client.query(
+					`SELECT ${selectColumns} FROM ${table}
+                     ${whereClause}
+                     ORDER BY block_number ${order}, log_index ${order}
+                     LIMIT 1`,
+					params,
+				);
+				return result.rows[0] as Record<string, any> | undefined;
+			}),
+		);
+
+		if (!first || !last) {
+			if (!hasTimeRange) {
+				summaries.push({
+					name: eventName,
+					first_block: null,
+					first_timestamp: null,
+					last_block: null,
+					last_timestamp: null,
+				});
+			}
+			continue;
+		}
+
+		await attachBlockTimestamps(client, [first, last]);
+		summaries.push({
+			name: eventName,
+			first_block: String(first.block_number),
+			first_timestamp: toIsoString(first.block_timestamp),
+			last_block: String(last.block_number),
+			last_timestamp: toIsoString(last.block_timestamp),
+		});
+	}
+
+	return summaries;
+}
+
+function toIsoString(value: Date | string | null): string | null {
+	if (value === null) {
+		return null;
+	}
+	return value instanceof Date ? value.toISOString() : value;
+}
@@ -0,0 +1,193 @@
+/**
+ * Streaming event export as CSV or newline-delimited JSON, optionally zipped.
+ *
+ * Rows are read through a server-side cursor on a dedicated connection so large
+ * tables are never held in memory, and the shared client stays free for other requests.
+ */
+
+import { Readable } from "stream";
+import { ZipArchive } from "archiver";
+import type { Client } from "pg";
+import Cursor from "pg-cursor";
+import {
+	APP_CONSTANTS,
+	createDatabaseClient,
+	quoteIdentifier,
+} from "./helpers.js";
+import { buildEventConditions, getEventTableColumns } from "./events.js";
+import type { EventFilters, ExportFormat } from "./types.js";
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat | "zip", string> = {
+	csv: "text/csv; charset=utf-8",
+	ndjson: "application/x-ndjson",
+	jsonl: "application/jsonl",
+	zip: "application/zip",
+};
+
+export interface PreparedEventExport {
+	eventName: string;
+	columns: string[];
+	sql: string;
+	params: unknown[];
+}
+
+/**
+ * Validates filters and builds the export query for one event table.
+ * Runs on the shared client so invalid requests fail before any streaming starts.
+ */
+export async function prepareEventExport(
+	client: Client,
+	schemaName: string,
+	eventName: string,
+	options: { sortOrder: number; filters?: EventFilters },
+): Promise<PreparedEventExport> {
+	const columns = await getEventTableColumns(client, schemaName, eventName);
+	const params: unknown[] = [];
+	const conditions = options.filters
+		? await buildEventConditions(
+				client,
+				schemaName,
+				eventName,
+				columns,
+				options.filters,
+				params,
+			)
+		: [];
+	const whereClause =
+		conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+	const order = options.sortOrder === 1 ? "ASC" : "DESC";
+
+	return {
+		eventName,
+		columns: Array.from(columns.keys()),
+		sql: `SELECT * FROM ${quoteIdentifier(schemaName)}.${quoteIdentifier(eventName)}
+              ${whereClause}
+              ORDER BY block_number ${order}, log_index ${order}, network ${order}`,
+		params,
+	};
+}
+
+async function* readExportRows(
+	prepared: PreparedEventExport,
+): AsyncGenerator<Record<string, any>[]> {
+	const exportClient = createDatabaseClient();
+	let cursor: Cursor | undefined;
+
+	try {
+		await exportClient.connect();
+		cursor = exportClient.query(new Cursor(prepared.sql, prepared.params));
+		while (true) {
+			const rows = await cursor.read(APP_CONSTANTS.EXPORT_BATCH_SIZE);
+			if (rows.length === 0) {
+				return;
+			}
+			yield rows;
+		}
+	} finally {
+		await cursor?.close();
+		await exportClient.end();
+	}
+}
+
+function toCsvValue(value: unknown): string {
+	if (value === null || value === undefined) {
+		return "";
+	}
+	const text =
+		value instanceof Date
+			? value.toISOString()
+			: typeof value === "object"
+				? JSON.stringify(value)
+				: String(value);
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serializes an export into text chunks, one per cursor batch.
+ */
+async function* serializeEventExport(
+	prepared: PreparedEventExport,
+	format: ExportFormat,
+): AsyncGenerator<string> {
+	if (format === "csv") {
+		yield `${prepared.columns.map(toCsvValue).join(",")}\n`;
+	}
+
+	for await (const rows of readExportRows(prepared)) {
+		yield rows
+			.map((row) =>
+				format === "csv"
+					? `${prepared.columns.map((column) => toCsvValue(row[column])).join(",")}\n`
+					: `${JSON.stringify(row)}\n`,
+			)
+			.join("");
+	}
+}
+
+/**
+ * Wraps an async iterator as a response body stream. Cancelling the stream (client
+ * disconnect) calls `onCancel` and returns the iterator, which closes any open cursor
+ * and connection.
+ */
+function toReadableStream(
+	chunks: AsyncIterator<string | Uint8Array>,
+	onCancel?: () => void,
+): ReadableStream<Uint8Array> {
+	const encoder = new TextEncoder();
+
+	return new ReadableStream({
+		async pull(controller) {
+			const { value, done } = await chunks.next();
+			if (done) {
+				controller.close();
+			} else {
+				controller.enqueue(
+					typeof value === "string" ? encoder.encode(value) : value,
+				);
+			}
+		},
+		async cancel() {
+			onCancel?.();
+			await chunks.return?.(undefined);
+		},
+	});
+}
+
+/**
+ * Streams one event table as a response body.
+ */
+export function createEventExportStream(
+	prepared: PreparedEventExport,
+	format: ExportFormat,
+): ReadableStream<Uint8Array> {
+	return toReadableStream(serializeEventExport(prepared, format));
+}
+
+/**
+ * Streams several event tables as a zip archive with one file per table.
+ * Tables are read one after another, so only one cursor is open at a time.
+ */
+export function createZipExportStream(
+	prepared: PreparedEventExport[],
+	format: ExportFormat,
+): ReadableStream<Uint8Array> {
+	const archive = new ZipArchive({ zlib: { level: 6 } });
+
+	const tables = prepared.map((table) => {
+		const rows = Readable.from(serializeEventExport(table, format));
+		archive.append(rows, { name: `${table.eventName}.${format}` });
+		return rows;
+	});
+
+	archive.finalize().catch((error) => {
+		console.error("Error finalizing event export archive:", error);
+	});
+
+	// The archive does not return the table being read, so its cursor is closed here
+	return toReadableStream(archive[Symbol.asyncIterator](), () => {
+		archive.abort();
+		for (const rows of tables) {
+			rows.destroy();
+		}
+	});
+}
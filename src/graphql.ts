@@ -0,0 +1,234 @@
+/**
+ * Report scoping of GraphQL queries.
+ *
+ * Rindexer's GraphQL server exposes the event tables of every contract schema, so queries
+ * of keys restricted to reports are checked before they are proxied: every root field
+ * must read an event table of one of the key's contracts. Tables are matched with their
+ * GraphQL types by their "@name" smart comment, or else by PostGraphile's default naming.
+ * A type that cannot be attributed to the key's contracts alone is rejected.
+ */
+
+import {
+	type FieldNode,
+	type FragmentDefinitionNode,
+	type IntrospectionQuery,
+	type GraphQLSchema,
+	type SelectionSetNode,
+	buildClientSchema,
+	getIntrospectionQuery,
+	getNamedType,
+	isObjectType,
+	Kind,
+	parse,
+} from "graphql";
+import type { Client } from "pg";
+import { APP_CONSTANTS, getSchemaName } from "./helpers.js";
+
+// Root fields allowed in any query: the type name and PostGraphile's Relay "query" field,
+// whose selections are checked as root fields
+const NEUTRAL_ROOT_FIELDS = new Set(["__typename", "query"]);
+
+let cachedSchema: { schema: GraphQLSchema; fetchedAt: number } | null = null;
+
+/**
+ * Fetches the schema of Rindexer's GraphQL server. It is cached briefly, since it only
+ * changes when the indexer restarts with other contracts.
+ */
+async function getGraphqlSchema(): Promise<GraphQLSchema> {
+	if (
+		cachedSchema &&
+		Date.now() - cachedSchema.fetchedAt < APP_CONSTANTS.GRAPHQL_SCHEMA_TTL_MS
+	) {
+		return cachedSchema.schema;
+	}
+
+	const response = await fetch(
+		`http://localhost:${APP_CONSTANTS.GRAPHQL_PORT}/graphql`,
+		{
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify({ query: getIntrospectionQuery() }),
+		},
+	);
+	const { data } = (await response.json()) as {
+		data?: IntrospectionQuery;
+	};
+	if (!data) {
+		throw new Error("GraphQL introspection returned no schema");
+	}
+	cachedSchema = { schema: buildClientSchema(data), fetchedAt: Date.now() };
+	return cachedSchema.schema;
+}
+
+function toPascalCase(value: string): string {
+	return value
+		.split("_")
+		.filter(Boolean)
+		.map((part) => part[0].toUpperCase() + part.slice(1))
+		.join("");
+}
+
+/**
+ * Returns the GraphQL type name PostGraphile gives a table: its "@name" smart comment,
+ * or the singular of the table name in PascalCase.
+ */
+function getTableTypeName(tableName: string, comment: string | null): string {
+	const smartName = comment?.match(/@name\s+(\S+)/)?.[1];
+	if (smartName) {
+		return toPascalCase(smartName);
+	}
+	const typeName = toPascalCase(tableName);
+	return /[^s]s$/.test(typeName) ? typeName.slice(0, -1) : typeName;
+}
+
+/**
+ * Returns the GraphQL type names of the event tables of the given reports' contracts,
+ * leaving out names that tables of other contracts have too.
+ */
+async function getAllowedTypeNames(
+	client: Client,
+	reportIds: string[],
+): Promise<Set<string>> {
+	const mappingResult = await client.query<{
+		indexer_id: string;
+		report_id: string;
+	}>("SELECT indexer_id, report_id FROM name_uuid_indexer_id_mapping");
+	const allowedSchemas = new Set<string>();
+	const schemaNames: string[] = [];
+	for (const row of mappingResult.rows) {
+		const schemaName = await getSchemaName(row.indexer_id);
+		schemaNames.push(schemaName);
+		if (reportIds.includes(row.report_id)) {
+			allowedSchemas.add(schemaName);
+		}
+	}
+
+	const tablesResult = await client.query<{
+		schema_name: string;
+		table_name: string;
+		comment: string | null;
+	}>(
+		`SELECT n.nspname AS schema_name, c.relname AS table_name,
+                obj_description(c.oid, 'pg_class') AS comment
+         FROM pg_class c
+         JOIN pg_namespace n ON n.oid = c.relnamespace
+         WHERE c.relkind = 'r' AND n.nspname = ANY($1)`,
+		[schemaNames],
+	);
+
+	const allowed = new Set<string>();
+	const denied = new Set<string>();
+	for (const row of tablesResult.rows) {
+		const typeName = getTableTypeName(row.table_name, row.comment);
+		(allowedSchemas.has(row.schema_name) ? allowed : denied).add(typeName);
+	}
+	for (const typeName of denied) {
+		allowed.delete(typeName);
+	}
+	return allowed;
+}
+
+/**
+ * Returns the table type a root field reads: its own type, or the type of the nodes of
+ * a connection.
+ */
+function getRootFieldTableType(
+	schema: GraphQLSchema,
+	fieldName: string,
+): string | null {
+	const field = schema.getQueryType()?.getFields()[fieldName];
+	if (!field) {
+		return null;
+	}
+	const type = getNamedType(field.type);
+	if (!isObjectType(type)) {
+		return null;
+	}
+	const nodesField = type.getFields().nodes;
+	return nodesField ? getNamedType(nodesField.type).name : type.name;
+}
+
+/**
+ * Collects the root fields of a selection set, following fragments.
+ */
+function collectRootFields(
+	selectionSet: SelectionSetNode,
+	fragments: Map<string, FragmentDefinitionNode>,
+	fields: FieldNode[],
+	visited = new Set<string>(),
+): void {
+	for (const selection of selectionSet.selections) {
+		if (selection.kind === Kind.FIELD) {
+			fields.push(selection);
+			if (selection.name.value === "query" && selection.selectionSet) {
+				collectRootFields(selection.selectionSet, fragments, fields, visited);
+			}
+		} else if (selection.kind === Kind.INLINE_FRAGMENT) {
+			collectRootFields(selection.selectionSet, fragments, fields, visited);
+		} else if (!visited.has(selection.name.value)) {
+			visited.add(selection.name.value);
+			const fragment = fragments.get(selection.name.value);
+			if (fragment) {
+				collectRootFields(fragment.selectionSet, fragments, fields, visited);
+			}
+		}
+	}
+}
+
+/**
+ * Returns the root fields of a query that read data outside the given reports, or a
+ * description of why the query cannot be checked. Mutations, subscriptions, node lookups
+ * by global id and introspection are rejected.
+ */
+export async function findUnauthorizedGraphqlFields(
+	client: Client,
+	reportIds: string[],
+	query: string,
+): Promise<string[]> {
+	let document: ReturnType<typeof parse>;
+	try {
+		document = parse(query);
+	} catch (error) {
+		return [
+			`query could not be parsed (${error instanceof Error ? error.message : error})`,
+		];
+	}
+
+	const fragments = new Map<string, FragmentDefinitionNode>();
+	const rootFields: FieldNode[] = [];
+	const denied: string[] = [];
+	for (const definition of document.definitions) {
+		if (definition.kind === Kind.FRAGMENT_DEFINITION) {
+			fragments.set(definition.name.value, definition);
+		}
+	}
+	for (const definition of document.definitions) {
+		if (definition.kind !== Kind.OPERATION_DEFINITION) {
+			continue;
+		}
+		if (definition.operation !== "query") {
+			denied.push(definition.operation);
+			continue;
+		}
+		collectRootFields(definition.selectionSet, fragments, rootFields);
+	}
+
+	const fieldNames = new Set(
+		rootFields
+			.map((field) => field.name.value)
+			.filter((name) => !NEUTRAL_ROOT_FIELDS.has(name)),
+	);
+	if (fieldNames.size === 0) {
+		return denied;
+	}
+
+	const schema = await getGraphqlSchema();
+	const allowedTypes = await getAllowedTypeNames(client, reportIds);
+	for (const fieldName of fieldNames) {
+		const tableType = getRootFieldTableType(schema, fieldName);
+		if (!tableType || !allowedTypes.has(tableType)) {
+			denied.push(fieldName);
+		}
+	}
+	return denied;
+}
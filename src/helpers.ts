@@ -2,31 +2,153 @@
  * Helper utilities for Rindexer configuration and contract management.
  */
 
+import { createHash } from "crypto";
 import { customAlphabet } from "nanoid";
 import { Client } from "pg";
 import * as fs from "fs-extra";
+import * as os from "os";
 import * as path from "path";
 import * as yaml from "js-yaml";
 import type {
+	AbiEventColumn,
+	AbiItem,
+	AbiParameter,
 	AddContractRequest,
 	AddContractsRequest,
+	BatchApiResponse,
+	ConfigChange,
+	ConfigSnapshot,
 	ContractAbi,
+	ContractAction,
+	ContractDeployment,
+	ContractInventoryEntry,
+	ContractInventoryFilters,
+	ContractInventoryResponse,
+	ContractValidationResponse,
+	EventTablePreview,
+	IndexerExit,
+	IndexerState,
+	IndexerStatus,
+	RemoveContractRequest,
+	RemoveContractsRequest,
 	RindexerConfig,
 	RindexerContract,
+	RindexerNetwork,
 } from "./types.js";
+import { RindexerConfigError, RpcError } from "./types.js";
+import type { Subprocess } from "bun";
 
 // ===== CONSTANTS =====
 
+// Directory holding rindexer.yaml and the ABI files
+const WORKSPACE_DIR = process.env.WORKSPACE_DIR || "/workspace";
+
 /**
  * Application constants. Database settings configurable via environment variables.
  */
 export const APP_CONSTANTS = {
-	CONFIG_FILE_PATH: "/workspace/rindexer.yaml",
-	ABIS_DIR: "/workspace/abis",
+	CONFIG_FILE_PATH: path.join(WORKSPACE_DIR, "rindexer.yaml"),
+	ABIS_DIR: path.join(WORKSPACE_DIR, "abis"),
+	// Schema scripts, applied on every start so upgraded databases get new tables
+	SCHEMA_DIR: path.join(import.meta.dir, "..", "pg-init"),
 	SERVER_PORT: 3000,
 	GRAPHQL_PORT: 3001,
+	// How long the GraphQL schema used to check report-restricted queries is reused
+	GRAPHQL_SCHEMA_TTL_MS: 60000,
+	// How long the contracts' event schemas listed in the Swagger document are reused
+	DOCS_SCHEMA_TTL_MS: 60000,
 	MAX_CONTRACTS_PER_REQUEST: 50,
+	DEFAULT_EVENTS_PER_PAGE: 100,
+	MAX_EVENTS_PER_PAGE: 1000,
+	MAX_STATS_BUCKETS: 1000,
+	MAX_STATS_TOP_VALUES: 100,
+	EXPORT_BATCH_SIZE: 1000,
+	MAX_SUBSCRIPTION_TARGETS: 20,
+	SUBSCRIPTION_HEARTBEAT_MS: 15000,
+	// Server-Sent Events streams are closed when a client falls this many messages behind
+	SSE_MAX_QUEUED_MESSAGES: 1000,
+	LISTENER_RECONNECT_MS: 5000,
+	WEBHOOK: {
+		MAX_ATTEMPTS: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || "8"),
+		BASE_RETRY_DELAY_MS: parseInt(process.env.WEBHOOK_BASE_RETRY_DELAY_MS || "5000"),
+		MAX_RETRY_DELAY_MS: parseInt(process.env.WEBHOOK_MAX_RETRY_DELAY_MS || "3600000"),
+		REQUEST_TIMEOUT_MS: parseInt(process.env.WEBHOOK_REQUEST_TIMEOUT_MS || "10000"),
+		// Development only: deliver to receivers on localhost or private networks
+		ALLOW_PRIVATE_HOSTS: process.env.WEBHOOK_ALLOW_PRIVATE_HOSTS === "true",
+		POLL_INTERVAL_MS: 5000,
+		SYNC_INTERVAL_MS: 30000,
+		DISPATCH_BATCH_SIZE: 50,
+	},
+	// Oldest configuration versions beyond this many are deleted
+	MAX_CONFIG_VERSIONS: parseInt(process.env.CONFIG_MAX_VERSIONS || "500"),
+	CONFIG_LOCK: {
+		TIMEOUT_MS: 30000,
+		// Lock files whose owner cannot be checked are taken over once older than this
+		STALE_MS: 10000,
+		// How often the holder touches the lock file, so it never looks that old
+		REFRESH_MS: 2000,
+		RETRY_MS: 50,
+	},
+	SUPERVISOR: {
+		BINARY_PATH: process.env.RINDEXER_BINARY_PATH || "/app/rindexer",
+		STOP_TIMEOUT_MS: 5000,
+		BASE_RESTART_DELAY_MS: parseInt(process.env.RINDEXER_BASE_RESTART_DELAY_MS || "1000"),
+		MAX_RESTART_DELAY_MS: parseInt(process.env.RINDEXER_MAX_RESTART_DELAY_MS || "60000"),
+		// Uptime after which a crash no longer counts towards the backoff
+		STABLE_AFTER_MS: 60000,
+		// This many crashes within the window stop automatic restarts
+		CRASH_LOOP_THRESHOLD: parseInt(process.env.RINDEXER_CRASH_LOOP_THRESHOLD || "5"),
+		CRASH_LOOP_WINDOW_MS: 300000,
+		EXIT_HISTORY_SIZE: 50,
+	},
+	INDEXER_LOGS: {
+		BUFFER_SIZE: parseInt(process.env.INDEXER_LOGS_BUFFER_SIZE || "5000"),
+		PERSIST: process.env.INDEXER_LOGS_PERSIST === "true",
+		RETENTION_DAYS: parseInt(process.env.INDEXER_LOGS_RETENTION_DAYS || "7"),
+		FLUSH_INTERVAL_MS: 1000,
+		PRUNE_INTERVAL_MS: 3600000,
+		DEFAULT_LIMIT: 200,
+		MAX_LIMIT: 1000,
+	},
+	RESTART: {
+		// Changes within this window of each other share one restart
+		DEBOUNCE_MS: parseInt(process.env.RINDEXER_RESTART_DEBOUNCE_MS || "1000"),
+		// Upper bound on how long a change waits for its restart during a burst
+		MAX_DELAY_MS: parseInt(process.env.RINDEXER_RESTART_MAX_DELAY_MS || "10000"),
+	},
+	PROGRESS: {
+		// Indexing rate is measured over progress samples from this window
+		RATE_WINDOW_MS: 600000,
+		// Lag in blocks under which a contract counts as caught up
+		CAUGHT_UP_LAG_BLOCKS: 10,
+	},
+	SEARCH: {
+		// Searches taking longer are cancelled, so a broad scan cannot hold its connection
+		STATEMENT_TIMEOUT_MS: parseInt(process.env.SEARCH_STATEMENT_TIMEOUT_MS || "30000"),
+		// How often missing search indexes are created on event tables, 0 to disable
+		INDEX_INTERVAL_MS: parseInt(process.env.SEARCH_INDEX_INTERVAL_MS || "300000"),
+	},
+	REORG: {
+		// Networks to check for reorgs, as name:confirmations pairs, e.g. "polygon:128,base:64"
+		NETWORKS: process.env.REORG_CHECK_NETWORKS || "",
+		ACTION: process.env.REORG_ACTION === "delete" ? "delete" : "mark",
+		CHECK_INTERVAL_MS: parseInt(process.env.REORG_CHECK_INTERVAL_MS || "30000"),
+		DEFAULT_LIMIT: 50,
+		MAX_LIMIT: 500,
+	},
+	RETENTION: {
+		PRUNE_INTERVAL_MS: parseInt(process.env.RETENTION_PRUNE_INTERVAL_MS || "3600000"),
+		// Rows deleted per statement, keeping locks on event tables short
+		DELETE_BATCH_SIZE: 10000,
+		DEFAULT_RUNS_LIMIT: 20,
+		MAX_RUNS_LIMIT: 200,
+	},
+	RPC_BATCH_SIZE: 100,
+	RPC_TIMEOUT_MS: 10000,
+	// How long chain heads are reused for min_confirmations filters
+	CHAIN_HEAD_CACHE_MS: 5000,
 	CORS_ORIGINS: process.env.CORS_ORIGINS,
+	ADMIN_API_KEY: process.env.ADMIN_API_KEY,
 	DB: {
 		HOST: process.env.POSTGRES_HOST || "localhost",
 		PORT: parseInt(process.env.POSTGRES_PORT || "5432"),
@@ -99,10 +221,52 @@ export function toSnakeCase(str: string): string {
 		.replace(/^_/, "");
 }
 
+/**
+ * Quotes a Postgres identifier so it can be safely interpolated into SQL.
+ */
+export function quoteIdentifier(identifier: string): string {
+	return `"${identifier.replace(/"/g, '""')}"`;
+}
+
 function isValidEthereumAddress(address: string): boolean {
 	return /^0x[a-fA-F0-9]{40}$/.test(address);
 }
 
+const sseEncoder = new TextEncoder();
+
+/**
+ * Queues a Server-Sent Events message on a response stream. Returns false instead of
+ * throwing once the client has disconnected or fallen too far behind, so the caller
+ * can stop sending.
+ */
+export function enqueueServerSentEvent(
+	controller: ReadableStreamDefaultController<Uint8Array>,
+	message: string,
+): boolean {
+	if (controller.desiredSize === null || controller.desiredSize <= 0) {
+		return false;
+	}
+	try {
+		controller.enqueue(sseEncoder.encode(message));
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Closes a Server-Sent Events stream, if the client has not closed it already.
+ */
+export function closeServerSentEvents(
+	controller: ReadableStreamDefaultController<Uint8Array>,
+): void {
+	try {
+		controller.close();
+	} catch {
+		// Already closed or cancelled
+	}
+}
+
 // ===== DATABASE =====
 
 export function createDatabaseClient(): Client {
@@ -128,252 +292,1506 @@ export async function connectDatabase(client: Client): Promise<void> {
 	}
 }
 
+/**
+ * Applies the scripts of pg-init in name order. Postgres only runs them itself on an
+ * empty data volume; every statement is idempotent, so existing databases get the
+ * tables and columns added since they were created. Exits process on failure.
+ */
+export async function migrateDatabase(client: Client): Promise<void> {
+	const scripts = (await fs.readdir(APP_CONSTANTS.SCHEMA_DIR))
+		.filter((file) => file.endsWith(".sql"))
+		.sort();
+	for (const script of scripts) {
+		try {
+			await client.query(
+				await fs.readFile(path.join(APP_CONSTANTS.SCHEMA_DIR, script), "utf8"),
+			);
+		} catch (error) {
+			console.error(`❌ Database migration ${script} failed:`, error);
+			process.exit(1);
+		}
+	}
+	console.log("✅ Database schema up to date");
+}
+
 // ===== PROCESS MANAGEMENT =====
 
-let globalProcess: any | undefined;
+/**
+ * Supervises the rindexer process: restarts it with exponential backoff when it exits
+ * unexpectedly, gives up after repeated crashes (crash loop) and keeps a rolling
+ * history of exits. Start, stop and restart requests are serialized.
+ */
+const supervisor: {
+	process?: Subprocess;
+	state: IndexerState;
+	startedAt?: Date;
+	consecutiveFailures: number;
+	crashTimes: number[];
+	restartTimer?: ReturnType<typeof setTimeout>;
+	nextRestartAt?: Date;
+	exits: IndexerExit[];
+	onOutput?: RindexerOutputHandler;
+} = {
+	state: "stopped",
+	consecutiveFailures: 0,
+	crashTimes: [],
+	exits: [],
+};
 
-export function initializeRindexerProcess(): void {
-	console.log("🚀 Starting rindexer process...");
+/**
+ * Receives the stdout and stderr of each spawned rindexer process.
+ */
+export type RindexerOutputHandler = (
+	stdout: ReadableStream<Uint8Array>,
+	stderr: ReadableStream<Uint8Array>,
+) => void;
 
-	const proc = Bun.spawn({
-		cmd: ["/app/rindexer", "start", "all"],
-		stdout: "inherit",
-		stderr: "inherit",
-		onExit: (proc, exitCode, signalCode, error) => {
-			console.log(
-				`🔴 Rindexer process exited with code: ${exitCode}, signal: ${signalCode}`,
-			);
-			if (error) {
-				console.error("❌ Rindexer process error on exit:", error);
-			}
-			if (globalProcess === proc) {
-				globalProcess = undefined;
-			}
-		},
-	});
+// Processes being stopped on purpose, whose exit is not a crash
+const expectedExits = new WeakSet<Subprocess>();
+
+// Tail of the queue of start, stop and restart requests
+let processQueue: Promise<unknown> = Promise.resolve();
+
+function enqueueProcessAction(action: () => Promise<void>): Promise<void> {
+	const run = processQueue.then(action);
+	processQueue = run.catch(() => undefined);
+	return run;
+}
 
-	globalProcess = proc;
+function recordExit(exit: IndexerExit): void {
+	supervisor.exits.push(exit);
+	if (supervisor.exits.length > APP_CONSTANTS.SUPERVISOR.EXIT_HISTORY_SIZE) {
+		supervisor.exits.shift();
+	}
 }
 
 /**
- * Gracefully restarts the Rindexer process.
+ * Schedules a restart after an unexpected exit, or enters the crash_loop state when
+ * the process crashed too often within CRASH_LOOP_WINDOW_MS.
  */
-export async function restartRindexerProcess(): Promise<void> {
-	console.log("🔄 Restarting rindexer process...");
+function handleCrash(uptimeMs: number): void {
+	const now = Date.now();
+	const { SUPERVISOR } = APP_CONSTANTS;
 
-	if (globalProcess) {
-		console.log("Terminating existing rindexer process...");
+	// A process that ran long enough starts a fresh backoff sequence
+	if (uptimeMs >= SUPERVISOR.STABLE_AFTER_MS) {
+		supervisor.consecutiveFailures = 0;
+	}
+	supervisor.consecutiveFailures++;
+	supervisor.crashTimes = [
+		...supervisor.crashTimes.filter(
+			(time) => now - time < SUPERVISOR.CRASH_LOOP_WINDOW_MS,
+		),
+		now,
+	];
+
+	if (supervisor.crashTimes.length >= SUPERVISOR.CRASH_LOOP_THRESHOLD) {
+		supervisor.state = "crash_loop";
+		console.error(
+			`❌ Rindexer crashed ${supervisor.crashTimes.length} times within ${SUPERVISOR.CRASH_LOOP_WINDOW_MS / 1000}s, not restarting it. Use POST /indexer/start once the cause is fixed.`,
+		);
+		return;
+	}
 
-		globalProcess.kill("SIGTERM");
+	const delay = Math.min(
+		SUPERVISOR.BASE_RESTART_DELAY_MS * 2 ** (supervisor.consecutiveFailures - 1),
+		SUPERVISOR.MAX_RESTART_DELAY_MS,
+	);
+	supervisor.state = "backoff";
+	supervisor.nextRestartAt = new Date(now + delay);
+	console.log(`⏳ Restarting rindexer in ${delay}ms...`);
+
+	supervisor.restartTimer = setTimeout(() => {
+		void enqueueProcessAction(async () => {
+			if (supervisor.state === "backoff") {
+				spawnRindexerProcess();
+			}
+		});
+	}, delay);
+}
 
-		// Force kill after 5 seconds if graceful shutdown fails
-		const timeout = setTimeout(() => {
-			console.log("Force killing rindexer process...");
-			globalProcess?.kill("SIGKILL");
-		}, 5000);
+function spawnRindexerProcess(): void {
+	console.log("🚀 Starting rindexer process...");
 
-		try {
-			await globalProcess.exited;
-			clearTimeout(timeout);
-			console.log("Rindexer process terminated successfully");
-		} catch (error) {
-			console.error("Error waiting for process termination:", error);
-		}
+	clearTimeout(supervisor.restartTimer);
+	supervisor.nextRestartAt = undefined;
+	const startedAt = new Date();
 
-		globalProcess = undefined;
+	let proc: Subprocess;
+	try {
+		proc = Bun.spawn({
+			cmd: [APP_CONSTANTS.SUPERVISOR.BINARY_PATH, "start", "all"],
+			stdout: supervisor.onOutput ? "pipe" : "inherit",
+			stderr: supervisor.onOutput ? "pipe" : "inherit",
+		});
+	} catch (error) {
+		// The binary is missing or not executable
+		const message = error instanceof Error ? error.message : String(error);
+		console.error("❌ Failed to start rindexer process:", message);
+		recordExit({
+			pid: null,
+			started_at: startedAt.toISOString(),
+			exited_at: startedAt.toISOString(),
+			exit_code: null,
+			signal: null,
+			expected: false,
+			error: message,
+		});
+		handleCrash(0);
+		return;
 	}
 
-	await new Promise((resolve) => setTimeout(resolve, 1000));
-	initializeRindexerProcess();
+	supervisor.process = proc;
+	supervisor.startedAt = startedAt;
+	supervisor.state = "running";
 
-	console.log("✅ Rindexer process restarted successfully");
-}
+	if (
+		supervisor.onOutput &&
+		proc.stdout instanceof ReadableStream &&
+		proc.stderr instanceof ReadableStream
+	) {
+		supervisor.onOutput(proc.stdout, proc.stderr);
+	}
 
-// ===== CONFIG MANAGEMENT =====
+	// Registered before anyone else awaits the exit, so it is recorded first
+	void proc.exited.then((exitCode) => {
+		const signalCode =
+			proc.signalCode == null ? null : String(proc.signalCode);
+		console.log(
+			`🔴 Rindexer process exited with code: ${exitCode}, signal: ${signalCode}`,
+		);
+
+		const expected = expectedExits.has(proc);
+		recordExit({
+			pid: proc.pid,
+			started_at: startedAt.toISOString(),
+			exited_at: new Date().toISOString(),
+			exit_code: signalCode ? null : exitCode,
+			signal: signalCode,
+			expected,
+			error: null,
+		});
+
+		if (supervisor.process !== proc) {
+			return;
+		}
+		supervisor.process = undefined;
+		if (!expected) {
+			handleCrash(Date.now() - startedAt.getTime());
+		}
+	});
+}
 
 /**
- * Loads and validates the Rindexer configuration from rindexer.yaml.
+ * Stops the current process, if any: SIGTERM, then SIGKILL after STOP_TIMEOUT_MS.
  */
-export async function loadRindexerConfig(): Promise<{
-	projectName: string;
-	config: RindexerConfig;
-}> {
+async function terminateRindexerProcess(): Promise<void> {
+	clearTimeout(supervisor.restartTimer);
+	supervisor.nextRestartAt = undefined;
+
+	const proc = supervisor.process;
+	if (!proc) {
+		return;
+	}
+
+	console.log("Terminating existing rindexer process...");
+	expectedExits.add(proc);
+	proc.kill("SIGTERM");
+
+	// Force kill if graceful shutdown takes too long
+	const timeout = setTimeout(() => {
+		console.log("Force killing rindexer process...");
+		proc.kill("SIGKILL");
+	}, APP_CONSTANTS.SUPERVISOR.STOP_TIMEOUT_MS);
+
 	try {
-		const configContent = await fs.readFile(
-			APP_CONSTANTS.CONFIG_FILE_PATH,
-			"utf8",
-		);
-		const config = yaml.load(configContent) as RindexerConfig;
+		await proc.exited;
+		console.log("Rindexer process terminated successfully");
+	} catch (error) {
+		console.error("Error waiting for process termination:", error);
+	} finally {
+		clearTimeout(timeout);
+	}
 
-		if (!config.name) {
-			throw new Error(
-				"Project name is missing from rindexer.yaml configuration",
-			);
-		}
+	if (supervisor.process === proc) {
+		supervisor.process = undefined;
+	}
+}
 
-		// PostgreSQL has a 63-character limit for database names
-		if (config.name.length > 63) {
-			throw new Error("Project name must be 63 characters or less");
-		}
+function resetCrashTracking(): void {
+	supervisor.consecutiveFailures = 0;
+	supervisor.crashTimes = [];
+}
 
-		if (!config.storage?.postgres?.enabled) {
-			throw new Error(
-				"PostgreSQL must be enabled in rindexer.yaml configuration",
-			);
-		}
-		// Validate that all network RPC endpoints are configured in environment variables
-		if (config.networks) {
-			const missingEndpoints: string[] = [];
-			
-			for (const network of config.networks) {
-				if (network.rpc) {
-					// Extract environment variable name from ${VAR_NAME} format
-					const envVarMatch = network.rpc.match(/^\$\{([^}]+)\}$/);
-					if (envVarMatch) {
-						const envVarName = envVarMatch[1];
-						if (!process.env[envVarName]) {
-							missingEndpoints.push(`${envVarName} (for network: ${network.name})`);
-						}
-					}
-				}
-			}
+/**
+ * Starts supervising rindexer. Its output is inherited unless onOutput is given.
+ */
+export function initializeRindexerProcess(
+	onOutput?: RindexerOutputHandler,
+): void {
+	supervisor.onOutput = onOutput;
+	spawnRindexerProcess();
+}
 
-			if (missingEndpoints.length > 0) {
-				throw new Error(
-					`Missing environment variables for network RPC endpoints:\n${missingEndpoints.map(endpoint => `  - ${endpoint}`).join('\n')}\n\nPlease add these to your .env file.`
-				);
-			}
+/**
+ * Starts the indexer if it is not running, clearing any backoff or crash loop.
+ */
+export function startRindexerProcess(): Promise<void> {
+	return enqueueProcessAction(async () => {
+		if (supervisor.process) {
+			return;
 		}
+		resetCrashTracking();
+		spawnRindexerProcess();
+	});
+}
 
-		return { projectName: config.name, config };
-	} catch (error) {
-		if (error instanceof Error) {
-			throw error;
-		}
-		throw new Error("Failed to load or parse rindexer.yaml configuration file");
-	}
+/**
+ * Stops the indexer. It stays stopped, without automatic restarts, until started again.
+ */
+export function stopRindexerProcess(): Promise<void> {
+	return enqueueProcessAction(async () => {
+		supervisor.state = "stopped";
+		await terminateRindexerProcess();
+		resetCrashTracking();
+	});
 }
 
 /**
- * Updates the Rindexer configuration file with new contracts.
+ * Gracefully restarts the Rindexer process.
  */
-export async function updateRindexerConfig(
-	newContracts: RindexerContract[],
-): Promise<void> {
-	const { config } = await loadRindexerConfig();
+export function restartRindexerProcess(): Promise<void> {
+	return enqueueProcessAction(async () => {
+		console.log("🔄 Restarting rindexer process...");
 
-	if (!config.contracts) {
-		config.contracts = [];
-	}
+		await terminateRindexerProcess();
+		await new Promise((resolve) => setTimeout(resolve, 1000));
+		resetCrashTracking();
+		spawnRindexerProcess();
 
-	// Use Map for efficient O(1) lookups when merging contracts
-	const existingContractsMap = new Map<string, RindexerContract>();
-	for (const contract of config.contracts) {
-		existingContractsMap.set(contract.name, contract);
-	}
+		console.log("✅ Rindexer process restarted successfully");
+	});
+}
 
-	for (const newContract of newContracts) {
-		existingContractsMap.set(newContract.name, newContract);
-	}
+export function getRindexerStatus(): IndexerStatus {
+	return {
+		state: supervisor.state,
+		pid: supervisor.process?.pid ?? null,
+		binary_path: APP_CONSTANTS.SUPERVISOR.BINARY_PATH,
+		started_at: supervisor.process
+			? (supervisor.startedAt?.toISOString() ?? null)
+			: null,
+		consecutive_failures: supervisor.consecutiveFailures,
+		next_restart_at: supervisor.nextRestartAt?.toISOString() ?? null,
+		exits: [...supervisor.exits].reverse(),
+	};
+}
 
-	config.contracts = Array.from(existingContractsMap.values());
+// ===== CONFIG MUTATIONS =====
+
+// Tail of the in-process queue of config mutations
+let configQueue: Promise<unknown> = Promise.resolve();
 
-	const yamlStr = yaml.dump(config, { indent: 2, lineWidth: -1 });
-	await fs.writeFile(APP_CONSTANTS.CONFIG_FILE_PATH, yamlStr, "utf8");
+let pendingRestart:
+	| {
+			promise: Promise<void>;
+			resolve: () => void;
+			reject: (error: unknown) => void;
+			timer?: ReturnType<typeof setTimeout>;
+			deadline: number;
+	  }
+	| undefined;
+
+/**
+ * Identifies the PID namespace of this process: the kernel boot and the namespace, or
+ * the hostname where /proc does not tell. PIDs are only comparable within one.
+ */
+function readPidNamespaceId(): string {
+	try {
+		const bootId = fs
+			.readFileSync("/proc/sys/kernel/random/boot_id", "utf8")
+			.trim();
+		return `${bootId}/${fs.readlinkSync("/proc/self/ns/pid")}`;
+	} catch {
+		return os.hostname();
+	}
 }
 
-// ===== VALIDATION =====
+const PID_NAMESPACE_ID = readPidNamespaceId();
 
-export function validateBatchRequest(
-	body: Partial<AddContractsRequest>,
-): string | null {
-	if (!body.contracts || !Array.isArray(body.contracts)) {
-		return "Missing or invalid 'contracts' array";
+/**
+ * Checks whether the owner recorded in a lock file is gone. Lock files hold
+ * "{pid namespace} {pid} {token}". The PID is only checked for an owner in this PID
+ * namespace; a lock of this process's own PID is then left over from an earlier
+ * process, since changes within this process are queued before locking. Other owners,
+ * for instance in another container sharing the workspace, touch the file while they
+ * hold it, so it is judged by age.
+ */
+function isConfigLockStale(content: string, modifiedAt: number): boolean {
+	const [namespaceId, pidText] = content.split(" ");
+	const pid = Number(pidText);
+	if (namespaceId !== PID_NAMESPACE_ID || !Number.isInteger(pid) || pid <= 0) {
+		return Date.now() - modifiedAt > APP_CONSTANTS.CONFIG_LOCK.STALE_MS;
 	}
-	if (body.contracts.length === 0) {
-		return "Contracts array cannot be empty";
+	if (pid === process.pid) {
+		return true;
 	}
-	if (body.contracts.length > APP_CONSTANTS.MAX_CONTRACTS_PER_REQUEST) {
-		return `Maximum ${APP_CONSTANTS.MAX_CONTRACTS_PER_REQUEST} contracts allowed per batch`;
+	try {
+		process.kill(pid, 0);
+		return false;
+	} catch (error) {
+		// EPERM means the process exists under another user
+		return (error as NodeJS.ErrnoException).code === "ESRCH";
 	}
-	return null;
 }
 
-export function validateContract(contract: AddContractRequest): string | null {
-	if (!contract.name || typeof contract.name !== "string") {
-		return "Contract name is required and must be a string";
-	}
+/**
+ * Takes the rindexer.yaml lock file, waiting for other processes to release it.
+ * Returns a function that releases the lock if this process still holds it.
+ */
+async function acquireConfigFileLock(): Promise<() => Promise<void>> {
+	const lockPath = `${APP_CONSTANTS.CONFIG_FILE_PATH}.lock`;
+	const deadline = Date.now() + APP_CONSTANTS.CONFIG_LOCK.TIMEOUT_MS;
+	const owner = `${PID_NAMESPACE_ID} ${process.pid} ${generateNanoid()}`;
+	const isOwner = async () =>
+		(await fs.readFile(lockPath, "utf8").catch(() => null)) === owner;
+
+	while (true) {
+		try {
+			await fs.writeFile(lockPath, owner, { flag: "wx" });
+			const refresh = setInterval(async () => {
+				if (await isOwner()) {
+					const now = new Date();
+					await fs.utimes(lockPath, now, now).catch(() => undefined);
+				}
+			}, APP_CONSTANTS.CONFIG_LOCK.REFRESH_MS);
+			return async () => {
+				clearInterval(refresh);
+				if (await isOwner()) {
+					await fs.remove(lockPath);
+				}
+			};
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+				throw error;
+			}
+		}
 
-	if (!contract.report_id || typeof contract.report_id !== "string") {
-		return "Report ID is required and must be a string";
+		const [content, stat] = await Promise.all([
+			fs.readFile(lockPath, "utf8").catch(() => null),
+			fs.stat(lockPath).catch(() => null),
+		]);
+		if (content !== null && stat && isConfigLockStale(content, stat.mtimeMs)) {
+			// Another waiter may have replaced the stale lock in the meantime
+			const current = await fs.readFile(lockPath, "utf8").catch(() => null);
+			if (current === content) {
+				console.warn(`Removing stale configuration lock ${lockPath}`);
+				await fs.remove(lockPath);
+			}
+			continue;
+		}
+		if (Date.now() > deadline) {
+			throw new RindexerConfigError(
+				`Timed out waiting for the configuration lock ${lockPath}`,
+			);
+		}
+		await new Promise((resolve) =>
+			setTimeout(resolve, APP_CONSTANTS.CONFIG_LOCK.RETRY_MS),
+		);
 	}
+}
 
-	if (!contract.address || typeof contract.address !== "string") {
-		return "Contract address is required and must be a string";
-	}
+/**
+ * Runs a change to rindexer.yaml or the ABI files after every previously queued change,
+ * holding the configuration lock file for its duration.
+ * updateRindexerConfig, writeAbiFiles and deleteAbiFiles must only be called from here,
+ * through withConfigChange so the change is versioned.
+ */
+export function withConfigLock<T>(mutation: () => Promise<T>): Promise<T> {
+	const run = configQueue.then(async () => {
+		const release = await acquireConfigFileLock();
+		try {
+			return await mutation();
+		} finally {
+			await release();
+		}
+	});
+	configQueue = run.catch(() => undefined);
+	return run;
+}
 
-	if (!isValidEthereumAddress(contract.address)) {
-		return "Invalid Ethereum address format";
+/**
+ * Reads rindexer.yaml as written, with the ABI files its contracts reference keyed by
+ * their path relative to the configuration directory.
+ */
+export async function readConfigSnapshot(): Promise<ConfigSnapshot> {
+	const configDir = path.dirname(APP_CONSTANTS.CONFIG_FILE_PATH);
+	const config = await fs.readFile(APP_CONSTANTS.CONFIG_FILE_PATH, "utf8");
+	const abis: Record<string, string> = {};
+
+	const parsed = yaml.load(config) as RindexerConfig | undefined;
+	for (const contract of parsed?.contracts ?? []) {
+		const abiPath = path.resolve(configDir, contract.abi);
+		try {
+			abis[path.relative(configDir, abiPath)] = await fs.readFile(
+				abiPath,
+				"utf8",
+			);
+		} catch {
+			// Missing ABI files are reported by GET /contracts, not versioned
+		}
 	}
 
-	if (!contract.abi) {
-		return "Contract ABI is required";
-	}
+	return { config, abis };
+}
 
-	try {
-		parseAbi(contract.abi);
-	} catch {
-		return "Invalid ABI format - must be valid JSON";
+/**
+ * Restores rindexer.yaml and its ABI files from a snapshot, deleting ABI files the
+ * snapshot doesn't reference. Must be called from withConfigLock.
+ */
+export async function restoreConfigSnapshot(
+	snapshot: ConfigSnapshot,
+): Promise<void> {
+	const configDir = path.dirname(APP_CONSTANTS.CONFIG_FILE_PATH);
+	const resolveAbiPath = (relativePath: string) => {
+		const abiPath = path.resolve(configDir, relativePath);
+		if (path.relative(configDir, abiPath).startsWith("..")) {
+			throw new RindexerConfigError(
+				`ABI path "${relativePath}" is outside the configuration directory`,
+			);
+		}
+		return abiPath;
+	};
+
+	const current = await readConfigSnapshot();
+	for (const [relativePath, content] of Object.entries(snapshot.abis)) {
+		const abiPath = resolveAbiPath(relativePath);
+		await fs.ensureDir(path.dirname(abiPath));
+		await fs.writeFile(abiPath, content, "utf8");
 	}
+	await writeRindexerConfigFile(snapshot.config);
 
-	return null;
+	for (const relativePath of Object.keys(current.abis)) {
+		if (!(relativePath in snapshot.abis)) {
+			await fs.remove(resolveAbiPath(relativePath));
+		}
+	}
 }
 
-// ===== CONTRACT PROCESSING =====
+/**
+ * Replaces the ABI contents of a snapshot with their SHA-256 hashes, as versions
+ * store them.
+ */
+function hashSnapshotAbis(snapshot: ConfigSnapshot): ConfigSnapshot {
+	return {
+		config: snapshot.config,
+		abis: Object.fromEntries(
+			Object.entries(snapshot.abis).map(([file, content]) => [
+				file,
+				createHash("sha256").update(content).digest("hex"),
+			]),
+		),
+	};
+}
 
-export interface ProcessedContract {
-	contract: RindexerContract;
-	abiFile: { filename: string; content: string };
-	indexerId: string;
-	isNewContract: boolean;
+function isSameSnapshot(a: ConfigSnapshot, b: ConfigSnapshot): boolean {
+	const abiKeys = Object.keys(a.abis).sort();
+	return (
+		a.config === b.config &&
+		abiKeys.length === Object.keys(b.abis).length &&
+		abiKeys.every((key) => a.abis[key] === b.abis[key])
+	);
 }
 
 /**
- * Processes a contract request into Rindexer configuration format.
- * Creates or retrieves indexer ID and handles database mapping.
+ * Stores a version, with ABI contents stored once per hash, then deletes the versions
+ * beyond APP_CONSTANTS.MAX_CONFIG_VERSIONS and the ABIs no version references anymore.
  */
-export async function processContract(
-	contractRequest: AddContractRequest,
+async function recordConfigVersion(
 	client: Client,
-): Promise<ProcessedContract> {
-	const abi = parseAbi(contractRequest.abi);
-
-	// Create composite key for unique contract identification
-	const nameUuid = `${contractRequest.name}_${contractRequest.report_id}`;
-	console.log(`Processing contract: ${nameUuid}`);
-
-	// Check if contract already exists in mapping table
-	const existingResult = await client.query(
-		"SELECT indexer_id FROM name_uuid_indexer_id_mapping WHERE name_uuid = $1",
-		[nameUuid],
+	change: ConfigChange,
+	snapshot: ConfigSnapshot,
+): Promise<void> {
+	const hashed = hashSnapshotAbis(snapshot);
+	const files = Object.keys(snapshot.abis);
+	await client.query(
+		`INSERT INTO config_abis (hash, content)
+         SELECT * FROM unnest($1::text[], $2::text[])
+         ON CONFLICT DO NOTHING`,
+		[
+			files.map((file) => hashed.abis[file]),
+			files.map((file) => snapshot.abis[file]),
+		],
+	);
+	await client.query(
+		`INSERT INTO config_versions (source, request, config, abis)
+         VALUES ($1, $2, $3, $4)`,
+		[
+			change.source,
+			JSON.stringify(change.request ?? null),
+			snapshot.config,
+			JSON.stringify(hashed.abis),
+		],
 	);
 
-	let indexerId: string;
-	let isNewContract: boolean;
-
-	if (existingResult.rows.length > 0) {
-		indexerId = existingResult.rows[0].indexer_id;
-		isNewContract = false;
-	} else {
-		indexerId = generateNanoid();
+	const pruned = await client.query(
+		`DELETE FROM config_versions
+         WHERE id <= (SELECT id FROM config_versions ORDER BY id DESC OFFSET $1 LIMIT 1)`,
+		[APP_CONSTANTS.MAX_CONFIG_VERSIONS],
+	);
+	if (pruned.rowCount) {
 		await client.query(
-			"INSERT INTO name_uuid_indexer_id_mapping (name_uuid, indexer_id) VALUES ($1, $2)",
-			[nameUuid, indexerId],
+			`DELETE FROM config_abis a
+             WHERE NOT EXISTS (
+                SELECT 1 FROM config_versions v, jsonb_each_text(v.abis) AS abi
+                WHERE abi.value = a.hash
+             )`,
 		);
-		isNewContract = true;
 	}
+}
 
-	const abiFilename = `${indexerId}.abi.json`;
+/**
+ * Runs a change to rindexer.yaml or the ABI files under the configuration lock and
+ * stores the resulting files as a new version in config_versions, with the request
+ * that caused it. If the files were changed outside the API since the last version,
+ * their current state is stored first as an "external" version.
+ */
+export function withConfigChange<T>(
+	client: Client,
+	change: ConfigChange,
+	mutation: () => Promise<T>,
+): Promise<T> {
+	return withConfigLock(async () => {
+		let before: ConfigSnapshot | null = null;
+		try {
+			before = await readConfigSnapshot();
+			const latest = await client.query<ConfigSnapshot>(
+				"SELECT config, abis FROM config_versions ORDER BY id DESC LIMIT 1",
+			);
+			if (
+				!latest.rows[0] ||
+				!isSameSnapshot(latest.rows[0], hashSnapshotAbis(before))
+			) {
+				await recordConfigVersion(
+					client,
+					{ source: "external", request: null },
+					before,
+				);
+			}
+		} catch (error) {
+			console.error(
+				"Error recording the configuration before a change:",
+				error,
+			);
+		}
+
+		try {
+			return await mutation();
+		} finally {
+			// Partially applied changes are recorded too
+			try {
+				const after = await readConfigSnapshot();
+				if (!before || !isSameSnapshot(before, after)) {
+					await recordConfigVersion(client, change, after);
+				}
+			} catch (error) {
+				console.error("Error recording configuration version:", error);
+			}
+		}
+	});
+}
+
+async function runPendingRestart(
+	pending: NonNullable<typeof pendingRestart>,
+): Promise<void> {
+	// Changes requested from now on wait for the next restart
+	if (pendingRestart === pending) {
+		pendingRestart = undefined;
+	}
+
+	try {
+		// A stopped indexer picks up the changes when it is started again
+		if (getRindexerStatus().state === "stopped") {
+			console.log("Rindexer is stopped; configuration changes apply on its next start");
+		} else {
+			await withConfigLock(() => restartRindexerProcess());
+		}
+		pending.resolve();
+	} catch (error) {
+		pending.reject(error);
+	}
+}
+
+/**
+ * Requests an indexer restart to apply configuration changes. Requests made within
+ * RESTART.DEBOUNCE_MS of each other are coalesced into a single restart.
+ * Resolves once the restart that includes the caller's changes has completed.
+ */
+export function requestRindexerRestart(): Promise<void> {
+	if (!pendingRestart) {
+		let resolve!: () => void;
+		let reject!: (error: unknown) => void;
+		const promise = new Promise<void>((res, rej) => {
+			resolve = res;
+			reject = rej;
+		});
+		pendingRestart = {
+			promise,
+			resolve,
+			reject,
+			deadline: Date.now() + APP_CONSTANTS.RESTART.MAX_DELAY_MS,
+		};
+	}
+
+	const pending = pendingRestart;
+	clearTimeout(pending.timer);
+	pending.timer = setTimeout(
+		() => void runPendingRestart(pending),
+		Math.max(
+			0,
+			Math.min(APP_CONSTANTS.RESTART.DEBOUNCE_MS, pending.deadline - Date.now()),
+		),
+	);
+	return pending.promise;
+}
+
+// ===== CONFIG MANAGEMENT =====
+
+/**
+ * Loads and validates the Rindexer configuration from rindexer.yaml.
+ */
+export async function loadRindexerConfig(): Promise<{
+	projectName: string;
+	config: RindexerConfig;
+}> {
+	try {
+		const configContent = await fs.readFile(
+			APP_CONSTANTS.CONFIG_FILE_PATH,
+			"utf8",
+		);
+		const config = parseRindexerConfig(configContent);
+
+		return { projectName: config.name, config };
+	} catch (error) {
+		if (error instanceof Error) {
+			throw error;
+		}
+		throw new Error("Failed to load or parse rindexer.yaml configuration file");
+	}
+}
+
+/**
+ * Parses and validates the text of rindexer.yaml.
+ */
+export function parseRindexerConfig(
+	configContent: string,
+): RindexerConfig & { name: string } {
+	const config = yaml.load(configContent) as RindexerConfig;
+
+	if (!config.name) {
+		throw new Error("Project name is missing from rindexer.yaml configuration");
+	}
+
+	// PostgreSQL has a 63-character limit for database names
+	if (config.name.length > 63) {
+		throw new Error("Project name must be 63 characters or less");
+	}
+
+	if (!config.storage?.postgres?.enabled) {
+		throw new Error(
+			"PostgreSQL must be enabled in rindexer.yaml configuration",
+		);
+	}
+	// Validate that the RPC endpoints of networks used by contracts are configured
+	// in environment variables. Unused networks may be left without one.
+	if (config.networks) {
+		const missingEndpoints: string[] = [];
+		const usedNetworks = new Set(
+			(config.contracts ?? []).flatMap((contract) =>
+				contract.details.map((detail) => detail.network),
+			),
+		);
+
+		for (const network of config.networks) {
+			const envVarName = getMissingRpcEnvVar(network);
+			if (envVarName && usedNetworks.has(network.name)) {
+				missingEndpoints.push(`${envVarName} (for network: ${network.name})`);
+			}
+		}
+
+		if (missingEndpoints.length > 0) {
+			throw new Error(
+				`Missing environment variables for network RPC endpoints:\n${missingEndpoints.map(endpoint => `  - ${endpoint}`).join('\n')}\n\nPlease add these to your .env file.`
+			);
+		}
+	}
+
+	return config as RindexerConfig & { name: string };
+}
+
+function isSameDeployment(
+	a: RindexerContract["details"][number],
+	b: RindexerContract["details"][number],
+): boolean {
+	return (
+		a.network === b.network &&
+		a.address.toLowerCase() === b.address.toLowerCase()
+	);
+}
+
+/**
+ * Adds deployments to a contract's details, replacing the ones on the same network
+ * and address.
+ */
+export function mergeContractDetails(
+	details: RindexerContract["details"],
+	added: RindexerContract["details"],
+): RindexerContract["details"] {
+	const merged = [...details];
+	for (const detail of added) {
+		const index = merged.findIndex((existing) =>
+			isSameDeployment(existing, detail),
+		);
+		if (index === -1) {
+			merged.push(detail);
+		} else {
+			merged[index] = detail;
+		}
+	}
+	return merged;
+}
+
+function matchesDeployment(
+	detail: RindexerContract["details"][number],
+	selector: DeploymentSelector,
+): boolean {
+	return (
+		(selector.network === undefined || detail.network === selector.network) &&
+		(selector.address === undefined ||
+			detail.address.toLowerCase() === selector.address.toLowerCase())
+	);
+}
+
+function describeDeployment(selector: DeploymentSelector): string {
+	return [
+		selector.network !== undefined && `on network "${selector.network}"`,
+		selector.address !== undefined && `at address ${selector.address}`,
+	]
+		.filter(Boolean)
+		.join(" ");
+}
+
+/**
+ * Updates the Rindexer configuration file with new contracts.
+ * New contracts are merged into existing ones with the same name, deployment by deployment.
+ * Contracts whose names appear in `removedContractNames` are dropped from the config,
+ * and the deployments selected by `removedDeployments` are dropped from their contracts.
+ */
+export async function updateRindexerConfig(
+	newContracts: RindexerContract[],
+	removedContractNames: string[] = [],
+	removedDeployments: RemovedContract[] = [],
+): Promise<void> {
+	const { config } = await loadRindexerConfig();
+
+	if (!config.contracts) {
+		config.contracts = [];
+	}
+
+	// Use Map for efficient O(1) lookups when merging contracts
+	const existingContractsMap = new Map<string, RindexerContract>();
+	for (const contract of config.contracts) {
+		existingContractsMap.set(contract.name, contract);
+	}
+
+	// Deployments on other networks or addresses are kept
+	for (const newContract of newContracts) {
+		const existing = existingContractsMap.get(newContract.name);
+		existingContractsMap.set(
+			newContract.name,
+			existing
+				? {
+						...newContract,
+						details: mergeContractDetails(
+							existing.details,
+							newContract.details,
+						),
+					}
+				: newContract,
+		);
+	}
+
+	for (const removedName of removedContractNames) {
+		existingContractsMap.delete(removedName);
+	}
+
+	for (const { indexerId, deployment } of removedDeployments) {
+		const existing = existingContractsMap.get(indexerId);
+		if (existing && deployment) {
+			existing.details = existing.details.filter(
+				(detail) => !matchesDeployment(detail, deployment),
+			);
+		}
+	}
+
+	config.contracts = Array.from(existingContractsMap.values());
+
+	await writeRindexerConfig(config);
+}
+
+/**
+ * Writes rindexer.yaml. Must be called from withConfigLock.
+ */
+export async function writeRindexerConfig(config: RindexerConfig): Promise<void> {
+	await writeRindexerConfigFile(
+		yaml.dump(config, { indent: 2, lineWidth: -1 }),
+	);
+}
+
+/**
+ * Writes the text of rindexer.yaml as is. Must be called from withConfigLock.
+ */
+export async function writeRindexerConfigFile(content: string): Promise<void> {
+	// Write to a temporary file and rename it so readers never see a partial file
+	const tempPath = `${APP_CONSTANTS.CONFIG_FILE_PATH}.tmp`;
+	await fs.writeFile(tempPath, content, "utf8");
+	await fs.rename(tempPath, APP_CONSTANTS.CONFIG_FILE_PATH);
+}
+
+/**
+ * Builds the Postgres schema name rindexer uses for a contract: {project_name}_{indexer_id}
+ */
+export async function getSchemaName(indexerId: string): Promise<string> {
+	const projectName = await getProjectName();
+	return `${toSnakeCase(projectName)}_${indexerId}`;
+}
+
+/**
+ * Returns the networks a contract is deployed on, from rindexer.yaml.
+ */
+export async function getContractNetworks(indexerId: string): Promise<string[]> {
+	const { config } = await loadRindexerConfig();
+	const contract = config.contracts?.find((c) => c.name === indexerId);
+	return Array.from(
+		new Set(contract?.details.map((detail) => detail.network) ?? []),
+	);
+}
+
+/**
+ * Returns the environment variable a network's ${VAR_NAME} RPC reference points to
+ * when that variable is not set, or null when the RPC is usable.
+ */
+export function getMissingRpcEnvVar(network: RindexerNetwork): string | null {
+	const envVarMatch = network.rpc?.match(/^\$\{([^}]+)\}$/);
+	return envVarMatch && !process.env[envVarMatch[1]] ? envVarMatch[1] : null;
+}
+
+/**
+ * Resolves the RPC URL of a configured network, expanding ${VAR_NAME} references
+ * from the environment.
+ */
+export async function getNetworkRpcUrl(networkName: string): Promise<string> {
+	const { config } = await loadRindexerConfig();
+	const network = config.networks?.find((n) => n.name === networkName);
+	if (!network?.rpc) {
+		throw new RpcError(`No RPC configured for network "${networkName}"`);
+	}
+
+	const envVarMatch = network.rpc.match(/^\$\{([^}]+)\}$/);
+	const rpcUrl = envVarMatch ? process.env[envVarMatch[1]] : network.rpc;
+	if (!rpcUrl) {
+		throw new RpcError(
+			`Environment variable ${envVarMatch?.[1]} is not set for network "${networkName}"`,
+		);
+	}
+	return rpcUrl;
+}
+
+// ===== RPC =====
+
+interface JsonRpcResponse<T> {
+	id: number;
+	result?: T;
+	error?: { message: string };
+}
+
+async function postJsonRpc(rpcUrl: string, payload: unknown): Promise<any> {
+	const response = await fetch(rpcUrl, {
+		method: "POST",
+		headers: { "Content-Type": "application/json" },
+		body: JSON.stringify(payload),
+		signal: AbortSignal.timeout(APP_CONSTANTS.RPC_TIMEOUT_MS),
+	});
+
+	if (!response.ok) {
+		throw new RpcError(`RPC request failed with status ${response.status}`);
+	}
+	return response.json();
+}
+
+export async function jsonRpcRequest<T = any>(
+	rpcUrl: string,
+	method: string,
+	params: unknown[] = [],
+): Promise<T> {
+	const body: JsonRpcResponse<T> = await postJsonRpc(rpcUrl, {
+		jsonrpc: "2.0",
+		id: 1,
+		method,
+		params,
+	});
+	if (body.error) {
+		throw new RpcError(`RPC call ${method} failed: ${body.error.message}`);
+	}
+	return body.result as T;
+}
+
+/**
+ * Returns the latest block number of a configured network.
+ */
+export async function getChainHead(networkName: string): Promise<bigint> {
+	const rpcUrl = await getNetworkRpcUrl(networkName);
+	return BigInt(await jsonRpcRequest<string>(rpcUrl, "eth_blockNumber"));
+}
+
+const cachedChainHeads = new Map<
+	string,
+	{ head: Promise<bigint>; fetchedAt: number }
+>();
+
+/**
+ * Returns the latest block number of a network, reusing one fetched less than
+ * APP_CONSTANTS.CHAIN_HEAD_CACHE_MS ago. Concurrent callers share the same request.
+ */
+export async function getCachedChainHead(networkName: string): Promise<bigint> {
+	const cached = cachedChainHeads.get(networkName);
+	if (
+		cached &&
+		Date.now() - cached.fetchedAt < APP_CONSTANTS.CHAIN_HEAD_CACHE_MS
+	) {
+		return cached.head;
+	}
+
+	const head = getChainHead(networkName);
+	cachedChainHeads.set(networkName, { head, fetchedAt: Date.now() });
+	// Failed requests are not cached
+	head.catch(() => {
+		if (cachedChainHeads.get(networkName)?.head === head) {
+			cachedChainHeads.delete(networkName);
+		}
+	});
+	return head;
+}
+
+/**
+ * Sends JSON-RPC calls as batches of APP_CONSTANTS.RPC_BATCH_SIZE and returns
+ * their results in request order.
+ */
+export async function jsonRpcBatch<T = any>(
+	rpcUrl: string,
+	calls: Array<{ method: string; params: unknown[] }>,
+): Promise<T[]> {
+	const results: T[] = [];
+
+	for (let i = 0; i < calls.length; i += APP_CONSTANTS.RPC_BATCH_SIZE) {
+		const chunk = calls.slice(i, i + APP_CONSTANTS.RPC_BATCH_SIZE);
+		const body: JsonRpcResponse<T>[] = await postJsonRpc(
+			rpcUrl,
+			chunk.map((call, index) => ({
+				jsonrpc: "2.0",
+				id: index,
+				method: call.method,
+				params: call.params,
+			})),
+		);
+		if (!Array.isArray(body)) {
+			throw new RpcError("RPC endpoint does not support batch requests");
+		}
+
+		// Batch responses may arrive in any order
+		const byId = new Map(body.map((item) => [item.id, item]));
+		for (let index = 0; index < chunk.length; index++) {
+			const item = byId.get(index);
+			if (!item || item.error) {
+				throw new RpcError(
+					`RPC call ${chunk[index].method} failed: ${item?.error?.message ?? "missing response"}`,
+				);
+			}
+			results.push(item.result as T);
+		}
+	}
+
+	return results;
+}
+
+// ===== VALIDATION =====
+
+export function validateBatchRequest(
+	body: Partial<AddContractsRequest | RemoveContractsRequest>,
+): string | null {
+	if (!body.contracts || !Array.isArray(body.contracts)) {
+		return "Missing or invalid 'contracts' array";
+	}
+	if (body.contracts.length === 0) {
+		return "Contracts array cannot be empty";
+	}
+	if (body.contracts.length > APP_CONSTANTS.MAX_CONTRACTS_PER_REQUEST) {
+		return `Maximum ${APP_CONSTANTS.MAX_CONTRACTS_PER_REQUEST} contracts allowed per batch`;
+	}
+	return null;
+}
+
+/**
+ * Finds the configured network of a contract request, given by name, chain ID or both.
+ */
+export function resolveContractNetwork(
+	contract: Pick<AddContractRequest, "network" | "chain_id">,
+	networks: RindexerNetwork[],
+): { network: RindexerNetwork } | { error: string } {
+	if (contract.network === undefined && contract.chain_id === undefined) {
+		return { error: "Either network or chain_id is required" };
+	}
+
+	if (contract.network !== undefined) {
+		if (typeof contract.network !== "string") {
+			return { error: "Network must be a string" };
+		}
+		const network = networks.find((n) => n.name === contract.network);
+		if (!network) {
+			return {
+				error: `Network "${contract.network}" is not configured. Add it with POST /networks first`,
+			};
+		}
+		if (
+			contract.chain_id !== undefined &&
+			contract.chain_id !== network.chain_id
+		) {
+			return {
+				error: `Chain ID ${contract.chain_id} does not match network "${network.name}", which has chain ID ${network.chain_id}`,
+			};
+		}
+		return { network };
+	}
+
+	if (!Number.isInteger(contract.chain_id)) {
+		return { error: "Chain ID must be an integer" };
+	}
+	const network = networks.find((n) => n.chain_id === contract.chain_id);
+	if (!network) {
+		return {
+			error: `No network is configured for chain ID ${contract.chain_id}. Add it with POST /networks first`,
+		};
+	}
+	return { network };
+}
+
+export function validateContract(
+	contract: AddContractRequest,
+	networks: RindexerNetwork[],
+): string | null {
+	if (!contract.name || typeof contract.name !== "string") {
+		return "Contract name is required and must be a string";
+	}
+
+	if (!contract.report_id || typeof contract.report_id !== "string") {
+		return "Report ID is required and must be a string";
+	}
+
+	if (!contract.address || typeof contract.address !== "string") {
+		return "Contract address is required and must be a string";
+	}
+
+	if (!isValidEthereumAddress(contract.address)) {
+		return "Invalid Ethereum address format";
+	}
+
+	const resolved = resolveContractNetwork(contract, networks);
+	if ("error" in resolved) {
+		return resolved.error;
+	}
+
+	const missingEnvVar = getMissingRpcEnvVar(resolved.network);
+	if (missingEnvVar) {
+		return `Environment variable ${missingEnvVar} is not set for network "${resolved.network.name}" (chain ID ${resolved.network.chain_id})`;
+	}
+
+	if (!contract.abi) {
+		return "Contract ABI is required";
+	}
+
+	try {
+		parseAbi(contract.abi);
+	} catch {
+		return "Invalid ABI format - must be valid JSON";
+	}
+
+	return null;
+}
+
+// ===== ABI VALIDATION =====
+
+const ABI_ITEM_TYPES = [
+	"function",
+	"event",
+	"constructor",
+	"fallback",
+	"receive",
+	"error",
+];
+const ABI_IDENTIFIER_PATTERN = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+// Array suffixes of a parameter type, e.g. "[]" and "[3]" in "uint256[][3]"
+const ABI_ARRAY_SUFFIX_PATTERN = /(\[\d*\])+$/;
+
+// Columns rindexer adds to every event table before and after the event parameters
+const EVENT_TABLE_LEADING_COLUMNS = ["rindexer_id", "contract_address"];
+const EVENT_TABLE_TRAILING_COLUMNS = [
+	"tx_hash",
+	"block_number",
+	"block_hash",
+	"network",
+	"tx_index",
+	"log_index",
+];
+
+function isSupportedElementaryType(type: string): boolean {
+	if (["address", "bool", "string", "bytes"].includes(type)) {
+		return true;
+	}
+	const bytesMatch = type.match(/^bytes(\d+)$/);
+	if (bytesMatch) {
+		const size = Number(bytesMatch[1]);
+		return size >= 1 && size <= 32;
+	}
+	const intMatch = type.match(/^u?int(\d*)$/);
+	if (intMatch) {
+		const bits = intMatch[1] === "" ? 256 : Number(intMatch[1]);
+		return bits >= 8 && bits <= 256 && bits % 8 === 0;
+	}
+	return false;
+}
+
+/**
+ * Checks a parameter type, recursing into tuple components and allowing arrays of any
+ * dimension. Problems are described with the parameter's path, e.g. "order.maker".
+ */
+function validateAbiParameter(
+	param: AbiParameter,
+	label: string,
+	problems: string[],
+): void {
+	if (typeof param.type !== "string") {
+		problems.push(`${label} has no type`);
+		return;
+	}
+
+	const suffix = param.type.match(ABI_ARRAY_SUFFIX_PATTERN)?.[0] ?? "";
+	const baseType = param.type.slice(0, param.type.length - suffix.length);
+	if (suffix.includes("[0]")) {
+		problems.push(`${label} has a zero-length array type "${param.type}"`);
+	}
+
+	if (baseType === "tuple") {
+		if (!Array.isArray(param.components) || param.components.length === 0) {
+			problems.push(`${label} is a tuple without components`);
+			return;
+		}
+		param.components.forEach((component, index) =>
+			validateAbiParameter(
+				component,
+				`${label}.${component?.name || index}`,
+				problems,
+			),
+		);
+	} else if (!isSupportedElementaryType(baseType)) {
+		problems.push(`${label} has an unsupported type "${param.type}"`);
+	}
+}
+
+/**
+ * Returns the canonical type of a parameter as used in event signatures.
+ */
+function getCanonicalType(param: AbiParameter): string {
+	if (!param.type?.startsWith("tuple")) {
+		return param.type;
+	}
+	const components = (param.components ?? []).map(getCanonicalType).join(",");
+	return `(${components})${param.type.slice("tuple".length)}`;
+}
+
+/**
+ * Returns the columns of an event parameter. Tuples that are not arrays are flattened
+ * into one column per component, prefixed with the parameter name.
+ */
+function getParameterColumns(
+	param: AbiParameter,
+	indexed: boolean,
+	parent?: AbiEventColumn,
+): AbiEventColumn[] {
+	const name = toSnakeCase(param.name ?? "");
+	const column: AbiEventColumn = {
+		name: parent ? `${parent.name}_${name}` : name,
+		parameter: parent ? `${parent.parameter}.${param.name}` : param.name,
+		solidity_type: param.type,
+		indexed,
+	};
+	if (param.type === "tuple" && Array.isArray(param.components)) {
+		return param.components.flatMap((component) =>
+			getParameterColumns(component, indexed, column),
+		);
+	}
+	return [column];
+}
+
+/**
+ * Returns the signature of an event, e.g. "Transfer(address,address,uint256)".
+ */
+export function getEventSignature(event: AbiItem): string {
+	const inputs = Array.isArray(event.inputs) ? event.inputs : [];
+	return `${event.name}(${inputs.map(getCanonicalType).join(",")})`;
+}
+
+/**
+ * Returns the columns of the table rindexer creates for an event, in table order.
+ */
+export function getEventColumns(event: AbiItem): AbiEventColumn[] {
+	const metadataColumn = (name: string): AbiEventColumn => ({
+		name,
+		parameter: null,
+		solidity_type: null,
+		indexed: null,
+	});
+	const inputs = Array.isArray(event.inputs) ? event.inputs : [];
+	return [
+		...EVENT_TABLE_LEADING_COLUMNS.map(metadataColumn),
+		...inputs.flatMap((input) =>
+			input ? getParameterColumns(input, input.indexed === true) : [],
+		),
+		...EVENT_TABLE_TRAILING_COLUMNS.map(metadataColumn),
+	];
+}
+
+/**
+ * Checks that an ABI can be indexed: it has at least one event, every event input has a
+ * supported Solidity type, a name and a valid indexed flag, and every event maps to its
+ * own table. rindexer creates one table per event name, so overloaded events, and
+ * names that only differ in case, are rejected.
+ * Returns the problems found, or an empty array for a valid ABI.
+ */
+export function validateAbi(abi: ContractAbi): string[] {
+	if (!Array.isArray(abi)) {
+		return ["ABI must be a JSON array"];
+	}
+
+	const problems: string[] = [];
+	const events: AbiItem[] = [];
+	abi.forEach((item, index) => {
+		if (
+			!item ||
+			typeof item !== "object" ||
+			!ABI_ITEM_TYPES.includes(item.type)
+		) {
+			problems.push(`ABI item ${index} has an unknown type "${item?.type}"`);
+		} else if (item.type === "event") {
+			events.push(item);
+		}
+	});
+	if (events.length === 0) {
+		problems.push("ABI has no events to index");
+	}
+
+	// Event signatures by table name
+	const signatures = new Map<string, Set<string>>();
+	for (const event of events) {
+		if (
+			typeof event.name !== "string" ||
+			!ABI_IDENTIFIER_PATTERN.test(event.name)
+		) {
+			problems.push(`Event "${event.name ?? ""}" has an invalid name`);
+			continue;
+		}
+		const label = `Event ${event.name}`;
+
+		const inputs = event.inputs ?? [];
+		if (!Array.isArray(inputs)) {
+			problems.push(`${label} has invalid inputs`);
+			continue;
+		}
+
+		let indexedCount = 0;
+		const columns = new Set([
+			...EVENT_TABLE_LEADING_COLUMNS,
+			...EVENT_TABLE_TRAILING_COLUMNS,
+		]);
+		inputs.forEach((input, index) => {
+			if (!input || typeof input !== "object") {
+				problems.push(`${label} input ${index} is not an object`);
+				return;
+			}
+			const inputLabel = `${label} input ${input.name || index}`;
+			validateAbiParameter(input, inputLabel, problems);
+
+			if (input.indexed !== undefined && typeof input.indexed !== "boolean") {
+				problems.push(`${inputLabel} has a non-boolean indexed flag`);
+			} else if (input.indexed) {
+				indexedCount++;
+			}
+
+			if (typeof input.name !== "string" || input.name === "") {
+				problems.push(`${inputLabel} has no name to use as a column name`);
+				return;
+			}
+			for (const { name: column } of getParameterColumns(input, false)) {
+				if (columns.has(column)) {
+					problems.push(
+						`${inputLabel} maps to column "${column}", which is already used`,
+					);
+				}
+				columns.add(column);
+			}
+		});
+
+		// Anonymous events have no signature topic, leaving room for a fourth indexed input
+		const maxIndexed = event.anonymous ? 4 : 3;
+		if (indexedCount > maxIndexed) {
+			problems.push(
+				`${label} has ${indexedCount} indexed inputs, at most ${maxIndexed} are allowed`,
+			);
+		}
+
+		const tableName = toSnakeCase(event.name);
+		const tableSignatures = signatures.get(tableName) ?? new Set();
+		tableSignatures.add(getEventSignature(event));
+		signatures.set(tableName, tableSignatures);
+	}
+
+	for (const [tableName, tableSignatures] of signatures) {
+		if (tableSignatures.size > 1) {
+			problems.push(
+				`Events ${Array.from(tableSignatures).join(", ")} would share table "${tableName}"; rename or remove all but one of them`,
+			);
+		}
+	}
+
+	return problems;
+}
+
+/**
+ * Lists the event tables rindexer creates for an ABI, one per event name, with the
+ * columns each of them gets.
+ */
+export function describeEventTables(abi: ContractAbi): EventTablePreview[] {
+	const tables = new Map<string, EventTablePreview>();
+	for (const item of Array.isArray(abi) ? abi : []) {
+		if (item?.type !== "event" || typeof item.name !== "string") {
+			continue;
+		}
+		const name = toSnakeCase(item.name);
+		if (tables.has(name)) {
+			continue;
+		}
+		tables.set(name, {
+			name,
+			event: item.name,
+			columns: getEventColumns(item).map((column) => column.name),
+		});
+	}
+	return Array.from(tables.values());
+}
+
+// ===== CONTRACT PROCESSING =====
+
+export interface ProcessedContract {
+	contract: RindexerContract;
+	abiFile: { filename: string; content: string };
+	indexerId: string;
+	isNewContract: boolean;
+}
+
+/**
+ * Tells whether a processed contract adds a contract, or adds or updates a deployment
+ * of a contract already in the configuration.
+ */
+function getContractAction(
+	processed: ProcessedContract,
+	config: RindexerConfig,
+): ContractAction {
+	if (processed.isNewContract) {
+		return "added";
+	}
+	const [deployment] = processed.contract.details;
+	const existingDetails =
+		config.contracts?.find((c) => c.name === processed.indexerId)?.details ??
+		[];
+	return existingDetails.some((detail) => isSameDeployment(detail, deployment))
+		? "deployment_updated"
+		: "deployment_added";
+}
+
+/**
+ * Processes a contract request into Rindexer configuration format.
+ * Creates or retrieves indexer ID and handles database mapping.
+ * When dryRunIds is given nothing is written: new contracts get an indexer ID kept in
+ * the map instead of a mapping row.
+ */
+export async function processContract(
+	contractRequest: AddContractRequest & { network: string },
+	client: Client,
+	dryRunIds?: Map<string, string>,
+): Promise<ProcessedContract> {
+	const abi = parseAbi(contractRequest.abi);
+
+	// Create composite key for unique contract identification
+	const nameUuid = `${contractRequest.name}_${contractRequest.report_id}`;
+	console.log(`Processing contract: ${nameUuid}`);
+
+	// Check if contract already exists in mapping table. The composite key of another
+	// name and report can be the same, e.g. "a_b" in report "c" and "a" in report "b_c"
+	const existingResult = await client.query<{
+		indexer_id: string;
+		contract_name: string;
+		report_id: string;
+	}>(
+		`SELECT indexer_id, contract_name, report_id
+         FROM name_uuid_indexer_id_mapping
+         WHERE name_uuid = $1 OR (contract_name = $2 AND report_id = $3)`,
+		[nameUuid, contractRequest.name, contractRequest.report_id],
+	);
+	const existing = existingResult.rows.find(
+		(row) =>
+			row.contract_name === contractRequest.name &&
+			row.report_id === contractRequest.report_id,
+	);
+	if (!existing && existingResult.rows.length > 0) {
+		const [conflict] = existingResult.rows;
+		throw new Error(
+			`Contract "${contractRequest.name}" of report "${contractRequest.report_id}" conflicts with contract "${conflict.contract_name}" of report "${conflict.report_id}"`,
+		);
+	}
+
+	let indexerId: string;
+	let isNewContract: boolean;
+
+	if (existing) {
+		indexerId = existing.indexer_id;
+		isNewContract = false;
+	} else if (dryRunIds?.has(nameUuid)) {
+		indexerId = dryRunIds.get(nameUuid)!;
+		isNewContract = false;
+	} else if (dryRunIds) {
+		indexerId = generateNanoid();
+		dryRunIds.set(nameUuid, indexerId);
+		isNewContract = true;
+	} else {
+		indexerId = generateNanoid();
+		await client.query(
+			`INSERT INTO name_uuid_indexer_id_mapping (name_uuid, indexer_id, contract_name, report_id)
+             VALUES ($1, $2, $3, $4)`,
+			[nameUuid, indexerId, contractRequest.name, contractRequest.report_id],
+		);
+		isNewContract = true;
+	}
+
+	const abiFilename = `${indexerId}.abi.json`;
 
 	const contract: RindexerContract = {
 		name: indexerId,
@@ -384,7 +1802,7 @@ export async function processContract(
 				start_block: contractRequest.start_block,
 			},
 		],
-		abi: `./${path.relative("/workspace", path.join(APP_CONSTANTS.ABIS_DIR, abiFilename))}`,
+		abi: `./${path.relative(WORKSPACE_DIR, path.join(APP_CONSTANTS.ABIS_DIR, abiFilename))}`,
 	};
 
 	return {
@@ -409,7 +1827,19 @@ export function prepareContractBatch(processedContracts: ProcessedContract[]): {
 	const abiFilesMap = new Map<string, string>();
 
 	for (const processed of processedContracts) {
-		contractsMap.set(processed.contract.name, processed.contract);
+		const existing = contractsMap.get(processed.contract.name);
+		contractsMap.set(
+			processed.contract.name,
+			existing
+				? {
+						...processed.contract,
+						details: mergeContractDetails(
+							existing.details,
+							processed.contract.details,
+						),
+					}
+				: processed.contract,
+		);
 		abiFilesMap.set(processed.abiFile.filename, processed.abiFile.content);
 	}
 
@@ -433,6 +1863,30 @@ export async function writeAbiFiles(
 	}
 }
 
+/**
+ * Reads the ABI referenced by a contract entry in rindexer.yaml.
+ * ABI paths are relative to the directory holding the configuration file.
+ */
+export async function readContractAbi(
+	contract: RindexerContract,
+): Promise<ContractAbi | null> {
+	const abiPath = path.resolve(
+		path.dirname(APP_CONSTANTS.CONFIG_FILE_PATH),
+		contract.abi,
+	);
+	try {
+		return parseAbi(await fs.readFile(abiPath, "utf8"));
+	} catch {
+		return null;
+	}
+}
+
+export async function deleteAbiFiles(filenames: string[]): Promise<void> {
+	for (const filename of filenames) {
+		await fs.remove(path.join(APP_CONSTANTS.ABIS_DIR, filename));
+	}
+}
+
 /**
  * Processes a batch of contract requests with validation and error handling.
  * Returns both API response results and successfully processed contracts.
@@ -440,17 +1894,19 @@ export async function writeAbiFiles(
 export async function processContractBatch(
 	contracts: AddContractRequest[],
 	client: Client,
+	dryRunIds?: Map<string, string>,
 ): Promise<{
-	results: import("./types.js").BatchApiResponse["results"];
+	results: BatchApiResponse["results"];
 	processedContracts: ProcessedContract[];
 }> {
-	const results: import("./types.js").BatchApiResponse["results"] = [];
+	const results: BatchApiResponse["results"] = [];
 	const processedContracts: ProcessedContract[] = [];
+	const { config } = await loadRindexerConfig();
 
 	for (const contract of contracts) {
 		const nameUuid = `${contract.name}_${contract.report_id}`;
 
-		const validationError = validateContract(contract);
+		const validationError = validateContract(contract, config.networks ?? []);
 		if (validationError) {
 			results.push({
 				contract: nameUuid,
@@ -460,15 +1916,48 @@ export async function processContractBatch(
 			continue;
 		}
 
+		const abi = parseAbi(contract.abi);
+		const eventTables = describeEventTables(abi);
+		const abiProblems = validateAbi(abi);
+		if (abiProblems.length > 0) {
+			results.push({
+				contract: nameUuid,
+				success: false,
+				error: `Invalid ABI: ${abiProblems.join("; ")}`,
+				abi_problems: abiProblems,
+				event_tables: eventTables,
+			});
+			continue;
+		}
+
+		// Validation guarantees that the network resolves
+		const { network } = resolveContractNetwork(
+			contract,
+			config.networks ?? [],
+		) as { network: RindexerNetwork };
+
 		try {
-			const processed = await processContract(contract, client);
+			const processed = await processContract(
+				{ ...contract, network: network.name },
+				client,
+				dryRunIds,
+			);
 			processedContracts.push(processed);
 
-			const action = processed.isNewContract ? "added" : "replaced";
+			const action = getContractAction(processed, config);
+			const deployment = describeDeployment(processed.contract.details[0]);
 			results.push({
 				contract: nameUuid,
 				success: true,
-				message: `Contract "${nameUuid}" ${action} successfully`,
+				message:
+					action === "added"
+						? `Contract "${nameUuid}" added successfully`
+						: `Deployment of "${nameUuid}" ${deployment} ${
+								action === "deployment_updated" ? "updated" : "added"
+							} successfully`,
+				indexer_id: processed.indexerId,
+				action,
+				event_tables: eventTables,
 			});
 		} catch (error) {
 			results.push({
@@ -481,3 +1970,445 @@ export async function processContractBatch(
 
 	return { results, processedContracts };
 }
+
+/**
+ * Adds a batch of contracts: validates and maps each one, updates the configuration,
+ * writes the ABI files and restarts the indexer. onRestart is called with the
+ * per-contract results right before the restart.
+ */
+export async function applyContractBatch(
+	contracts: AddContractRequest[],
+	client: Client,
+	onRestart?: (results: BatchApiResponse["results"]) => Promise<void>,
+): Promise<BatchApiResponse> {
+	// Process and validate each contract individually
+	const { results, processedContracts } = await processContractBatch(
+		contracts,
+		client,
+	);
+
+	if (processedContracts.length === 0) {
+		return { success: false, results, error: "No valid contracts to add." };
+	}
+
+	// Prepare configuration data (handles deduplication of contracts and ABIs)
+	const { contracts: configContracts, abiFiles } =
+		prepareContractBatch(processedContracts);
+
+	// Apply changes: update config file and write ABI files
+	await withConfigChange(
+		client,
+		{
+			source: "POST /add-contracts",
+			// ABIs are versioned with the files, so the request is stored without them
+			request: { contracts: contracts.map(({ abi, ...contract }) => contract) },
+		},
+		async () => {
+			await updateRindexerConfig(configContracts);
+			await writeAbiFiles(abiFiles);
+		},
+	);
+
+	// Restart the indexer to pick up new configuration
+	await onRestart?.(results);
+	await requestRindexerRestart();
+
+	return { success: true, results };
+}
+
+/**
+ * Marks which of a contract's event tables already exist in its schema.
+ */
+async function markExistingEventTables(
+	client: Client,
+	schemaName: string,
+	tables: EventTablePreview[],
+): Promise<EventTablePreview[]> {
+	const existingResult = await client.query<{ table_name: string }>(
+		"SELECT table_name FROM information_schema.tables WHERE table_schema = $1",
+		[schemaName],
+	);
+	const existingTables = new Set(
+		existingResult.rows.map((row) => row.table_name),
+	);
+
+	return tables.map((table) => ({
+		...table,
+		exists: existingTables.has(table.name),
+	}));
+}
+
+/**
+ * Runs a batch through the same validation and processing as applyContractBatch
+ * without writing the mapping table, rindexer.yaml or ABI files, and describes the
+ * configuration entry and event tables each contract would get.
+ * New contracts are shown with an indexer ID that is not reserved.
+ */
+export async function validateContractBatch(
+	contracts: AddContractRequest[],
+	client: Client,
+): Promise<ContractValidationResponse> {
+	const { results, processedContracts } = await processContractBatch(
+		contracts,
+		client,
+		new Map(),
+	);
+
+	// Merge the batch into the current configuration as updateRindexerConfig would
+	const { config } = await loadRindexerConfig();
+	const plannedContracts = new Map<string, RindexerContract>();
+	for (const contract of prepareContractBatch(processedContracts).contracts) {
+		const existing = config.contracts?.find((c) => c.name === contract.name);
+		plannedContracts.set(
+			contract.name,
+			existing
+				? {
+						...contract,
+						details: mergeContractDetails(existing.details, contract.details),
+					}
+				: contract,
+		);
+	}
+
+	// Successful results are in the same order as the processed contracts
+	const previews: ContractValidationResponse["results"] = [];
+	let next = 0;
+	for (const result of results) {
+		if (!result.success) {
+			previews.push(result);
+			continue;
+		}
+
+		const processed = processedContracts[next++];
+		const schemaName = await getSchemaName(processed.indexerId);
+		previews.push({
+			...result,
+			message: `Contract "${result.contract}" is valid`,
+			rindexer_contract: plannedContracts.get(processed.indexerId),
+			schema_name: schemaName,
+			event_tables: await markExistingEventTables(
+				client,
+				schemaName,
+				result.event_tables ?? [],
+			),
+		});
+	}
+
+	return {
+		success: results.every((result) => result.success),
+		results: previews,
+	};
+}
+
+// ===== CONTRACT REMOVAL =====
+
+export interface DeploymentSelector {
+	network?: string;
+	address?: string;
+}
+
+export interface RemovedContract {
+	nameUuid: string;
+	indexerId: string;
+	// Set when only some of the contract's deployments are removed
+	deployment?: DeploymentSelector;
+}
+
+/**
+ * Resolves a batch of removal requests to their indexer IDs.
+ * Contracts without a mapping row, and deployment removals matching no deployment,
+ * are reported as failures and skipped. Removing every deployment of a contract
+ * removes the whole contract.
+ */
+export async function resolveContractRemovalBatch(
+	contracts: RemoveContractRequest[],
+	client: Client,
+): Promise<{
+	results: BatchApiResponse["results"];
+	removedContracts: RemovedContract[];
+}> {
+	const results: BatchApiResponse["results"] = [];
+	const removedContracts: RemovedContract[] = [];
+	const { config } = await loadRindexerConfig();
+
+	for (const contract of contracts) {
+		const nameUuid = `${contract.contract_name}_${contract.report_id}`;
+
+		if (!contract.contract_name || !contract.report_id) {
+			results.push({
+				contract: nameUuid,
+				success: false,
+				error: "Contract name and report ID are required",
+			});
+			continue;
+		}
+
+		const mappingResult = await client.query<{ indexer_id: string }>(
+			"SELECT indexer_id FROM name_uuid_indexer_id_mapping WHERE contract_name = $1 AND report_id = $2",
+			[contract.contract_name, contract.report_id],
+		);
+
+		if (mappingResult.rows.length === 0) {
+			results.push({
+				contract: nameUuid,
+				success: false,
+				error: `Contract "${nameUuid}" not found`,
+			});
+			continue;
+		}
+
+		const indexerId = mappingResult.rows[0].indexer_id;
+
+		if (contract.network !== undefined || contract.address !== undefined) {
+			const deployment: DeploymentSelector = {
+				network: contract.network,
+				address: contract.address,
+			};
+			const details =
+				config.contracts?.find((c) => c.name === indexerId)?.details ?? [];
+			const matching = details.filter((detail) =>
+				matchesDeployment(detail, deployment),
+			);
+
+			if (matching.length === 0) {
+				results.push({
+					contract: nameUuid,
+					success: false,
+					error: `Contract "${nameUuid}" has no deployment ${describeDeployment(deployment)}`,
+				});
+				continue;
+			}
+
+			if (matching.length < details.length) {
+				removedContracts.push({ nameUuid, indexerId, deployment });
+				results.push({
+					contract: nameUuid,
+					success: true,
+					message: `Deployment of "${nameUuid}" ${describeDeployment(deployment)} removed successfully`,
+				});
+				continue;
+			}
+		}
+
+		removedContracts.push({ nameUuid, indexerId });
+		results.push({
+			contract: nameUuid,
+			success: true,
+			message: `Contract "${nameUuid}" removed successfully`,
+		});
+	}
+
+	return { results, removedContracts };
+}
+
+/**
+ * Deletes the indexed events of a removed deployment from every event table of its contract.
+ */
+async function deleteDeploymentEvents(
+	client: Client,
+	indexerId: string,
+	deployment: DeploymentSelector,
+): Promise<void> {
+	const schemaName = await getSchemaName(indexerId);
+	const params: unknown[] = [];
+	const conditions: string[] = [];
+	const columns: string[] = [];
+
+	if (deployment.network !== undefined) {
+		params.push(deployment.network);
+		conditions.push(`network = $${params.length}`);
+		columns.push("network");
+	}
+	if (deployment.address !== undefined) {
+		params.push(deployment.address.toLowerCase());
+		conditions.push(`lower(contract_address) = $${params.length}`);
+		columns.push("contract_address");
+	}
+
+	// Only tables with every column the deployment is selected by
+	const tables = await client.query<{ table_name: string }>(
+		`SELECT table_name
+         FROM information_schema.columns
+         WHERE table_schema = $1 AND column_name::text = ANY($2::text[])
+         GROUP BY table_name
+         HAVING COUNT(*) = cardinality($2::text[])`,
+		[schemaName, columns],
+	);
+	for (const { table_name } of tables.rows) {
+		await client.query(
+			`DELETE FROM ${quoteIdentifier(schemaName)}.${quoteIdentifier(table_name)}
+             WHERE ${conditions.join(" AND ")}`,
+			params,
+		);
+	}
+}
+
+/**
+ * Deletes the mapping rows of removed contracts and optionally drops their indexed schemas.
+ * For removed deployments, the mapping is kept and only their events are deleted.
+ */
+export async function deleteContractData(
+	removedContracts: RemovedContract[],
+	client: Client,
+	dropSchema: boolean,
+): Promise<void> {
+	for (const { nameUuid, indexerId, deployment } of removedContracts) {
+		if (deployment) {
+			if (dropSchema) {
+				await deleteDeploymentEvents(client, indexerId, deployment);
+			}
+			continue;
+		}
+
+		await client.query(
+			"DELETE FROM name_uuid_indexer_id_mapping WHERE name_uuid = $1",
+			[nameUuid],
+		);
+
+		if (dropSchema) {
+			const schemaName = await getSchemaName(indexerId);
+			await client.query(
+				`DROP SCHEMA IF EXISTS ${quoteIdentifier(schemaName)} CASCADE`,
+			);
+		}
+	}
+}
+
+// ===== CONTRACT INVENTORY =====
+
+/**
+ * Adds the chain ID of each deployment's network, or null when the network is not configured.
+ */
+export function withChainIds(
+	details: RindexerContract["details"],
+	networks: RindexerNetwork[],
+): ContractDeployment[] {
+	return details.map((detail) => ({
+		...detail,
+		chain_id: networks.find((n) => n.name === detail.network)?.chain_id ?? null,
+	}));
+}
+
+function matchesDetailFilters(
+	details: RindexerContract["details"],
+	filters: ContractInventoryFilters,
+): boolean {
+	if (!filters.network && !filters.address) {
+		return true;
+	}
+	return details.some(
+		(detail) =>
+			(!filters.network || detail.network === filters.network) &&
+			(!filters.address ||
+				detail.address.toLowerCase() === filters.address.toLowerCase()),
+	);
+}
+
+/**
+ * Lists every registered contract by joining the mapping table with the contracts
+ * section of rindexer.yaml, and reports entries that exist on only one side.
+ */
+export async function listContractInventory(
+	client: Client,
+	filters: ContractInventoryFilters,
+): Promise<ContractInventoryResponse> {
+	const { config } = await loadRindexerConfig();
+	const configContracts = new Map<string, RindexerContract>();
+	for (const contract of config.contracts ?? []) {
+		configContracts.set(contract.name, contract);
+	}
+
+	const mappingResult = await client.query<{
+		contract_name: string;
+		report_id: string;
+		indexer_id: string;
+	}>(
+		"SELECT contract_name, report_id, indexer_id FROM name_uuid_indexer_id_mapping ORDER BY name_uuid",
+	);
+
+	const mappedIndexerIds = new Set(
+		mappingResult.rows.map((row) => row.indexer_id),
+	);
+
+	// Count event tables per schema in a single query
+	const schemaNames = new Map<string, string>();
+	for (const indexerId of mappedIndexerIds) {
+		schemaNames.set(await getSchemaName(indexerId), indexerId);
+	}
+	const tablesResult = await client.query<{
+		table_schema: string;
+		table_count: string;
+	}>(
+		`SELECT table_schema, COUNT(*) AS table_count
+         FROM information_schema.tables
+         WHERE table_schema = ANY($1)
+         GROUP BY table_schema`,
+		[Array.from(schemaNames.keys())],
+	);
+	const indexerIdsWithTables = new Set(
+		tablesResult.rows
+			.filter((row) => Number(row.table_count) > 0)
+			.map((row) => schemaNames.get(row.table_schema)),
+	);
+
+	const response: ContractInventoryResponse = {
+		contracts: [],
+		drift: { missing_config: [], missing_mapping: [] },
+	};
+
+	for (const row of mappingResult.rows) {
+		if (filters.report_id && row.report_id !== filters.report_id) {
+			continue;
+		}
+
+		const { contract_name, report_id } = row;
+		const configContract = configContracts.get(row.indexer_id);
+		const details = configContract?.details ?? [];
+
+		if (!matchesDetailFilters(details, filters)) {
+			continue;
+		}
+
+		let abiEventCount: number | null = null;
+		if (configContract) {
+			const abi = await readContractAbi(configContract);
+			abiEventCount = abi
+				? abi.filter((item) => item.type === "event").length
+				: null;
+		} else {
+			response.drift.missing_config.push({
+				contract_name,
+				report_id,
+				indexer_id: row.indexer_id,
+			});
+		}
+
+		const entry: ContractInventoryEntry = {
+			contract_name,
+			report_id,
+			indexer_id: row.indexer_id,
+			details: withChainIds(details, config.networks ?? []),
+			abi_event_count: abiEventCount,
+			has_tables: indexerIdsWithTables.has(row.indexer_id),
+			in_config: configContract !== undefined,
+		};
+		response.contracts.push(entry);
+	}
+
+	// Config entries cannot be attributed to a report without a mapping row
+	if (!filters.report_id) {
+		for (const contract of configContracts.values()) {
+			if (
+				!mappedIndexerIds.has(contract.name) &&
+				matchesDetailFilters(contract.details, filters)
+			) {
+				response.drift.missing_mapping.push({
+					indexer_id: contract.name,
+					details: withChainIds(contract.details, config.networks ?? []),
+				});
+			}
+		}
+	}
+
+	return response;
+}
@@ -1,29 +1,144 @@
 import { Elysia, t } from "elysia";
 import { cors } from "@elysiajs/cors";
 import { swagger } from '@elysiajs/swagger'
-import { type AddContractsRequest, type BatchApiResponse } from "./types.js";
+import {
+	type AddContractsRequest,
+	type BatchApiResponse,
+	type ContractValidationResponse,
+	type RemoveContractsRequest,
+	type StatsInterval,
+	type ExportFormat,
+	type CreateWebhookRequest,
+	type WebhookDeliveryStatus,
+	type CreateApiKeyRequest,
+	type ApiKeyContext,
+	type IndexerLogLevel,
+	type NetworkRequest,
+	type RetentionPolicyRequest,
+	NetworkError,
+	ConfigVersionError,
+	ApiKeyError,
+	AuthError,
+	EventQueryError,
+	RetentionError,
+	RpcError,
+	WebhookError,
+} from "./types.js";
 import {
 	APP_CONSTANTS,
 	loadRindexerConfig,
 	createDatabaseClient,
 	connectDatabase,
+	migrateDatabase,
 	initializeRindexerProcess,
+	requestRindexerRestart,
 	restartRindexerProcess,
+	startRindexerProcess,
+	stopRindexerProcess,
+	getRindexerStatus,
+	withConfigChange,
+	enqueueServerSentEvent,
+	closeServerSentEvents,
 	validateBatchRequest,
-	writeAbiFiles,
-	prepareContractBatch,
 	updateRindexerConfig,
-	processContractBatch,
 	getProjectName,
 	toSnakeCase,
 	getCorsOrigins,
+	resolveContractRemovalBatch,
+	deleteAbiFiles,
+	deleteContractData,
+	listContractInventory,
+	getSchemaName,
+	applyContractBatch,
+	validateContractBatch,
+	withChainIds,
 } from "./helpers.js";
+import {
+	eventTableExists,
+	listEventTables,
+	parseColumnFilters,
+	queryEventsPage,
+	summarizeEventTables,
+} from "./events.js";
+import {
+	EXPORT_CONTENT_TYPES,
+	createEventExportStream,
+	createZipExportStream,
+	prepareEventExport,
+} from "./export.js";
+import { getEventStats } from "./stats.js";
+import { getEventSchemaComponents, getEventSchemas } from "./schema.js";
+import { searchEvents, startSearchIndexMaintenance } from "./search.js";
+import { listReorgs, startReorgChecker } from "./reorgs.js";
+import {
+	archiveReport,
+	deleteRetentionPolicy,
+	listArchivedReports,
+	listRetentionPolicies,
+	listRetentionRuns,
+	runRetentionPolicies,
+	saveRetentionPolicy,
+	startRetentionPruner,
+	unarchiveReport,
+} from "./retention.js";
+import { getContractProgress } from "./progress.js";
+import { listNetworks, removeNetwork, saveNetwork } from "./networks.js";
+import {
+	diffConfigVersions,
+	listConfigVersions,
+	rollbackConfig,
+} from "./versions.js";
+import {
+	createWebhook,
+	deleteWebhook,
+	listWebhookDeliveries,
+	listWebhooks,
+	retryWebhookDelivery,
+	startWebhookWorker,
+} from "./webhooks.js";
+import {
+	type EventSubscription,
+	closeEventSubscription,
+	getSubscriptionCursor,
+	openEventSubscription,
+	parseSubscriptionTargets,
+} from "./subscriptions.js";
+import { parseTimeParam } from "./timestamps.js";
+import {
+	captureIndexerOutput,
+	followIndexerLogs,
+	queryIndexerLogs,
+	startIndexerLogPersistence,
+} from "./logs.js";
+import {
+	enqueueContractJob,
+	getContractJob,
+	startContractJobWorker,
+} from "./jobs.js";
+import {
+	authenticateRequest,
+	canAccessReport,
+	checkAccess,
+	createApiKey,
+	getAdminApiKey,
+	isPublicPath,
+	listApiKeys,
+	requireGraphqlQuery,
+	requireIndexers,
+	requireJob,
+	requireReports,
+	requireScope,
+	requireWebhook,
+	revokeApiKey,
+} from "./auth.js";
 
 /**
  * Rindexer API Server
  *
  * Provides REST endpoints for managing blockchain contract indexing and event querying.
  * Requires a valid rindexer.yaml configuration file to start.
+ * Every endpoint except the health check and docs requires an API key
+ * ("Authorization: Bearer <key>").
  */
 
 // Startup: Validate and load configuration
@@ -38,10 +153,20 @@ try {
 	process.exit(1);
 }
 
+// Startup: Require the bootstrap admin key used to manage API keys
+getAdminApiKey();
+
 // Startup: Establish database connection and initialize rindexer
 const client = createDatabaseClient();
 await connectDatabase(client);
-initializeRindexerProcess();
+await migrateDatabase(client);
+initializeRindexerProcess(captureIndexerOutput);
+startIndexerLogPersistence(client);
+startWebhookWorker(client);
+startContractJobWorker(client);
+startReorgChecker(client);
+startRetentionPruner();
+startSearchIndexMaintenance();
 
 const app = new Elysia().use(
 	cors({
@@ -50,7 +175,42 @@ const app = new Elysia().use(
 		allowedHeaders: ["Content-Type", "Authorization"],
 		credentials: true,
 	}),
-).use(swagger({
+)
+	// Resolve the API key of every request; route hooks check its scopes and reports
+	.derive(async ({ headers }) => ({
+		apiKey: await authenticateRequest(client, headers.authorization),
+	}))
+	.onBeforeHandle(({ apiKey, path, set }) => {
+		if (!apiKey && !isPublicPath(path)) {
+			set.status = 401;
+			return { error: "A valid API key is required" };
+		}
+	})
+	// The Swagger document is public; the contracts' event row schemas are only added
+	// for keys that can read those contracts' events
+	.onAfterHandle(async ({ apiKey, path, response }) => {
+		if (
+			path !== "/docs/json" ||
+			!apiKey ||
+			(!apiKey.scopes.includes("events:read") && !apiKey.scopes.includes("admin"))
+		) {
+			return;
+		}
+		const document = response as { components?: { schemas?: object } };
+		return {
+			...document,
+			components: {
+				...document.components,
+				schemas: {
+					...document.components?.schemas,
+					...(await getEventSchemaComponents(client, (reportId) =>
+						canAccessReport(apiKey, reportId),
+					)),
+				},
+			},
+		};
+	})
+	.use(swagger({
 	path: "/docs",
 	documentation: {
 		info: {
@@ -61,9 +221,21 @@ const app = new Elysia().use(
 		tags: [
 			{ name: 'Events', description: 'Event querying endpoints' },
 			{ name: 'Contracts', description: 'Contract management endpoints' },
+			{ name: 'Networks', description: 'Network configuration endpoints' },
+			{ name: 'Config', description: 'Configuration versioning endpoints' },
+			{ name: 'Webhooks', description: 'Outbound event webhook endpoints' },
+			{ name: 'Retention', description: 'Data retention and pruning endpoints' },
+			{ name: 'Indexer', description: 'Indexer process management endpoints' },
+			{ name: 'Auth', description: 'API key management endpoints' },
 			{ name: 'GraphQL', description: 'GraphQL proxy endpoint' },
 			{ name: 'Health', description: 'Health check endpoints' }
-		]
+		],
+		components: {
+			securitySchemes: {
+				bearerAuth: { type: "http", scheme: "bearer" }
+			}
+		},
+		security: [{ bearerAuth: [] }]
 	},
 }));
 
@@ -75,13 +247,23 @@ const app = new Elysia().use(
  *
  * @query contract_name - The contract name
  * @query report_id - The report identifier for this contract instance
- * @returns Array of event table names and the indexer_id
+ * @query from_time - Optional start of the time range (ISO-8601 or unix seconds)
+ * @query to_time - Optional end of the time range (ISO-8601 or unix seconds)
+ * @returns Array of event table names with their first and last events, the indexer_id,
+ *          and the networks the contract is deployed on with their chain IDs
  */
 app.get(
 	"/event-list",
 	async ({
 		query,
-	}: { query: { contract_name: string; report_id: string } }) => {
+	}: {
+		query: {
+			contract_name: string;
+			report_id: string;
+			from_time?: string;
+			to_time?: string;
+		};
+	}) => {
 		const { contract_name, report_id } = query;
 
 		try {
@@ -90,8 +272,8 @@ app.get(
 
 			// Resolve the internal indexer_id from the mapping table
 			const mappingResult = await client.query<{ indexer_id: string }>(
-				"SELECT indexer_id FROM name_uuid_indexer_id_mapping WHERE name_uuid = $1",
-				[nameUuid],
+				"SELECT indexer_id FROM name_uuid_indexer_id_mapping WHERE contract_name = $1 AND report_id = $2",
+				[contract_name, report_id],
 			);
 
 			if (mappingResult.rows.length === 0) {
@@ -109,20 +291,31 @@ app.get(
 			const schema_name = `${toSnakeCase(projectName)}_${indexerId}`;
 
 			// Query all tables in the contract's schema (each table represents an event type)
-			const tablesResult = await client.query<{ table_name: string }>(
-				`SELECT table_name 
-                 FROM information_schema.tables 
-                 WHERE table_schema = $1`,
-				[schema_name],
+			const event_details = await summarizeEventTables(
+				client,
+				schema_name,
+				await listEventTables(client, schema_name),
+				{
+					from_time: parseTimeParam("from_time", query.from_time),
+					to_time: parseTimeParam("to_time", query.to_time),
+				},
 			);
 
-			const events = tablesResult.rows.map((row) => row.table_name);
+			const { config } = await loadRindexerConfig();
+			const contract = config.contracts?.find((c) => c.name === indexerId);
 
 			return {
-				events,
+				events: event_details.map((detail) => detail.name),
+				event_details,
 				indexer_id: indexerId,
+				networks: withChainIds(contract?.details ?? [], config.networks ?? []).map(
+					({ network, chain_id }) => ({ network, chain_id }),
+				),
 			};
 		} catch (error) {
+			if (error instanceof EventQueryError || error instanceof RpcError) {
+				return { error: error.message, contract_name, report_id, events: [] };
+			}
 			console.error("Error in /event-list:", error);
 			return {
 				error: "Failed to retrieve event list",
@@ -133,14 +326,29 @@ app.get(
 		}
 	},
 	{
+		beforeHandle: ({ apiKey, query }) =>
+			checkAccess(() => requireReports(apiKey, "events:read", [query.report_id])),
 		query: t.Object({
 			contract_name: t.String({ description: "The contract name" }),
-			report_id: t.String({ description: "The report identifier for this contract instance" })
+			report_id: t.String({ description: "The report identifier for this contract instance" }),
+			from_time: t.Optional(t.String({ description: "Only list events with occurrences at or after this time (ISO-8601 or unix seconds)" })),
+			to_time: t.Optional(t.String({ description: "Only list events with occurrences at or before this time (ISO-8601 or unix seconds)" }))
 		}),
 		response: {
 			200: t.Object({
 				events: t.Array(t.String(), { description: "List of event table names" }),
-				indexer_id: t.String({ description: "Internal indexer identifier" })
+				event_details: t.Array(t.Object({
+					name: t.String(),
+					first_block: t.Nullable(t.String()),
+					first_timestamp: t.Nullable(t.String()),
+					last_block: t.Nullable(t.String()),
+					last_timestamp: t.Nullable(t.String())
+				}), { description: "First and last event of each table within the requested time range" }),
+				indexer_id: t.String({ description: "Internal indexer identifier" }),
+				networks: t.Array(t.Object({
+					network: t.String(),
+					chain_id: t.Nullable(t.Number())
+				}), { description: "Networks the contract is deployed on, with their chain IDs" })
 			}),
 			400: t.Object({
 				error: t.String(),
@@ -159,12 +367,22 @@ app.get(
 /**
  * GET /events
  *
- * Retrieves all events of a specific type for a contract, ordered by block number and log index.
+ * Retrieves a page of events of a specific type for a contract, ordered by block number and log index.
  *
  * @query indexer_id - Internal indexer identifier (obtained from /event-list)
  * @query event_name - Name of the event table to query
  * @query sort_order - Optional sort direction: 1 for ASC, -1 for DESC (default: -1)
- * @returns Array of event records with all their fields
+ * @query limit - Optional page size, capped at APP_CONSTANTS.MAX_EVENTS_PER_PAGE
+ * @query cursor - Optional next_cursor or prev_cursor from a previous page
+ * @query from_block - Optional first block to include
+ * @query to_block - Optional last block to include
+ * @query from_time - Optional start of the time range (ISO-8601 or unix seconds)
+ * @query to_time - Optional end of the time range (ISO-8601 or unix seconds)
+ * @query tx_hash - Optional transaction hash to match
+ * @query network - Optional network to return the events of
+ * @query min_confirmations - Optional minimum number of confirmations of the events' blocks
+ * @query filters - Optional JSON object of column filters, e.g. {"to":"0x...","value":{"gte":"1000"}}
+ * @returns Page of event records with cursors to the surrounding pages
  */
 app.get(
 	"/events",
@@ -175,25 +393,39 @@ app.get(
 			indexer_id: string;
 			event_name: string;
 			sort_order?: number;
+			limit?: number;
+			cursor?: string;
+			from_block?: number;
+			to_block?: number;
+			from_time?: string;
+			to_time?: string;
+			tx_hash?: string;
+			network?: string;
+			min_confirmations?: number;
+			filters?: string;
 		};
 	}) => {
-		const { indexer_id, event_name, sort_order = -1 } = query;
+		const {
+			indexer_id,
+			event_name,
+			sort_order = -1,
+			limit,
+			cursor,
+			from_block,
+			to_block,
+			from_time,
+			to_time,
+			tx_hash,
+			network,
+			min_confirmations,
+			filters,
+		} = query;
 
 		try {
-			const projectName = await getProjectName();
-			const schema_name = `${toSnakeCase(projectName)}_${indexer_id}`;
+			const schema_name = await getSchemaName(indexer_id);
 
 			// Verify the event table exists in the schema
-			const tableExistsResult = await client.query<{ exists: boolean }>(
-				`SELECT EXISTS (
-                    SELECT 1 
-                    FROM information_schema.tables 
-                    WHERE table_schema = $1 AND table_name = $2
-                ) AS exists`,
-				[schema_name, event_name],
-			);
-
-			if (!tableExistsResult.rows[0]?.exists) {
+			if (!(await eventTableExists(client, schema_name, event_name))) {
 				return {
 					error: `Event "${event_name}" not found in schema "${schema_name}"`,
 					indexer_id,
@@ -202,18 +434,25 @@ app.get(
 				};
 			}
 
-			// Order by blockchain natural ordering: block number, then log index
-			const order = sort_order === 1 ? "ASC" : "DESC";
-
-			const result = await client.query(
-				`SELECT * FROM ${schema_name}."${event_name}"
-                 ORDER BY block_number ${order}, log_index ${order}`,
-			);
-
-			return {
-				events: result.rows,
-			};
+			return await queryEventsPage(client, schema_name, event_name, {
+				sortOrder: sort_order,
+				limit,
+				cursor,
+				filters: {
+					from_block: from_block?.toString(),
+					to_block: to_block?.toString(),
+					from_time: parseTimeParam("from_time", from_time),
+					to_time: parseTimeParam("to_time", to_time),
+					tx_hash,
+					network,
+					min_confirmations,
+					columns: parseColumnFilters(filters),
+				},
+			});
 		} catch (error) {
+			if (error instanceof EventQueryError || error instanceof RpcError) {
+				return { error: error.message, indexer_id, event_name, events: [] };
+			}
 			console.error("Error in /events:", error);
 			return {
 				error: "Failed to retrieve events",
@@ -224,14 +463,29 @@ app.get(
 		}
 	},
 	{
+		beforeHandle: ({ apiKey, query }) =>
+			checkAccess(() => requireIndexers(client, apiKey, "events:read", [query.indexer_id])),
 		query: t.Object({
 			indexer_id: t.String({ description: "Internal indexer identifier (obtained from /event-list)" }),
 			event_name: t.String({ description: "Name of the event table to query" }),
-			sort_order: t.Optional(t.Number({ description: "Sort direction: 1 for ASC, -1 for DESC", default: -1 }))
+			sort_order: t.Optional(t.Number({ description: "Sort direction: 1 for ASC, -1 for DESC", default: -1 })),
+			limit: t.Optional(t.Number({ description: `Page size (default: ${APP_CONSTANTS.DEFAULT_EVENTS_PER_PAGE}, max: ${APP_CONSTANTS.MAX_EVENTS_PER_PAGE})` })),
+			cursor: t.Optional(t.String({ description: "next_cursor or prev_cursor returned by a previous page" })),
+			from_block: t.Optional(t.Number({ description: "First block to include" })),
+			to_block: t.Optional(t.Number({ description: "Last block to include" })),
+			from_time: t.Optional(t.String({ description: "Earliest block time to include (ISO-8601 or unix seconds)" })),
+			to_time: t.Optional(t.String({ description: "Latest block time to include (ISO-8601 or unix seconds)" })),
+			tx_hash: t.Optional(t.String({ description: "Transaction hash to match" })),
+			network: t.Optional(t.String({ description: "Network to return the events of" })),
+			min_confirmations: t.Optional(t.Number({ description: "Only return events whose block has at least this many confirmations, counting the block itself" })),
+			filters: t.Optional(t.String({ description: 'JSON object of column filters. Plain values match exactly, objects accept eq/gt/gte/lt/lte, e.g. {"to":"0x...","value":{"gte":"1000"}}' }))
 		}),
 		response: {
 			200: t.Object({
-				events: t.Array(t.Any(), { description: "Array of event records with all their fields" })
+				events: t.Array(t.Any(), { description: "Array of event records with all their fields, including block_timestamp" }),
+				next_cursor: t.Nullable(t.String({ description: "Cursor to the page after this one" })),
+				prev_cursor: t.Nullable(t.String({ description: "Cursor to the page before this one" })),
+				has_more: t.Boolean({ description: "Whether more events exist in the direction being paged" })
 			}),
 			400: t.Object({
 				error: t.String(),
@@ -249,133 +503,2642 @@ app.get(
 
 
 /**
- * POST /graphql
+ * GET /event-schema
  *
- * Proxy endpoint for GraphQL queries. Forwards requests to the internal GraphQL server.
+ * Describes the event tables of a contract by merging their columns in information_schema
+ * with the event inputs of the stored ABI. Each field reports its Solidity type, Postgres
+ * type, whether it is indexed, and how its values are represented in /events rows.
  *
- * @body GraphQL query object with required 'query' field
- * @returns GraphQL response or error
+ * @query indexer_id - Internal indexer identifier (obtained from /event-list)
+ * @query event_name - Optional event table to describe (default: all of the contract's tables)
+ * @returns Fields and an OpenAPI schema of the rows of each event table
  */
-app.post("/graphql", async ({ body }: { body: { query: string; variables?: any; operationName?: string } }) => {
-	if (!body?.query) {
-		return { error: 'The field "query" is required.' };
-	}
+app.get(
+	"/event-schema",
+	async ({ query }: { query: { indexer_id: string; event_name?: string } }) => {
+		const { indexer_id, event_name } = query;
 
-	const response = await fetch(
-		`http://localhost:${APP_CONSTANTS.GRAPHQL_PORT}/graphql`,
-		{
-			method: "POST",
-			headers: { "Content-Type": "application/json" },
-			body: JSON.stringify(body),
+		try {
+			return await getEventSchemas(client, indexer_id, event_name);
+		} catch (error) {
+			if (error instanceof EventQueryError) {
+				return { error: error.message, indexer_id, events: [] };
+			}
+			console.error("Error in /event-schema:", error);
+			return {
+				error: "Failed to retrieve event schema",
+				indexer_id,
+				events: [],
+			};
+		}
+	},
+	{
+		beforeHandle: ({ apiKey, query }) =>
+			checkAccess(() => requireIndexers(client, apiKey, "events:read", [query.indexer_id])),
+		query: t.Object({
+			indexer_id: t.String({ description: "Internal indexer identifier (obtained from /event-list)" }),
+			event_name: t.Optional(t.String({ description: "Event table to describe (default: all of the contract's tables)" }))
+		}),
+		response: {
+			200: t.Object({
+				indexer_id: t.String(),
+				schema_name: t.String(),
+				events: t.Array(t.Object({
+					event_name: t.String({ description: "Name of the event table, as used by /events" }),
+					abi_event: t.Nullable(t.String({ description: "Event name in the ABI" })),
+					signature: t.Nullable(t.String({ description: "Event signature, e.g. Transfer(address,address,uint256)" })),
+					table_exists: t.Boolean({ description: "False until rindexer has created the table" }),
+					fields: t.Array(t.Object({
+						name: t.String({ description: "Column name" }),
+						source: t.Union([
+							t.Literal("event"),
+							t.Literal("rindexer"),
+							t.Literal("api")
+						], { description: "event: an event input, rindexer: added by rindexer, api: added to /events rows" }),
+						parameter: t.Nullable(t.String({ description: "Event input, with tuple components as input.component" })),
+						solidity_type: t.Nullable(t.String()),
+						postgres_type: t.Nullable(t.String({ description: "Null when the table lacks the column" })),
+						indexed: t.Nullable(t.Boolean()),
+						nullable: t.Boolean(),
+						array: t.Boolean(),
+						representation: t.Union([
+							t.Literal("decimal_string"),
+							t.Literal("hex_string"),
+							t.Literal("string"),
+							t.Literal("number"),
+							t.Literal("boolean"),
+							t.Literal("iso_timestamp"),
+							t.Literal("json")
+						], { description: "JSON representation of values, e.g. decimal_string for uint256 amounts" })
+					})),
+					json_schema: t.Record(t.String(), t.Unknown(), { description: "OpenAPI schema of an /events row" })
+				}))
+			}),
+			400: t.Object({
+				error: t.String(),
+				indexer_id: t.String(),
+				events: t.Array(t.Any())
+			})
 		},
-	);
-
-	return await response.json();
-},{
-	body: t.Object({
-		query: t.String({ description: "GraphQL query string" }),
-		variables: t.Optional(t.Any({ description: "GraphQL variables object" })),
-		operationName: t.Optional(t.String({ description: "GraphQL operation name" }))
-	}),
-	response: {
-		200: t.Any({ description: "GraphQL response" }),
-		400: t.Object({
-			error: t.String()
-		})
+		detail: {
+			summary: "Describe the fields of a contract's events",
+			tags: ["Events"],
+		}
 	},
-	detail: {
-		summary: "Proxy to Rindexer's GraphQL",
-		tags: ["GraphQL"],
-	}
-});
+);
 
 /**
- * POST /add-contracts
+ * GET /search
  *
- * Batch endpoint for adding multiple contracts to the indexer.
- * Validates contracts, updates configuration, writes ABI files, and restarts the indexer process.
+ * Finds the events of a transaction or address across every indexed contract, without
+ * knowing the contract or event first. Scans each contract schema the API key can read.
  *
- * @body AddContractsRequest - Array of contract configurations to add
- * @returns BatchApiResponse with success status and individual contract results
+ * @query tx_hash - Transaction hash to find the events of
+ * @query address - Address to find as contract address or in an address event field
+ * @query report_id - Optional report to restrict the search to
+ * @query network - Optional network to restrict the search to
+ * @query limit - Optional maximum number of events, capped at APP_CONSTANTS.MAX_EVENTS_PER_PAGE
+ * @returns Matching events grouped by contract and event name
  */
-app.post(
-	"/add-contracts",
+app.get(
+	"/search",
 	async ({
-		body,
-	}: { body: AddContractsRequest }): Promise<BatchApiResponse> => {
+		query,
+		apiKey,
+	}: {
+		query: {
+			tx_hash?: string;
+			address?: string;
+			report_id?: string;
+			network?: string;
+			limit?: number;
+		};
+		apiKey: ApiKeyContext | null;
+	}) => {
 		try {
-			// Validate the entire batch request structure
-			const batchError = validateBatchRequest(body);
-			if (batchError) {
-				return { success: false, results: [], error: batchError };
-			}
-
-			// Process and validate each contract individually
-			const { results, processedContracts } = await processContractBatch(
-				body.contracts,
-				client,
+			return await searchEvents(query, (reportId) =>
+				apiKey ? canAccessReport(apiKey, reportId) : false,
 			);
-
-			if (processedContracts.length === 0) {
-				return { success: false, results, error: "No valid contracts to add." };
+		} catch (error) {
+			if (error instanceof EventQueryError) {
+				return { error: error.message, results: [] };
 			}
+			console.error("Error in /search:", error);
+			return { error: "Failed to search events", results: [] };
+		}
+	},
+	{
+		beforeHandle: ({ apiKey, query }) =>
+			checkAccess(() =>
+				query.report_id === undefined
+					? requireScope(apiKey, "events:read")
+					: requireReports(apiKey, "events:read", [query.report_id]),
+			),
+		query: t.Object({
+			tx_hash: t.Optional(t.String({ description: "Transaction hash to find the events of" })),
+			address: t.Optional(t.String({ description: "Address to find as contract address or in an address event field" })),
+			report_id: t.Optional(t.String({ description: "Only search the contracts of this report" })),
+			network: t.Optional(t.String({ description: "Only search events from this network" })),
+			limit: t.Optional(t.Number({ description: `Maximum number of events (default: ${APP_CONSTANTS.DEFAULT_EVENTS_PER_PAGE}, max: ${APP_CONSTANTS.MAX_EVENTS_PER_PAGE})` }))
+		}),
+		response: {
+			200: t.Object({
+				results: t.Array(t.Object({
+					contract_name: t.String(),
+					report_id: t.String(),
+					indexer_id: t.String(),
+					events: t.Array(t.Object({
+						event_name: t.String(),
+						matched_columns: t.Array(t.String(), { description: "Columns holding the searched address" }),
+						events: t.Array(t.Any(), { description: "Matching event records, including block_timestamp" })
+					}))
+				})),
+				total: t.Number({ description: "Number of events returned" }),
+				truncated: t.Boolean({ description: "Whether more events may match than were returned" })
+			}),
+			400: t.Object({
+				error: t.String(),
+				results: t.Array(t.Any())
+			})
+		},
+		detail: {
+			summary: "Find the events of a transaction or address across contracts",
+			tags: ["Events"],
+		}
+	},
+);
+
+/**
+ * GET /reorgs
+ *
+ * Lists the chain reorganizations found by the reorg checker, newest first. Events of
+ * the orphaned blocks are left out of event queries, or deleted with REORG_ACTION=delete.
+ *
+ * @query network - Optional network to list the reorganizations of
+ * @query limit - Optional number of reorganizations (default: 50, max: 500)
+ * @query before_id - Optional id to list the reorganizations before, for paging
+ * @returns Reorganizations with their orphaned blocks
+ */
+app.get(
+	"/reorgs",
+	async ({ query }: { query: { network?: string; limit?: number; before_id?: number } }) => {
+		try {
+			return { reorgs: await listReorgs(client, query) };
+		} catch (error) {
+			console.error("Error in /reorgs:", error);
+			return { error: "Failed to retrieve reorgs", reorgs: [] };
+		}
+	},
+	{
+		beforeHandle: ({ apiKey }) =>
+			checkAccess(() => requireScope(apiKey, "events:read")),
+		query: t.Object({
+			network: t.Optional(t.String({ description: "Network to list the reorganizations of" })),
+			limit: t.Optional(t.Number({ description: `Number of reorganizations (default: ${APP_CONSTANTS.REORG.DEFAULT_LIMIT}, max: ${APP_CONSTANTS.REORG.MAX_LIMIT})` })),
+			before_id: t.Optional(t.Number({ description: "List the reorganizations before this id" }))
+		}),
+		response: {
+			200: t.Object({
+				reorgs: t.Array(t.Object({
+					id: t.Number(),
+					network: t.String(),
+					first_block: t.String({ description: "First orphaned block" }),
+					last_block: t.String({ description: "Last orphaned block" }),
+					chain_head: t.String({ description: "Chain head when the reorganization was found" }),
+					action: t.Union([
+						t.Literal("mark"),
+						t.Literal("delete")
+					], { description: "Whether the orphaned events were hidden from queries or deleted" }),
+					events_affected: t.Number(),
+					blocks: t.Array(t.Object({
+						block_number: t.String(),
+						orphaned_hash: t.String({ description: "Block hash stored with the events" }),
+						canonical_hash: t.String({ description: "Block hash on the canonical chain" })
+					})),
+					detected_at: t.String()
+				}))
+			}),
+			400: t.Object({
+				error: t.String(),
+				reorgs: t.Array(t.Any())
+			})
+		},
+		detail: {
+			summary: "List chain reorganizations",
+			tags: ["Events"],
+		}
+	},
+);
 
-			// Prepare configuration data (handles deduplication of contracts and ABIs)
-			const { contracts, abiFiles } = prepareContractBatch(processedContracts);
+/**
+ * GET /events/stats
+ *
+ * Aggregates the events of a specific type for a contract: total count, block range,
+ * optional histograms by block range or time interval, and value counts for one column.
+ *
+ * @query indexer_id - Internal indexer identifier (obtained from /event-list)
+ * @query event_name - Name of the event table to aggregate
+ * @query bucket_blocks - Optional histogram bucket size in blocks
+ * @query interval - Optional histogram time interval: hour, day, week or month
+ * @query column - Optional column to count distinct and most frequent values of
+ * @query top - Optional number of most frequent values to return (default: 10)
+ * @query from_block, to_block, from_time, to_time, network, filters - Same filters as /events
+ * @returns Event statistics
+ */
+app.get(
+	"/events/stats",
+	async ({
+		query,
+	}: {
+		query: {
+			indexer_id: string;
+			event_name: string;
+			bucket_blocks?: number;
+			interval?: StatsInterval;
+			column?: string;
+			top?: number;
+			from_block?: number;
+			to_block?: number;
+			from_time?: string;
+			to_time?: string;
+			network?: string;
+			filters?: string;
+		};
+	}) => {
+		const { indexer_id, event_name } = query;
 
-			// Apply changes: update config file and write ABI files
-			await updateRindexerConfig(contracts);
-			await writeAbiFiles(abiFiles);
+		try {
+			const schema_name = await getSchemaName(indexer_id);
 
-			// Restart the indexer to pick up new configuration
-			await restartRindexerProcess();
+			// Verify the event table exists in the schema
+			if (!(await eventTableExists(client, schema_name, event_name))) {
+				return {
+					error: `Event "${event_name}" not found in schema "${schema_name}"`,
+					indexer_id,
+					event_name,
+				};
+			}
 
-			return { success: true, results };
+			return await getEventStats(client, schema_name, event_name, {
+				bucketBlocks: query.bucket_blocks,
+				interval: query.interval,
+				column: query.column,
+				top: query.top,
+				filters: {
+					from_block: query.from_block?.toString(),
+					to_block: query.to_block?.toString(),
+					from_time: parseTimeParam("from_time", query.from_time),
+					to_time: parseTimeParam("to_time", query.to_time),
+					network: query.network,
+					columns: parseColumnFilters(query.filters),
+				},
+			});
 		} catch (error) {
-			const errorMessage =
-				error instanceof Error ? error.message : "Unknown error occurred";
-			console.error("Error adding contracts batch:", errorMessage);
+			if (error instanceof EventQueryError || error instanceof RpcError) {
+				return { error: error.message, indexer_id, event_name };
+			}
+			console.error("Error in /events/stats:", error);
 			return {
-				success: false,
-				results: [],
-				error: `Failed to add contracts: ${errorMessage}`,
+				error: "Failed to retrieve event stats",
+				indexer_id,
+				event_name,
 			};
 		}
 	},
 	{
-		body: t.Object({
-			contracts: t.Array(t.Object({
-				name: t.String({ description: "Contract identifier" }),
-				report_id: t.String({ description: "Report identifier for this contract instance" }),
-				network: t.String({ description: "Blockchain network name" }),
-				address: t.String({ description: "Contract address" }),
-				start_block: t.String({ description: "Starting block number for indexing" }),
-				abi: t.Union([
-					t.String({ description: "ABI as JSON string" }),
-					t.Array(t.Any(), { description: "ABI as array of objects" })
-				], { description: "Contract ABI" })
-			}))
+		beforeHandle: ({ apiKey, query }) =>
+			checkAccess(() => requireIndexers(client, apiKey, "events:read", [query.indexer_id])),
+		query: t.Object({
+			indexer_id: t.String({ description: "Internal indexer identifier (obtained from /event-list)" }),
+			event_name: t.String({ description: "Name of the event table to aggregate" }),
+			bucket_blocks: t.Optional(t.Number({ description: "Histogram bucket size in blocks" })),
+			interval: t.Optional(t.Union([
+				t.Literal("hour"),
+				t.Literal("day"),
+				t.Literal("week"),
+				t.Literal("month")
+			], { description: "Histogram time interval" })),
+			column: t.Optional(t.String({ description: "Column to count distinct and most frequent values of, e.g. from or to" })),
+			top: t.Optional(t.Number({ description: `Number of most frequent values to return (default: 10, max: ${APP_CONSTANTS.MAX_STATS_TOP_VALUES})` })),
+			from_block: t.Optional(t.Number({ description: "First block to include" })),
+			to_block: t.Optional(t.Number({ description: "Last block to include" })),
+			from_time: t.Optional(t.String({ description: "Earliest block time to include (ISO-8601 or unix seconds)" })),
+			to_time: t.Optional(t.String({ description: "Latest block time to include (ISO-8601 or unix seconds)" })),
+			network: t.Optional(t.String({ description: "Network to aggregate the events of" })),
+			filters: t.Optional(t.String({ description: "JSON object of column filters, same format as /events" }))
 		}),
 		response: {
 			200: t.Object({
-				success: t.Boolean(),
-				results: t.Array(t.Object({
-					contract: t.String(),
-					success: t.Boolean(),
-					message: t.Optional(t.String()),
-					error: t.Optional(t.String())
-				})),
-				error: t.Optional(t.String())
+				total_count: t.Number(),
+				first_block: t.Nullable(t.String()),
+				last_block: t.Nullable(t.String()),
+				block_buckets: t.Optional(t.Array(t.Object({
+					start_block: t.String(),
+					end_block: t.String(),
+					count: t.Number()
+				}))),
+				time_buckets: t.Optional(t.Array(t.Object({
+					start_time: t.String(),
+					end_time: t.String(),
+					count: t.Number()
+				}))),
+				column_stats: t.Optional(t.Object({
+					column: t.String(),
+					distinct_count: t.Number(),
+					top: t.Array(t.Object({
+						value: t.Nullable(t.String()),
+						count: t.Number()
+					}))
+				}))
 			}),
 			400: t.Object({
-				success: t.Boolean(),
-				results: t.Array(t.Any()),
-				error: t.String()
+				error: t.String(),
+				indexer_id: t.String(),
+				event_name: t.String()
 			})
 		},
 		detail: {
-			summary: "Add multiple contracts to Rindexer (batch)",
-			tags: ["Contracts"],
+			summary: "Get aggregated statistics for contract events",
+			tags: ["Events"],
+		}
+	},
+);
+
+/**
+ * GET /events/export
+ *
+ * Streams the events of a contract as CSV or newline-delimited JSON.
+ * Without event_name, every event table of the contract is exported as a zip archive
+ * with one file per event.
+ *
+ * @query indexer_id - Internal indexer identifier (obtained from /event-list)
+ * @query event_name - Optional name of the event table to export
+ * @query format - Export format: csv, ndjson or jsonl (default: csv)
+ * @query sort_order, from_block, to_block, from_time, to_time, tx_hash, network, filters - Same options as /events
+ * @returns File download stream
+ */
+app.get(
+	"/events/export",
+	async ({
+		query,
+	}: {
+		query: {
+			indexer_id: string;
+			event_name?: string;
+			format?: ExportFormat;
+			sort_order?: number;
+			from_block?: number;
+			to_block?: number;
+			from_time?: string;
+			to_time?: string;
+			tx_hash?: string;
+			network?: string;
+			filters?: string;
+		};
+	}) => {
+		const { indexer_id, event_name = "", format = "csv", sort_order = -1 } = query;
+
+		try {
+			const schema_name = await getSchemaName(indexer_id);
+			const filters = {
+				from_block: query.from_block?.toString(),
+				to_block: query.to_block?.toString(),
+				from_time: parseTimeParam("from_time", query.from_time),
+				to_time: parseTimeParam("to_time", query.to_time),
+				tx_hash: query.tx_hash,
+				network: query.network,
+				columns: parseColumnFilters(query.filters),
+			};
+
+			if (event_name) {
+				// Verify the event table exists in the schema
+				if (!(await eventTableExists(client, schema_name, event_name))) {
+					return {
+						error: `Event "${event_name}" not found in schema "${schema_name}"`,
+						indexer_id,
+						event_name,
+					};
+				}
+
+				const prepared = await prepareEventExport(client, schema_name, event_name, {
+					sortOrder: sort_order,
+					filters,
+				});
+				return new Response(createEventExportStream(prepared, format), {
+					headers: {
+						"Content-Type": EXPORT_CONTENT_TYPES[format],
+						"Content-Disposition": `attachment; filename="${indexer_id}_${event_name}.${format}"`,
+					},
+				});
+			}
+
+			const eventNames = await listEventTables(client, schema_name);
+			if (eventNames.length === 0) {
+				return {
+					error: `No events found in schema "${schema_name}"`,
+					indexer_id,
+					event_name,
+				};
+			}
+
+			const prepared = [];
+			for (const eventName of eventNames) {
+				prepared.push(
+					await prepareEventExport(client, schema_name, eventName, {
+						sortOrder: sort_order,
+						filters,
+					}),
+				);
+			}
+			return new Response(createZipExportStream(prepared, format), {
+				headers: {
+					"Content-Type": EXPORT_CONTENT_TYPES.zip,
+					"Content-Disposition": `attachment; filename="${indexer_id}_events.zip"`,
+				},
+			});
+		} catch (error) {
+			if (error instanceof EventQueryError || error instanceof RpcError) {
+				return { error: error.message, indexer_id, event_name };
+			}
+			console.error("Error in /events/export:", error);
+			return {
+				error: "Failed to export events",
+				indexer_id,
+				event_name,
+			};
+		}
+	},
+	{
+		beforeHandle: ({ apiKey, query }) =>
+			checkAccess(() => requireIndexers(client, apiKey, "events:read", [query.indexer_id])),
+		query: t.Object({
+			indexer_id: t.String({ description: "Internal indexer identifier (obtained from /event-list)" }),
+			event_name: t.Optional(t.String({ description: "Name of the event table to export. Omit to export every event table as a zip archive" })),
+			format: t.Optional(t.Union([
+				t.Literal("csv"),
+				t.Literal("ndjson"),
+				t.Literal("jsonl")
+			], { description: "Export format", default: "csv" })),
+			sort_order: t.Optional(t.Number({ description: "Sort direction: 1 for ASC, -1 for DESC", default: -1 })),
+			from_block: t.Optional(t.Number({ description: "First block to include" })),
+			to_block: t.Optional(t.Number({ description: "Last block to include" })),
+			from_time: t.Optional(t.String({ description: "Earliest block time to include (ISO-8601 or unix seconds)" })),
+			to_time: t.Optional(t.String({ description: "Latest block time to include (ISO-8601 or unix seconds)" })),
+			tx_hash: t.Optional(t.String({ description: "Transaction hash to match" })),
+			network: t.Optional(t.String({ description: "Network to return the events of" })),
+			filters: t.Optional(t.String({ description: "JSON object of column filters, same format as /events" }))
+		}),
+		response: {
+			200: t.Any({ description: "Exported file stream" }),
+			400: t.Object({
+				error: t.String(),
+				indexer_id: t.String(),
+				event_name: t.String()
+			})
+		},
+		detail: {
+			summary: "Export contract events as CSV or NDJSON",
+			tags: ["Events"],
+		}
+	},
+);
+
+/**
+ * GET /events/subscribe
+ *
+ * Server-Sent Events stream of newly indexed events for one or more contract events.
+ * Each message carries an id that resumes the stream after it: browsers send it back
+ * automatically as Last-Event-ID when reconnecting, other clients can pass it as cursor.
+ *
+ * @query targets - Comma-separated indexer_id:event_name pairs
+ * @query cursor - Optional resume cursor from a previous message
+ * @returns text/event-stream of "events" messages
+ */
+app.get(
+	"/events/subscribe",
+	async ({
+		query,
+		headers,
+		apiKey,
+		set,
+	}: {
+		query: { targets: string; cursor?: string };
+		headers: Record<string, string | undefined>;
+		apiKey: ApiKeyContext | null;
+		set: { status?: number | string };
+	}) => {
+		let subscription: EventSubscription | undefined;
+		let heartbeat: ReturnType<typeof setInterval> | undefined;
+		let stopped = false;
+
+		try {
+			const targets = parseSubscriptionTargets(query.targets);
+			await requireIndexers(
+				client,
+				apiKey,
+				"events:read",
+				targets.map(({ indexer_id }) => indexer_id),
+			);
+
+			let controller!: ReadableStreamDefaultController<Uint8Array>;
+			const stream = new ReadableStream<Uint8Array>(
+				{
+					start(streamController) {
+						controller = streamController;
+					},
+					cancel() {
+						stopped = true;
+						clearInterval(heartbeat);
+						if (subscription) {
+							closeEventSubscription(subscription);
+						}
+					},
+				},
+				new CountQueuingStrategy({ highWaterMark: APP_CONSTANTS.SSE_MAX_QUEUED_MESSAGES }),
+			);
+
+			// Stop once the client is gone or too far behind
+			const send = (message: string) => {
+				if (!enqueueServerSentEvent(controller, message)) {
+					stopped = true;
+					clearInterval(heartbeat);
+					if (subscription) {
+						closeEventSubscription(subscription);
+					}
+					closeServerSentEvents(controller);
+				}
+			};
+
+			subscription = await openEventSubscription(
+				client,
+				targets,
+				headers["last-event-id"] ?? query.cursor,
+				(message) =>
+					send(
+						`id: ${message.cursor}\nevent: events\ndata: ${JSON.stringify(message)}\n\n`,
+					),
+			);
+			// The client may have left while the subscription was being opened
+			if (stopped) {
+				closeEventSubscription(subscription);
+			}
+
+			// Comment lines keep proxies from closing idle connections
+			heartbeat = setInterval(
+				() => send(": ping\n\n"),
+				APP_CONSTANTS.SUBSCRIPTION_HEARTBEAT_MS,
+			);
+
+			return new Response(stream, {
+				headers: {
+					"Content-Type": "text/event-stream",
+					"Cache-Control": "no-cache",
+					Connection: "keep-alive",
+				},
+			});
+		} catch (error) {
+			if (error instanceof AuthError) {
+				set.status = error.status;
+				return { error: error.message, targets: query.targets };
+			}
+			if (error instanceof EventQueryError) {
+				return { error: error.message, targets: query.targets };
+			}
+			console.error("Error in /events/subscribe:", error);
+			return {
+				error: "Failed to subscribe to events",
+				targets: query.targets,
+			};
+		}
+	},
+	{
+		query: t.Object({
+			targets: t.String({ description: "Comma-separated indexer_id:event_name pairs, e.g. abc:Transfer,abc:Approval" }),
+			cursor: t.Optional(t.String({ description: "Resume cursor (the id of the last message received)" }))
+		}),
+		response: {
+			200: t.Any({ description: "text/event-stream of new events" }),
+			400: t.Object({
+				error: t.String(),
+				targets: t.String()
+			})
+		},
+		detail: {
+			summary: "Subscribe to new contract events (Server-Sent Events)",
+			tags: ["Events"],
+		}
+	},
+);
+
+/**
+ * WS /events/subscribe
+ *
+ * WebSocket variant of the event subscription. Clients send
+ * { targets: [{ indexer_id, event_name }], cursor? } to (re)subscribe and receive
+ * { type: "events", ... } messages, each carrying a cursor to resume from.
+ */
+const socketSubscriptions = new Map<string, EventSubscription>();
+// Incremented by every subscribe message and removed on close, so a subscription opened
+// after its socket closed or sent a newer message is closed again
+const socketGenerations = new Map<string, number>();
+
+app.ws("/events/subscribe", {
+	body: t.Object({
+		targets: t.Array(t.Object({
+			indexer_id: t.String(),
+			event_name: t.String()
+		})),
+		cursor: t.Optional(t.String())
+	}),
+	async message(ws, { targets, cursor }) {
+		const generation = (socketGenerations.get(ws.id) ?? 0) + 1;
+		socketGenerations.set(ws.id, generation);
+		const isCurrent = () => socketGenerations.get(ws.id) === generation;
+
+		const existing = socketSubscriptions.get(ws.id);
+		if (existing) {
+			closeEventSubscription(existing);
+			socketSubscriptions.delete(ws.id);
+		}
+
+		try {
+			await requireIndexers(
+				client,
+				ws.data.apiKey,
+				"events:read",
+				targets.map(({ indexer_id }) => indexer_id),
+			);
+			if (!isCurrent()) {
+				return;
+			}
+
+			const subscription = await openEventSubscription(
+				client,
+				targets,
+				cursor,
+				(message) => {
+					ws.send({ type: "events", ...message });
+				},
+			);
+			// The socket may have closed or resubscribed while the subscription was opened
+			if (!isCurrent()) {
+				closeEventSubscription(subscription);
+				return;
+			}
+			socketSubscriptions.set(ws.id, subscription);
+			ws.send({ type: "subscribed", cursor: getSubscriptionCursor(subscription) });
+		} catch (error) {
+			const known =
+				error instanceof EventQueryError || error instanceof AuthError;
+			if (!known) {
+				console.error("Error in WS /events/subscribe:", error);
+			}
+			ws.send({
+				type: "error",
+				error: known ? error.message : "Failed to subscribe to events",
+			});
+		}
+	},
+	close(ws) {
+		socketGenerations.delete(ws.id);
+		const subscription = socketSubscriptions.get(ws.id);
+		if (subscription) {
+			closeEventSubscription(subscription);
+			socketSubscriptions.delete(ws.id);
+		}
+	},
+	detail: {
+		summary: "Subscribe to new contract events (WebSocket)",
+		tags: ["Events"],
+	}
+});
+
+/**
+ * POST /graphql
+ *
+ * Proxy endpoint for GraphQL queries. Forwards requests to the internal GraphQL server.
+ *
+ * @body GraphQL query object with required 'query' field
+ * @returns GraphQL response or error
+ */
+app.post("/graphql", async ({ body }: { body: { query: string; variables?: any; operationName?: string } }) => {
+	if (!body?.query) {
+		return { error: 'The field "query" is required.' };
+	}
+
+	const response = await fetch(
+		`http://localhost:${APP_CONSTANTS.GRAPHQL_PORT}/graphql`,
+		{
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify(body),
+		},
+	);
+
+	return await response.json();
+},{
+	beforeHandle: ({ apiKey, body }) =>
+		checkAccess(() =>
+			requireGraphqlQuery(client, apiKey, "events:read", body.query),
+		),
+	body: t.Object({
+		query: t.String({ description: "GraphQL query string" }),
+		variables: t.Optional(t.Any({ description: "GraphQL variables object" })),
+		operationName: t.Optional(t.String({ description: "GraphQL operation name" }))
+	}),
+	response: {
+		200: t.Any({ description: "GraphQL response" }),
+		400: t.Object({
+			error: t.String()
+		})
+	},
+	detail: {
+		summary: "Proxy to Rindexer's GraphQL",
+		tags: ["GraphQL"],
+	}
+});
+
+const AddContractsBodySchema = t.Object({
+	contracts: t.Array(t.Object({
+		name: t.String({ description: "Contract identifier" }),
+		report_id: t.String({ description: "Report identifier for this contract instance" }),
+		network: t.Optional(t.String({ description: "Blockchain network name. Either network or chain_id is required" })),
+		chain_id: t.Optional(t.Number({ description: "Chain ID of a configured network, used when network is omitted" })),
+		address: t.String({ description: "Contract address" }),
+		start_block: t.String({ description: "Starting block number for indexing" }),
+		abi: t.Union([
+			t.String({ description: "ABI as JSON string" }),
+			t.Array(t.Any(), { description: "ABI as array of objects" })
+		], { description: "Contract ABI" })
+	}))
+});
+
+const ContractResultSchema = t.Object({
+	contract: t.String(),
+	success: t.Boolean(),
+	message: t.Optional(t.String()),
+	error: t.Optional(t.String()),
+	indexer_id: t.Optional(t.String()),
+	action: t.Optional(t.Union([
+		t.Literal("added"),
+		t.Literal("deployment_added"),
+		t.Literal("deployment_updated")
+	], { description: "Whether a contract is added, or a deployment of a registered contract added or updated" })),
+	abi_problems: t.Optional(t.Array(t.String(), { description: "Problems that make the ABI impossible to index" })),
+	event_tables: t.Optional(t.Array(t.Object({
+		name: t.String(),
+		event: t.String(),
+		columns: t.Array(t.String()),
+		exists: t.Optional(t.Boolean({ description: "False for tables rindexer would create. Only set by POST /add-contracts/validate" }))
+	}), { description: "Event tables rindexer creates for the contract's ABI" }))
+});
+
+/**
+ * POST /add-contracts
+ *
+ * Batch endpoint for adding multiple contracts to the indexer.
+ * Validates contracts, updates configuration, writes ABI files, and restarts the indexer process.
+ * With async=true the batch is queued as a job and its progress is reported by GET /jobs/:id.
+ *
+ * @query async - Return a job_id immediately instead of waiting for the restart
+ * @body AddContractsRequest - Array of contract configurations to add
+ * @returns BatchApiResponse with success status and individual contract results, or the job_id
+ */
+app.post(
+	"/add-contracts",
+	async ({
+		query,
+		body,
+	}: {
+		query: { async?: boolean };
+		body: AddContractsRequest;
+	}): Promise<BatchApiResponse> => {
+		try {
+			// Validate the entire batch request structure
+			const batchError = validateBatchRequest(body);
+			if (batchError) {
+				return { success: false, results: [], error: batchError };
+			}
+
+			if (query.async) {
+				const job = await enqueueContractJob(client, body.contracts);
+				return { success: true, results: [], job_id: job.id };
+			}
+
+			return await applyContractBatch(body.contracts, client);
+		} catch (error) {
+			const errorMessage =
+				error instanceof Error ? error.message : "Unknown error occurred";
+			console.error("Error adding contracts batch:", errorMessage);
+			return {
+				success: false,
+				results: [],
+				error: `Failed to add contracts: ${errorMessage}`,
+			};
+		}
+	},
+	{
+		beforeHandle: ({ apiKey, body }) =>
+			checkAccess(() =>
+				requireReports(apiKey, "contracts:manage", body.contracts.map(({ report_id }) => report_id)),
+			),
+		query: t.Object({
+			async: t.Optional(t.Boolean({ description: "Queue the batch as a job and return its job_id immediately", default: false }))
+		}),
+		body: AddContractsBodySchema,
+		response: {
+			200: t.Object({
+				success: t.Boolean(),
+				results: t.Array(ContractResultSchema),
+				error: t.Optional(t.String()),
+				job_id: t.Optional(t.String({ description: "Job identifier when queued with async=true" }))
+			}),
+			400: t.Object({
+				success: t.Boolean(),
+				results: t.Array(t.Any()),
+				error: t.String()
+			})
+		},
+		detail: {
+			summary: "Add multiple contracts to Rindexer (batch)",
+			tags: ["Contracts"],
+		}
+	},
+);
+
+/**
+ * POST /add-contracts/validate
+ *
+ * Dry run of POST /add-contracts for CI pipelines. Validates and processes the batch
+ * the same way without writing the mapping table, rindexer.yaml or ABI files.
+ *
+ * @body AddContractsRequest - Array of contract configurations to check
+ * @returns Per-contract results with the rindexer.yaml entry and event tables each
+ *          contract would get, and whether it would be added or update a deployment
+ */
+app.post(
+	"/add-contracts/validate",
+	async ({ body }: { body: AddContractsRequest }): Promise<ContractValidationResponse> => {
+		try {
+			const batchError = validateBatchRequest(body);
+			if (batchError) {
+				return { success: false, results: [], error: batchError };
+			}
+
+			return await validateContractBatch(body.contracts, client);
+		} catch (error) {
+			const errorMessage =
+				error instanceof Error ? error.message : "Unknown error occurred";
+			console.error("Error validating contracts batch:", errorMessage);
+			return {
+				success: false,
+				results: [],
+				error: `Failed to validate contracts: ${errorMessage}`,
+			};
+		}
+	},
+	{
+		beforeHandle: ({ apiKey, body }) =>
+			checkAccess(() =>
+				requireReports(apiKey, "contracts:manage", body.contracts.map(({ report_id }) => report_id)),
+			),
+		body: AddContractsBodySchema,
+		response: {
+			200: t.Object({
+				success: t.Boolean({ description: "Whether every contract is valid" }),
+				results: t.Array(t.Composite([
+					ContractResultSchema,
+					t.Object({
+						rindexer_contract: t.Optional(t.Object({
+							name: t.String(),
+							details: t.Array(t.Object({
+								network: t.String(),
+								address: t.String(),
+								start_block: t.String()
+							})),
+							abi: t.String()
+						}, { description: "The contract's entry in rindexer.yaml once the batch is applied" })),
+						schema_name: t.Optional(t.String())
+					})
+				])),
+				error: t.Optional(t.String())
+			}),
+			400: t.Object({
+				success: t.Boolean(),
+				results: t.Array(t.Any()),
+				error: t.String()
+			})
+		},
+		detail: {
+			summary: "Validate a batch of contracts without registering it",
+			tags: ["Contracts"],
+		}
+	},
+);
+
+/**
+ * GET /jobs/:id
+ *
+ * Reports the progress of a contract registration queued with POST /add-contracts?async=true:
+ * queued, applying (config and ABIs), restarting (rindexer), indexing (done) or failed.
+ *
+ * @param id - Job identifier
+ * @returns The job status with per-contract results
+ */
+app.get(
+	"/jobs/:id",
+	async ({ params }: { params: { id: string } }) => {
+		try {
+			const job = await getContractJob(client, params.id);
+			if (!job) {
+				return { error: `Job "${params.id}" not found` };
+			}
+			return { job };
+		} catch (error) {
+			console.error("Error in /jobs/:id:", error);
+			return { error: "Failed to retrieve job" };
+		}
+	},
+	{
+		beforeHandle: ({ apiKey, params }) =>
+			checkAccess(() => requireJob(client, apiKey, "contracts:manage", params.id)),
+		params: t.Object({
+			id: t.String({ description: "Job identifier (returned by POST /add-contracts?async=true)" })
+		}),
+		response: {
+			200: t.Object({
+				job: t.Object({
+					id: t.String(),
+					status: t.Union([
+						t.Literal("queued"),
+						t.Literal("applying"),
+						t.Literal("restarting"),
+						t.Literal("indexing"),
+						t.Literal("failed")
+					]),
+					contracts: t.Array(t.String(), { description: "Contracts of the batch (contract_name_report_id)" }),
+					results: t.Array(t.Object({
+						contract: t.String(),
+						success: t.Boolean(),
+						message: t.Optional(t.String()),
+						error: t.Optional(t.String())
+					}), { description: "Per-contract results, available once the job is applied" }),
+					error: t.Nullable(t.String()),
+					created_at: t.String(),
+					updated_at: t.String()
+				})
+			}),
+			400: t.Object({
+				error: t.String()
+			})
+		},
+		detail: {
+			summary: "Get the status of a contract registration job",
+			tags: ["Contracts"],
+		}
+	},
+);
+
+const ContractDetailsSchema = t.Array(t.Object({
+	network: t.String(),
+	chain_id: t.Nullable(t.Number({ description: "Chain ID of the network, or null when the network is not configured" })),
+	address: t.String(),
+	start_block: t.String()
+}));
+
+/**
+ * GET /contracts
+ *
+ * Lists every registered contract with its indexing configuration and status.
+ * Joins the mapping table with the contracts section of rindexer.yaml and flags
+ * entries that only exist on one side.
+ *
+ * @query report_id - Optional report identifier filter
+ * @query network - Optional network name filter
+ * @query address - Optional contract address filter (case-insensitive)
+ * @returns Registered contracts and configuration drift
+ */
+app.get(
+	"/contracts",
+	async ({
+		query,
+		apiKey,
+	}: {
+		query: { report_id?: string; network?: string; address?: string };
+		apiKey: ApiKeyContext | null;
+	}) => {
+		try {
+			const inventory = await listContractInventory(client, query);
+			if (!apiKey?.report_ids) {
+				return inventory;
+			}
+
+			// Report-restricted keys only see their own contracts. Config entries without
+			// a mapping row belong to no known report and are left out.
+			return {
+				contracts: inventory.contracts.filter((contract) =>
+					canAccessReport(apiKey, contract.report_id),
+				),
+				drift: {
+					missing_config: inventory.drift.missing_config.filter((contract) =>
+						canAccessReport(apiKey, contract.report_id),
+					),
+					missing_mapping: [],
+				},
+			};
+		} catch (error) {
+			console.error("Error in /contracts:", error);
+			return {
+				error: "Failed to retrieve contracts",
+				contracts: [],
+			};
+		}
+	},
+	{
+		beforeHandle: ({ apiKey }) =>
+			checkAccess(() => requireScope(apiKey, "events:read")),
+		query: t.Object({
+			report_id: t.Optional(t.String({ description: "Only list contracts of this report" })),
+			network: t.Optional(t.String({ description: "Only list contracts deployed on this network" })),
+			address: t.Optional(t.String({ description: "Only list contracts deployed at this address" }))
+		}),
+		response: {
+			200: t.Object({
+				contracts: t.Array(t.Object({
+					contract_name: t.String(),
+					report_id: t.String(),
+					indexer_id: t.String({ description: "Internal indexer identifier" }),
+					details: ContractDetailsSchema,
+					abi_event_count: t.Nullable(t.Number({ description: "Number of events in the stored ABI" })),
+					has_tables: t.Boolean({ description: "Whether the contract schema has event tables yet" }),
+					in_config: t.Boolean({ description: "Whether the contract is present in rindexer.yaml" })
+				})),
+				drift: t.Object({
+					missing_config: t.Array(t.Object({
+						contract_name: t.String(),
+						report_id: t.String(),
+						indexer_id: t.String()
+					}), { description: "Mapping rows with no rindexer.yaml entry" }),
+					missing_mapping: t.Array(t.Object({
+						indexer_id: t.String(),
+						details: ContractDetailsSchema
+					}), { description: "rindexer.yaml entries with no mapping row" })
+				})
+			}),
+			400: t.Object({
+				error: t.String(),
+				contracts: t.Array(t.Any())
+			})
+		},
+		detail: {
+			summary: "List registered contracts",
+			tags: ["Contracts"],
+		}
+	},
+);
+
+/**
+ * GET /contracts/:indexer_id/progress
+ *
+ * Reports how far a contract has been indexed on each network: last indexed block,
+ * configured start block, chain head from the network's RPC, percentage complete and
+ * estimated time remaining. The time remaining needs an earlier call within 10 minutes
+ * to measure the indexing rate.
+ *
+ * @param indexer_id - Internal indexer identifier
+ * @returns Progress per network
+ */
+app.get(
+	"/contracts/:indexer_id/progress",
+	async ({ params }: { params: { indexer_id: string } }) => {
+		try {
+			return await getContractProgress(client, params.indexer_id);
+		} catch (error) {
+			if (error instanceof EventQueryError) {
+				return { error: error.message, indexer_id: params.indexer_id, networks: [] };
+			}
+			console.error("Error in /contracts/:indexer_id/progress:", error);
+			return {
+				error: "Failed to retrieve indexing progress",
+				indexer_id: params.indexer_id,
+				networks: [],
+			};
+		}
+	},
+	{
+		beforeHandle: ({ apiKey, params }) =>
+			checkAccess(() => requireIndexers(client, apiKey, "events:read", [params.indexer_id])),
+		params: t.Object({
+			indexer_id: t.String({ description: "Internal indexer identifier" })
+		}),
+		response: {
+			200: t.Object({
+				indexer_id: t.String(),
+				networks: t.Array(t.Object({
+					network: t.String(),
+					start_block: t.String(),
+					last_indexed_block: t.Nullable(t.String({ description: "Last block indexed on this network" })),
+					chain_head: t.Nullable(t.String({ description: "Latest block of the network" })),
+					lag_blocks: t.Nullable(t.String({ description: "Blocks left to index" })),
+					percent_complete: t.Nullable(t.Number()),
+					blocks_per_second: t.Nullable(t.Number({ description: "Measured indexing rate" })),
+					eta_seconds: t.Nullable(t.Number({ description: "Estimated time until caught up" })),
+					source: t.Nullable(t.Union([
+						t.Literal("rindexer_internal"),
+						t.Literal("event_tables")
+					], { description: "Where last_indexed_block was read from" })),
+					error: t.Nullable(t.String())
+				}))
+			}),
+			400: t.Object({
+				error: t.String(),
+				indexer_id: t.String(),
+				networks: t.Array(t.Any())
+			})
+		},
+		detail: {
+			summary: "Get the indexing progress of a contract",
+			tags: ["Contracts"],
+		}
+	},
+);
+
+/**
+ * DELETE /contracts
+ *
+ * Removes one or more contracts from the indexer.
+ * Drops each contract from the configuration, deletes its ABI file and mapping row,
+ * optionally drops its indexed schema, and restarts the indexer process once.
+ *
+ * A single contract can be removed with the contract_name and report_id query parameters,
+ * or several at once with a RemoveContractsRequest body. Giving a network and/or address
+ * removes only the matching deployments, keeping the contract's other deployments indexed.
+ *
+ * @query contract_name - The contract name (single removal)
+ * @query report_id - The report identifier (single removal)
+ * @query network - Optional network of the deployments to remove (single removal)
+ * @query address - Optional address of the deployments to remove (single removal)
+ * @query drop_schema - Also drop the indexed event schema, or delete the removed deployments' events (single removal)
+ * @body RemoveContractsRequest - Array of contracts to remove (batch removal)
+ * @returns BatchApiResponse with success status and individual contract results
+ */
+app.delete(
+	"/contracts",
+	async ({
+		query,
+		body,
+	}: {
+		query: {
+			contract_name?: string;
+			report_id?: string;
+			network?: string;
+			address?: string;
+			drop_schema?: boolean;
+		};
+		body: Partial<RemoveContractsRequest> | null;
+	}): Promise<BatchApiResponse> => {
+		try {
+			const request: Partial<RemoveContractsRequest> = body?.contracts
+				? body
+				: query.contract_name && query.report_id
+					? {
+							contracts: [
+								{
+									contract_name: query.contract_name,
+									report_id: query.report_id,
+									network: query.network,
+									address: query.address,
+								},
+							],
+							drop_schema: query.drop_schema,
+						}
+					: {};
+
+			const batchError = validateBatchRequest(request);
+			if (batchError) {
+				return { success: false, results: [], error: batchError };
+			}
+
+			// Resolve each contract to its indexer_id
+			const { results, removedContracts } = await resolveContractRemovalBatch(
+				request.contracts!,
+				client,
+			);
+
+			if (removedContracts.length === 0) {
+				return { success: false, results, error: "No valid contracts to remove." };
+			}
+
+			// Contracts that keep some of their deployments keep their ABI file
+			const indexerIds = removedContracts
+				.filter(({ deployment }) => !deployment)
+				.map(({ indexerId }) => indexerId);
+
+			// Apply changes: update config file, delete ABI files and database data
+			await withConfigChange(
+				client,
+				{ source: "DELETE /contracts", request },
+				async () => {
+					await updateRindexerConfig([], indexerIds, removedContracts);
+					await deleteAbiFiles(indexerIds.map((indexerId) => `${indexerId}.abi.json`));
+				},
+			);
+			await deleteContractData(removedContracts, client, request.drop_schema ?? false);
+
+			// Restart the indexer so it stops indexing the removed contracts
+			await requestRindexerRestart();
+
+			return { success: true, results };
+		} catch (error) {
+			const errorMessage =
+				error instanceof Error ? error.message : "Unknown error occurred";
+			console.error("Error removing contracts batch:", errorMessage);
+			return {
+				success: false,
+				results: [],
+				error: `Failed to remove contracts: ${errorMessage}`,
+			};
+		}
+	},
+	{
+		beforeHandle: ({ apiKey, query, body }) =>
+			checkAccess(() =>
+				requireReports(
+					apiKey,
+					"contracts:manage",
+					body?.contracts
+						? body.contracts.map(({ report_id }) => report_id)
+						: query.report_id
+							? [query.report_id]
+							: [],
+				),
+			),
+		query: t.Object({
+			contract_name: t.Optional(t.String({ description: "The contract name" })),
+			report_id: t.Optional(t.String({ description: "The report identifier for this contract instance" })),
+			network: t.Optional(t.String({ description: "Only remove the deployments on this network" })),
+			address: t.Optional(t.String({ description: "Only remove the deployments at this address" })),
+			drop_schema: t.Optional(t.Boolean({ description: "Also drop the indexed event schema, or delete the events of removed deployments", default: false }))
+		}),
+		body: t.Optional(t.Object({
+			contracts: t.Array(t.Object({
+				contract_name: t.String({ description: "The contract name" }),
+				report_id: t.String({ description: "The report identifier for this contract instance" }),
+				network: t.Optional(t.String({ description: "Only remove the deployments on this network" })),
+				address: t.Optional(t.String({ description: "Only remove the deployments at this address" }))
+			})),
+			drop_schema: t.Optional(t.Boolean({ description: "Also drop the indexed event schemas, or delete the events of removed deployments", default: false }))
+		})),
+		response: {
+			200: t.Object({
+				success: t.Boolean(),
+				results: t.Array(t.Object({
+					contract: t.String(),
+					success: t.Boolean(),
+					message: t.Optional(t.String()),
+					error: t.Optional(t.String())
+				})),
+				error: t.Optional(t.String())
+			}),
+			400: t.Object({
+				success: t.Boolean(),
+				results: t.Array(t.Any()),
+				error: t.String()
+			})
+		},
+		detail: {
+			summary: "Remove contracts from Rindexer (single or batch)",
+			tags: ["Contracts"],
+		}
+	},
+);
+
+const NetworkSchema = t.Object({
+	name: t.String(),
+	chain_id: t.Number(),
+	rpc: t.String({ description: "RPC URL or ${VAR_NAME} reference" }),
+	block_poll_frequency: t.Nullable(t.Union([t.String(), t.Number()])),
+	max_block_range: t.Nullable(t.Number()),
+	compute_units_per_second: t.Nullable(t.Number()),
+	rpc_configured: t.Boolean({ description: "Whether the RPC environment variable is set" }),
+	contracts: t.Array(t.String(), { description: "indexer_ids of the contracts deployed on this network" })
+});
+
+/**
+ * GET /networks
+ *
+ * Lists the networks configured in rindexer.yaml and the contracts deployed on each.
+ *
+ * @returns Array of networks
+ */
+app.get(
+	"/networks",
+	async () => {
+		try {
+			return { networks: await listNetworks() };
+		} catch (error) {
+			console.error("Error in /networks:", error);
+			return { error: "Failed to retrieve networks", networks: [] };
+		}
+	},
+	{
+		beforeHandle: ({ apiKey }) =>
+			checkAccess(() => requireScope(apiKey, "contracts:manage")),
+		response: {
+			200: t.Object({
+				networks: t.Array(NetworkSchema)
+			}),
+			400: t.Object({
+				error: t.String(),
+				networks: t.Array(t.Any())
+			})
+		},
+		detail: {
+			summary: "List configured networks",
+			tags: ["Networks"],
+		}
+	},
+);
+
+/**
+ * POST /networks
+ *
+ * Adds a network to rindexer.yaml, or replaces the network with the same name.
+ * The RPC defaults to the ${name_ENDPOINT} environment variable. It only has to be set
+ * once contracts are deployed on the network, in which case the indexer is restarted.
+ *
+ * @body NetworkRequest - Network name, chain ID, RPC reference and block-poll settings
+ * @returns The saved network
+ */
+app.post(
+	"/networks",
+	async ({ body }: { body: NetworkRequest }) => {
+		try {
+			return { success: true, ...(await saveNetwork(client, body)) };
+		} catch (error) {
+			if (error instanceof NetworkError) {
+				return { success: false, error: error.message };
+			}
+			console.error("Error in /networks:", error);
+			return { success: false, error: "Failed to save network" };
+		}
+	},
+	{
+		beforeHandle: ({ apiKey }) =>
+			checkAccess(() => requireScope(apiKey, "admin")),
+		body: t.Object({
+			name: t.String({ description: "Network name, referenced by contracts" }),
+			chain_id: t.Number({ description: "Chain ID" }),
+			rpc: t.Optional(t.String({ description: "RPC URL or ${VAR_NAME} reference (default: ${name_ENDPOINT})" })),
+			block_poll_frequency: t.Optional(t.Union([t.String(), t.Number()], { description: "Rindexer block poll frequency, e.g. \"rapid\" or milliseconds" })),
+			max_block_range: t.Optional(t.Number({ description: "Maximum block range per log request" })),
+			compute_units_per_second: t.Optional(t.Number({ description: "RPC rate limit in compute units per second" }))
+		}),
+		response: {
+			200: t.Object({
+				success: t.Boolean(),
+				network: NetworkSchema,
+				created: t.Boolean({ description: "False when an existing network was replaced" })
+			}),
+			400: t.Object({
+				success: t.Boolean(),
+				error: t.String()
+			})
+		},
+		detail: {
+			summary: "Add or replace a network",
+			tags: ["Networks"],
+		}
+	},
+);
+
+/**
+ * DELETE /networks/:name
+ *
+ * Removes a network from rindexer.yaml. Networks with contracts deployed on them
+ * cannot be removed.
+ *
+ * @param name - Network name
+ */
+app.delete(
+	"/networks/:name",
+	async ({ params }: { params: { name: string } }) => {
+		try {
+			await removeNetwork(client, params.name);
+			return { success: true };
+		} catch (error) {
+			if (error instanceof NetworkError) {
+				return { success: false, error: error.message };
+			}
+			console.error("Error in /networks/:name:", error);
+			return { success: false, error: "Failed to remove network" };
+		}
+	},
+	{
+		beforeHandle: ({ apiKey }) =>
+			checkAccess(() => requireScope(apiKey, "admin")),
+		params: t.Object({
+			name: t.String({ description: "Network name" })
+		}),
+		response: {
+			200: t.Object({
+				success: t.Boolean(),
+				error: t.Optional(t.String())
+			})
+		},
+		detail: {
+			summary: "Remove a network",
+			tags: ["Networks"],
+		}
+	},
+);
+
+/**
+ * GET /config/versions
+ *
+ * Lists the stored versions of rindexer.yaml, newest first, with the request that
+ * produced each one. Changes made outside the API are listed with the source "external".
+ *
+ * @query limit - Optional number of versions to return (default: 50, max: 500)
+ * @query before_id - Optional version id to list older versions from
+ * @returns Array of versions
+ */
+app.get(
+	"/config/versions",
+	async ({ query }: { query: { limit?: number; before_id?: number } }) => {
+		try {
+			return { versions: await listConfigVersions(client, query) };
+		} catch (error) {
+			console.error("Error in /config/versions:", error);
+			return { error: "Failed to retrieve configuration versions", versions: [] };
+		}
+	},
+	{
+		beforeHandle: ({ apiKey }) =>
+			checkAccess(() => requireScope(apiKey, "admin")),
+		query: t.Object({
+			limit: t.Optional(t.Number({ description: "Number of versions to return (default: 50, max: 500)" })),
+			before_id: t.Optional(t.Number({ description: "Only list versions older than this one" }))
+		}),
+		response: {
+			200: t.Object({
+				versions: t.Array(t.Object({
+					id: t.Number(),
+					source: t.String({ description: 'Endpoint that made the change, or "external"' }),
+					request: t.Any({ description: "Request that made the change" }),
+					created_at: t.String()
+				}))
+			}),
+			400: t.Object({
+				error: t.String(),
+				versions: t.Array(t.Any())
+			})
+		},
+		detail: {
+			summary: "List configuration versions",
+			tags: ["Config"],
+		}
+	},
+);
+
+/**
+ * GET /config/versions/:id/diff
+ *
+ * Compares a version of rindexer.yaml with the version before it, or with the version
+ * given as against. ABI files are compared by path.
+ *
+ * @param id - Version id
+ * @query against - Optional version id to compare with
+ * @returns Unified diff of rindexer.yaml and the added, removed and changed ABI files
+ */
+app.get(
+	"/config/versions/:id/diff",
+	async ({
+		params,
+		query,
+	}: {
+		params: { id: number };
+		query: { against?: number };
+	}) => {
+		try {
+			return await diffConfigVersions(client, params.id, query.against);
+		} catch (error) {
+			if (error instanceof ConfigVersionError) {
+				return { error: error.message };
+			}
+			console.error("Error in /config/versions/:id/diff:", error);
+			return { error: "Failed to compare configuration versions" };
+		}
+	},
+	{
+		beforeHandle: ({ apiKey }) =>
+			checkAccess(() => requireScope(apiKey, "admin")),
+		params: t.Object({
+			id: t.Number({ description: "Version id" })
+		}),
+		query: t.Object({
+			against: t.Optional(t.Number({ description: "Version id to compare with (default: the previous version)" }))
+		}),
+		response: {
+			200: t.Object({
+				id: t.Number(),
+				against: t.Nullable(t.Number()),
+				config_diff: t.String({ description: "Unified diff of rindexer.yaml, empty when unchanged" }),
+				abis: t.Object({
+					added: t.Array(t.String()),
+					removed: t.Array(t.String()),
+					changed: t.Array(t.String())
+				})
+			}),
+			400: t.Object({
+				error: t.String()
+			})
+		},
+		detail: {
+			summary: "Compare configuration versions",
+			tags: ["Config"],
+		}
+	},
+);
+
+/**
+ * POST /config/rollback/:id
+ *
+ * Restores rindexer.yaml and the ABI files of a stored version, records the result as a
+ * new version and restarts the indexer. Mapping rows and indexed data are not changed.
+ *
+ * @param id - Version id to restore
+ */
+app.post(
+	"/config/rollback/:id",
+	async ({ params }: { params: { id: number } }) => {
+		try {
+			await rollbackConfig(client, params.id);
+			return { success: true, restored_version: params.id };
+		} catch (error) {
+			if (error instanceof ConfigVersionError) {
+				return { success: false, error: error.message };
+			}
+			const errorMessage =
+				error instanceof Error ? error.message : "Unknown error occurred";
+			console.error("Error in /config/rollback/:id:", errorMessage);
+			return {
+				success: false,
+				error: `Failed to roll back configuration: ${errorMessage}`,
+			};
+		}
+	},
+	{
+		beforeHandle: ({ apiKey }) =>
+			checkAccess(() => requireScope(apiKey, "admin")),
+		params: t.Object({
+			id: t.Number({ description: "Version id to restore" })
+		}),
+		response: {
+			200: t.Object({
+				success: t.Boolean(),
+				restored_version: t.Optional(t.Number()),
+				error: t.Optional(t.String())
+			})
+		},
+		detail: {
+			summary: "Roll back rindexer.yaml to a stored version",
+			tags: ["Config"],
+		}
+	},
+);
+
+const WebhookSchema = t.Object({
+	id: t.String(),
+	contract_name: t.String(),
+	report_id: t.String(),
+	indexer_id: t.String(),
+	url: t.String(),
+	event_names: t.Nullable(t.Array(t.String())),
+	created_at: t.String()
+});
+
+/**
+ * POST /webhooks
+ *
+ * Registers a webhook that receives newly indexed events of a contract.
+ * Payloads are signed with HMAC-SHA256 over "{X-Webhook-Timestamp}.{body}" in the
+ * X-Webhook-Signature header. The secret is generated unless provided and is only
+ * returned by this endpoint.
+ *
+ * @body CreateWebhookRequest - Contract, receiver URL and optional event names
+ * @returns The created webhook including its secret
+ */
+app.post(
+	"/webhooks",
+	async ({ body }: { body: CreateWebhookRequest }) => {
+		try {
+			const webhook = await createWebhook(client, body);
+			return { success: true, webhook };
+		} catch (error) {
+			if (error instanceof WebhookError) {
+				return { success: false, error: error.message };
+			}
+			console.error("Error in /webhooks:", error);
+			return { success: false, error: "Failed to create webhook" };
+		}
+	},
+	{
+		beforeHandle: ({ apiKey, body }) =>
+			checkAccess(() => requireReports(apiKey, "contracts:manage", [body.report_id])),
+		body: t.Object({
+			contract_name: t.String({ description: "The contract name" }),
+			report_id: t.String({ description: "The report identifier for this contract instance" }),
+			url: t.String({ description: "Receiver URL that events are POSTed to" }),
+			event_names: t.Optional(t.Array(t.String(), { description: "Event names to deliver (default: all events)" })),
+			secret: t.Optional(t.String({ description: "Signing secret (default: randomly generated)" }))
+		}),
+		response: {
+			200: t.Object({
+				success: t.Boolean(),
+				webhook: t.Composite([WebhookSchema, t.Object({ secret: t.String() })])
+			}),
+			400: t.Object({
+				success: t.Boolean(),
+				error: t.String()
+			})
+		},
+		detail: {
+			summary: "Register an event webhook",
+			tags: ["Webhooks"],
+		}
+	},
+);
+
+/**
+ * GET /webhooks
+ *
+ * Lists registered webhooks, optionally for one contract or report.
+ *
+ * @query contract_name - Optional contract name filter
+ * @query report_id - Optional report identifier filter
+ * @returns Array of webhooks (without secrets)
+ */
+app.get(
+	"/webhooks",
+	async ({
+		query,
+		apiKey,
+	}: {
+		query: { contract_name?: string; report_id?: string };
+		apiKey: ApiKeyContext | null;
+	}) => {
+		try {
+			const webhooks = await listWebhooks(client, query);
+			return {
+				webhooks: apiKey
+					? webhooks.filter((webhook) => canAccessReport(apiKey, webhook.report_id))
+					: webhooks,
+			};
+		} catch (error) {
+			console.error("Error in /webhooks:", error);
+			return { error: "Failed to retrieve webhooks", webhooks: [] };
+		}
+	},
+	{
+		beforeHandle: ({ apiKey }) =>
+			checkAccess(() => requireScope(apiKey, "contracts:manage")),
+		query: t.Object({
+			contract_name: t.Optional(t.String({ description: "The contract name" })),
+			report_id: t.Optional(t.String({ description: "The report identifier" }))
+		}),
+		response: {
+			200: t.Object({
+				webhooks: t.Array(WebhookSchema)
+			}),
+			400: t.Object({
+				error: t.String(),
+				webhooks: t.Array(t.Any())
+			})
+		},
+		detail: {
+			summary: "List event webhooks",
+			tags: ["Webhooks"],
+		}
+	},
+);
+
+/**
+ * DELETE /webhooks/:id
+ *
+ * Removes a webhook along with its delivery log and dead letters.
+ *
+ * @param id - Webhook identifier
+ */
+app.delete(
+	"/webhooks/:id",
+	async ({ params }: { params: { id: string } }) => {
+		try {
+			await deleteWebhook(client, params.id);
+			return { success: true };
+		} catch (error) {
+			if (error instanceof WebhookError) {
+				return { success: false, error: error.message };
+			}
+			console.error("Error in /webhooks/:id:", error);
+			return { success: false, error: "Failed to delete webhook" };
+		}
+	},
+	{
+		beforeHandle: ({ apiKey, params }) =>
+			checkAccess(() => requireWebhook(client, apiKey, "contracts:manage", params.id)),
+		params: t.Object({
+			id: t.String({ description: "Webhook identifier" })
+		}),
+		response: {
+			200: t.Object({
+				success: t.Boolean(),
+				error: t.Optional(t.String())
+			})
+		},
+		detail: {
+			summary: "Delete an event webhook",
+			tags: ["Webhooks"],
+		}
+	},
+);
+
+/**
+ * GET /webhooks/:id/deliveries
+ *
+ * Returns the delivery log of a webhook, newest first.
+ *
+ * @param id - Webhook identifier
+ * @query status - Optional status filter: pending, succeeded or dead
+ * @query limit - Optional number of deliveries to return (default: 50)
+ * @returns Array of deliveries with their attempts and last error
+ */
+app.get(
+	"/webhooks/:id/deliveries",
+	async ({
+		params,
+		query,
+	}: {
+		params: { id: string };
+		query: { status?: WebhookDeliveryStatus; limit?: number };
+	}) => {
+		try {
+			return {
+				deliveries: await listWebhookDeliveries(client, params.id, query),
+			};
+		} catch (error) {
+			if (error instanceof WebhookError) {
+				return { error: error.message, deliveries: [] };
+			}
+			console.error("Error in /webhooks/:id/deliveries:", error);
+			return { error: "Failed to retrieve webhook deliveries", deliveries: [] };
+		}
+	},
+	{
+		beforeHandle: ({ apiKey, params }) =>
+			checkAccess(() => requireWebhook(client, apiKey, "contracts:manage", params.id)),
+		params: t.Object({
+			id: t.String({ description: "Webhook identifier" })
+		}),
+		query: t.Object({
+			status: t.Optional(t.Union([
+				t.Literal("pending"),
+				t.Literal("succeeded"),
+				t.Literal("dead")
+			], { description: "Delivery status" })),
+			limit: t.Optional(t.Number({ description: "Number of deliveries to return (default: 50)" }))
+		}),
+		response: {
+			200: t.Object({
+				deliveries: t.Array(t.Object({
+					id: t.String(),
+					event_name: t.String(),
+					status: t.String(),
+					attempts: t.Number(),
+					next_attempt_at: t.Nullable(t.String()),
+					last_status_code: t.Nullable(t.Number()),
+					last_error: t.Nullable(t.String()),
+					created_at: t.String(),
+					delivered_at: t.Nullable(t.String()),
+					event_count: t.Number()
+				}))
+			}),
+			400: t.Object({
+				error: t.String(),
+				deliveries: t.Array(t.Any())
+			})
+		},
+		detail: {
+			summary: "Get the delivery log of a webhook",
+			tags: ["Webhooks"],
+		}
+	},
+);
+
+/**
+ * POST /webhooks/:id/deliveries/:delivery_id/retry
+ *
+ * Requeues a dead-lettered delivery with a fresh retry budget.
+ *
+ * @param id - Webhook identifier
+ * @param delivery_id - Delivery identifier
+ */
+app.post(
+	"/webhooks/:id/deliveries/:delivery_id/retry",
+	async ({ params }: { params: { id: string; delivery_id: string } }) => {
+		try {
+			await retryWebhookDelivery(client, params.id, params.delivery_id);
+			return { success: true };
+		} catch (error) {
+			if (error instanceof WebhookError) {
+				return { success: false, error: error.message };
+			}
+			console.error("Error in /webhooks/:id/deliveries/:delivery_id/retry:", error);
+			return { success: false, error: "Failed to retry webhook delivery" };
+		}
+	},
+	{
+		beforeHandle: ({ apiKey, params }) =>
+			checkAccess(() => requireWebhook(client, apiKey, "contracts:manage", params.id)),
+		params: t.Object({
+			id: t.String({ description: "Webhook identifier" }),
+			delivery_id: t.String({ description: "Delivery identifier" })
+		}),
+		response: {
+			200: t.Object({
+				success: t.Boolean(),
+				error: t.Optional(t.String())
+			})
+		},
+		detail: {
+			summary: "Retry a dead-lettered webhook delivery",
+			tags: ["Webhooks"],
+		}
+	},
+);
+
+const RetentionPolicySchema = t.Object({
+	id: t.Number(),
+	indexer_id: t.Nullable(t.String({ description: "Contract the policy applies to, or null for every contract" })),
+	network: t.Nullable(t.String({ description: "Network the policy applies to, or null for every network" })),
+	keep_days: t.Nullable(t.Number()),
+	keep_blocks: t.Nullable(t.Number()),
+	delete_when_archived: t.Boolean(),
+	created_at: t.String(),
+	updated_at: t.String()
+});
+
+const RetentionRunSchema = t.Object({
+	id: t.Number(),
+	trigger: t.Union([t.Literal("schedule"), t.Literal("manual")]),
+	rows_deleted: t.Number(),
+	bytes_reclaimed: t.Number({ description: "Size of the deleted rows, reusable after the tables are vacuumed" }),
+	tables: t.Array(t.Object({
+		indexer_id: t.String(),
+		event_name: t.String(),
+		network: t.String(),
+		policy_id: t.Number(),
+		rows_deleted: t.Number(),
+		bytes_reclaimed: t.Number(),
+		error: t.Optional(t.String())
+	}), { description: "Event tables rows were deleted from, or pruning failed for" }),
+	started_at: t.String(),
+	finished_at: t.String()
+});
+
+/**
+ * GET /retention/policies
+ *
+ * Lists the retention policies. The most specific policy applies to each deployment
+ * of a contract: the one for the contract on its network, then the one for the
+ * contract, then the one for the network.
+ *
+ * @returns Array of policies
+ */
+app.get(
+	"/retention/policies",
+	async () => {
+		try {
+			return { policies: await listRetentionPolicies(client) };
+		} catch (error) {
+			console.error("Error in /retention/policies:", error);
+			return { error: "Failed to retrieve retention policies", policies: [] };
+		}
+	},
+	{
+		beforeHandle: ({ apiKey }) =>
+			checkAccess(() => requireScope(apiKey, "admin")),
+		response: {
+			200: t.Object({
+				policies: t.Array(RetentionPolicySchema),
+				error: t.Optional(t.String())
+			})
+		},
+		detail: {
+			summary: "List retention policies",
+			tags: ["Retention"],
+		}
+	},
+);
+
+/**
+ * POST /retention/policies
+ *
+ * Adds a retention policy for a contract, a network or a contract on one network, or
+ * replaces the policy with the same scope. Events older than keep_days or keep_blocks
+ * are deleted by the next pruning run; with delete_when_archived, all events of the
+ * contracts of archived reports are.
+ *
+ * @body RetentionPolicyRequest - Scope and rules of the policy
+ * @returns The saved policy
+ */
+app.post(
+	"/retention/policies",
+	async ({ body }: { body: RetentionPolicyRequest }) => {
+		try {
+			return { success: true, ...(await saveRetentionPolicy(client, body)) };
+		} catch (error) {
+			if (error instanceof RetentionError) {
+				return { success: false, error: error.message };
+			}
+			console.error("Error in /retention/policies:", error);
+			return { success: false, error: "Failed to save retention policy" };
+		}
+	},
+	{
+		beforeHandle: ({ apiKey }) =>
+			checkAccess(() => requireScope(apiKey, "admin")),
+		body: t.Object({
+			indexer_id: t.Optional(t.String({ description: "Contract the policy applies to" })),
+			network: t.Optional(t.String({ description: "Network the policy applies to" })),
+			keep_days: t.Optional(t.Number({ description: "Keep the events of this many days" })),
+			keep_blocks: t.Optional(t.Number({ description: "Keep the events of this many latest blocks" })),
+			delete_when_archived: t.Optional(t.Boolean({ description: "Delete every event once the contract's report is archived (default: false)" }))
+		}),
+		response: {
+			200: t.Object({
+				success: t.Boolean(),
+				policy: RetentionPolicySchema,
+				created: t.Boolean({ description: "False when an existing policy was replaced" })
+			}),
+			400: t.Object({
+				success: t.Boolean(),
+				error: t.String()
+			})
+		},
+		detail: {
+			summary: "Add or replace a retention policy",
+			tags: ["Retention"],
+		}
+	},
+);
+
+/**
+ * DELETE /retention/policies/:id
+ *
+ * Removes a retention policy. Events already deleted are not restored.
+ *
+ * @param id - Policy id
+ */
+app.delete(
+	"/retention/policies/:id",
+	async ({ params }: { params: { id: number } }) => {
+		try {
+			await deleteRetentionPolicy(client, params.id);
+			return { success: true };
+		} catch (error) {
+			if (error instanceof RetentionError) {
+				return { success: false, error: error.message };
+			}
+			console.error("Error in /retention/policies/:id:", error);
+			return { success: false, error: "Failed to remove retention policy" };
+		}
+	},
+	{
+		beforeHandle: ({ apiKey }) =>
+			checkAccess(() => requireScope(apiKey, "admin")),
+		params: t.Object({
+			id: t.Number({ description: "Policy id" })
+		}),
+		response: {
+			200: t.Object({
+				success: t.Boolean(),
+				error: t.Optional(t.String())
+			})
+		},
+		detail: {
+			summary: "Remove a retention policy",
+			tags: ["Retention"],
+		}
+	},
+);
+
+/**
+ * GET /retention/archived-reports
+ *
+ * Lists the archived reports, newest first.
+ *
+ * @returns Array of archived reports
+ */
+app.get(
+	"/retention/archived-reports",
+	async () => {
+		try {
+			return { reports: await listArchivedReports(client) };
+		} catch (error) {
+			console.error("Error in /retention/archived-reports:", error);
+			return { error: "Failed to retrieve archived reports", reports: [] };
+		}
+	},
+	{
+		beforeHandle: ({ apiKey }) =>
+			checkAccess(() => requireScope(apiKey, "admin")),
+		response: {
+			200: t.Object({
+				reports: t.Array(t.Object({
+					report_id: t.String(),
+					archived_at: t.String()
+				})),
+				error: t.Optional(t.String())
+			})
+		},
+		detail: {
+			summary: "List archived reports",
+			tags: ["Retention"],
+		}
+	},
+);
+
+/**
+ * POST /retention/archived-reports
+ *
+ * Archives a report. The next pruning run deletes the events of its contracts where
+ * the applicable policy has delete_when_archived.
+ *
+ * @body report_id - Report to archive
+ * @returns The archived report
+ */
+app.post(
+	"/retention/archived-reports",
+	async ({ body }: { body: { report_id: string } }) => {
+		try {
+			return { success: true, report: await archiveReport(client, body.report_id) };
+		} catch (error) {
+			console.error("Error in /retention/archived-reports:", error);
+			return { success: false, error: "Failed to archive report" };
+		}
+	},
+	{
+		beforeHandle: ({ apiKey }) =>
+			checkAccess(() => requireScope(apiKey, "admin")),
+		body: t.Object({
+			report_id: t.String({ minLength: 1, description: "Report to archive" })
+		}),
+		response: {
+			200: t.Object({
+				success: t.Boolean(),
+				report: t.Optional(t.Object({
+					report_id: t.String(),
+					archived_at: t.String()
+				})),
+				error: t.Optional(t.String())
+			})
+		},
+		detail: {
+			summary: "Archive a report",
+			tags: ["Retention"],
+		}
+	},
+);
+
+/**
+ * DELETE /retention/archived-reports/:report_id
+ *
+ * Unarchives a report. Events already deleted are not restored.
+ *
+ * @param report_id - Archived report
+ */
+app.delete(
+	"/retention/archived-reports/:report_id",
+	async ({ params }: { params: { report_id: string } }) => {
+		try {
+			await unarchiveReport(client, params.report_id);
+			return { success: true };
+		} catch (error) {
+			if (error instanceof RetentionError) {
+				return { success: false, error: error.message };
+			}
+			console.error("Error in /retention/archived-reports/:report_id:", error);
+			return { success: false, error: "Failed to unarchive report" };
+		}
+	},
+	{
+		beforeHandle: ({ apiKey }) =>
+			checkAccess(() => requireScope(apiKey, "admin")),
+		params: t.Object({
+			report_id: t.String({ description: "Archived report" })
+		}),
+		response: {
+			200: t.Object({
+				success: t.Boolean(),
+				error: t.Optional(t.String())
+			})
+		},
+		detail: {
+			summary: "Unarchive a report",
+			tags: ["Retention"],
+		}
+	},
+);
+
+/**
+ * POST /retention/run
+ *
+ * Applies the retention policies now instead of waiting for the next scheduled run,
+ * and returns once the run has finished.
+ *
+ * @returns The run, or null when no policy is defined
+ */
+app.post(
+	"/retention/run",
+	async () => {
+		try {
+			return { success: true, run: await runRetentionPolicies() };
+		} catch (error) {
+			if (error instanceof RetentionError) {
+				return { success: false, error: error.message };
+			}
+			console.error("Error in /retention/run:", error);
+			return { success: false, error: "Failed to apply retention policies" };
+		}
+	},
+	{
+		beforeHandle: ({ apiKey }) =>
+			checkAccess(() => requireScope(apiKey, "admin")),
+		response: {
+			200: t.Object({
+				success: t.Boolean(),
+				run: t.Optional(t.Nullable(RetentionRunSchema)),
+				error: t.Optional(t.String())
+			})
+		},
+		detail: {
+			summary: "Apply the retention policies now",
+			tags: ["Retention"],
+		}
+	},
+);
+
+/**
+ * GET /retention/runs
+ *
+ * Lists pruning runs, newest first, with the rows and bytes each one reclaimed and
+ * the totals over every run.
+ *
+ * @query limit - Optional number of runs to return (default: 20, max: 200)
+ * @query before_id - Optional run id to list older runs from
+ * @returns Array of runs and totals
+ */
+app.get(
+	"/retention/runs",
+	async ({ query }: { query: { limit?: number; before_id?: number } }) => {
+		try {
+			return await listRetentionRuns(client, query);
+		} catch (error) {
+			console.error("Error in /retention/runs:", error);
+			return {
+				error: "Failed to retrieve retention runs",
+				runs: [],
+				totals: { rows_deleted: 0, bytes_reclaimed: 0 }
+			};
+		}
+	},
+	{
+		beforeHandle: ({ apiKey }) =>
+			checkAccess(() => requireScope(apiKey, "admin")),
+		query: t.Object({
+			limit: t.Optional(t.Number({ description: "Number of runs to return (default: 20, max: 200)" })),
+			before_id: t.Optional(t.Number({ description: "Only list runs older than this one" }))
+		}),
+		response: {
+			200: t.Object({
+				runs: t.Array(RetentionRunSchema),
+				totals: t.Object({
+					rows_deleted: t.Number(),
+					bytes_reclaimed: t.Number()
+				}),
+				error: t.Optional(t.String())
+			})
+		},
+		detail: {
+			summary: "List pruning runs",
+			tags: ["Retention"],
+		}
+	},
+);
+
+const IndexerStatusSchema = t.Object({
+	state: t.Union([
+		t.Literal("running"),
+		t.Literal("backoff"),
+		t.Literal("crash_loop"),
+		t.Literal("stopped")
+	], { description: "backoff: waiting to restart after a crash; crash_loop: automatic restarts gave up" }),
+	pid: t.Nullable(t.Number()),
+	binary_path: t.String(),
+	started_at: t.Nullable(t.String()),
+	consecutive_failures: t.Number(),
+	next_restart_at: t.Nullable(t.String()),
+	exits: t.Array(t.Object({
+		pid: t.Nullable(t.Number()),
+		started_at: t.String(),
+		exited_at: t.String(),
+		exit_code: t.Nullable(t.Number()),
+		signal: t.Nullable(t.String()),
+		expected: t.Boolean({ description: "Whether the exit was requested rather than a crash" }),
+		error: t.Nullable(t.String())
+	}), { description: "Most recent exits, newest first" })
+});
+
+/**
+ * GET /indexer/status
+ *
+ * Reports the state of the supervised rindexer process and its recent exits.
+ *
+ * @returns IndexerStatus
+ */
+app.get(
+	"/indexer/status",
+	() => ({ status: getRindexerStatus() }),
+	{
+		beforeHandle: ({ apiKey }) =>
+			checkAccess(() => requireScope(apiKey, "admin")),
+		response: {
+			200: t.Object({
+				status: IndexerStatusSchema
+			})
+		},
+		detail: {
+			summary: "Get the indexer process status",
+			tags: ["Indexer"],
+		}
+	},
+);
+
+/**
+ * POST /indexer/:action
+ *
+ * Starts, stops or restarts the rindexer process. A stopped indexer is not restarted
+ * automatically, and configuration changes made meanwhile apply when it is started.
+ * Starting also clears a crash loop.
+ *
+ * @param action - start, stop or restart
+ * @returns The resulting IndexerStatus
+ */
+app.post(
+	"/indexer/:action",
+	async ({ params }: { params: { action: "start" | "stop" | "restart" } }) => {
+		try {
+			if (params.action === "start") {
+				await startRindexerProcess();
+			} else if (params.action === "stop") {
+				await stopRindexerProcess();
+			} else {
+				await restartRindexerProcess();
+			}
+			return { success: true, status: getRindexerStatus() };
+		} catch (error) {
+			console.error(`Error in /indexer/${params.action}:`, error);
+			return {
+				success: false,
+				error: `Failed to ${params.action} the indexer`,
+				status: getRindexerStatus(),
+			};
+		}
+	},
+	{
+		beforeHandle: ({ apiKey }) =>
+			checkAccess(() => requireScope(apiKey, "admin")),
+		params: t.Object({
+			action: t.Union([
+				t.Literal("start"),
+				t.Literal("stop"),
+				t.Literal("restart")
+			], { description: "Action to perform" })
+		}),
+		response: {
+			200: t.Object({
+				success: t.Boolean(),
+				error: t.Optional(t.String()),
+				status: IndexerStatusSchema
+			})
+		},
+		detail: {
+			summary: "Start, stop or restart the indexer process",
+			tags: ["Indexer"],
+		}
+	},
+);
+
+const IndexerLogLevelSchema = t.Union([
+	t.Literal("trace"),
+	t.Literal("debug"),
+	t.Literal("info"),
+	t.Literal("warn"),
+	t.Literal("error")
+], { description: "Minimum level to include" });
+
+/**
+ * GET /indexer/logs
+ *
+ * Returns recent rindexer output, oldest first. Lines come from the indexer_logs table
+ * when INDEXER_LOGS_PERSIST=true, otherwise from an in-memory buffer.
+ *
+ * @query level - Optional minimum level
+ * @query indexer_id - Optional contract the line mentions
+ * @query network - Optional network the line mentions
+ * @query from_time - Optional start of the time range (ISO-8601 or unix seconds)
+ * @query to_time - Optional end of the time range (ISO-8601 or unix seconds)
+ * @query limit - Optional number of lines (default: 200, max: 1000)
+ * @returns Array of log lines
+ */
+app.get(
+	"/indexer/logs",
+	async ({
+		query,
+	}: {
+		query: {
+			level?: IndexerLogLevel;
+			indexer_id?: string;
+			network?: string;
+			from_time?: string;
+			to_time?: string;
+			limit?: number;
+		};
+	}) => {
+		try {
+			return {
+				logs: await queryIndexerLogs(client, {
+					level: query.level,
+					indexer_id: query.indexer_id,
+					network: query.network,
+					from_time: parseTimeParam("from_time", query.from_time),
+					to_time: parseTimeParam("to_time", query.to_time),
+					limit: query.limit,
+				}),
+			};
+		} catch (error) {
+			if (error instanceof EventQueryError) {
+				return { error: error.message, logs: [] };
+			}
+			console.error("Error in /indexer/logs:", error);
+			return { error: "Failed to retrieve indexer logs", logs: [] };
+		}
+	},
+	{
+		beforeHandle: ({ apiKey }) =>
+			checkAccess(() => requireScope(apiKey, "admin")),
+		query: t.Object({
+			level: t.Optional(IndexerLogLevelSchema),
+			indexer_id: t.Optional(t.String({ description: "Only lines mentioning this contract" })),
+			network: t.Optional(t.String({ description: "Only lines mentioning this network" })),
+			from_time: t.Optional(t.String({ description: "Earliest time to include (ISO-8601 or unix seconds)" })),
+			to_time: t.Optional(t.String({ description: "Latest time to include (ISO-8601 or unix seconds)" })),
+			limit: t.Optional(t.Number({ description: `Number of lines (default: ${APP_CONSTANTS.INDEXER_LOGS.DEFAULT_LIMIT}, max: ${APP_CONSTANTS.INDEXER_LOGS.MAX_LIMIT})` }))
+		}),
+		response: {
+			200: t.Object({
+				logs: t.Array(t.Object({
+					logged_at: t.String(),
+					stream: t.String(),
+					level: t.String(),
+					indexer_id: t.Nullable(t.String()),
+					network: t.Nullable(t.String()),
+					message: t.String()
+				}))
+			}),
+			400: t.Object({
+				error: t.String(),
+				logs: t.Array(t.Any())
+			})
+		},
+		detail: {
+			summary: "Get indexer logs",
+			tags: ["Indexer"],
+		}
+	},
+);
+
+/**
+ * GET /indexer/logs/tail
+ *
+ * Streams new rindexer output as Server-Sent Events, one "log" event per line.
+ *
+ * @query level, indexer_id, network - Same filters as /indexer/logs
+ */
+app.get(
+	"/indexer/logs/tail",
+	({
+		query,
+	}: {
+		query: { level?: IndexerLogLevel; indexer_id?: string; network?: string };
+	}) => {
+		let unsubscribe: (() => void) | undefined;
+		let heartbeat: ReturnType<typeof setInterval> | undefined;
+
+		const stream = new ReadableStream<Uint8Array>(
+			{
+				start(controller) {
+					// Stop following once the client is gone or too far behind
+					const send = (message: string) => {
+						if (!enqueueServerSentEvent(controller, message)) {
+							clearInterval(heartbeat);
+							unsubscribe?.();
+							closeServerSentEvents(controller);
+						}
+					};
+
+					unsubscribe = followIndexerLogs(query, (entry) =>
+						send(`event: log\ndata: ${JSON.stringify(entry)}\n\n`),
+					);
+
+					// Comment lines keep proxies from closing idle connections
+					heartbeat = setInterval(
+						() => send(": ping\n\n"),
+						APP_CONSTANTS.SUBSCRIPTION_HEARTBEAT_MS,
+					);
+				},
+				cancel() {
+					clearInterval(heartbeat);
+					unsubscribe?.();
+				},
+			},
+			new CountQueuingStrategy({ highWaterMark: APP_CONSTANTS.SSE_MAX_QUEUED_MESSAGES }),
+		);
+
+		return new Response(stream, {
+			headers: {
+				"Content-Type": "text/event-stream",
+				"Cache-Control": "no-cache",
+				Connection: "keep-alive",
+			},
+		});
+	},
+	{
+		beforeHandle: ({ apiKey }) =>
+			checkAccess(() => requireScope(apiKey, "admin")),
+		query: t.Object({
+			level: t.Optional(IndexerLogLevelSchema),
+			indexer_id: t.Optional(t.String({ description: "Only lines mentioning this contract" })),
+			network: t.Optional(t.String({ description: "Only lines mentioning this network" }))
+		}),
+		response: {
+			200: t.Any({ description: "text/event-stream of log lines" })
+		},
+		detail: {
+			summary: "Follow indexer logs (Server-Sent Events)",
+			tags: ["Indexer"],
+		}
+	},
+);
+
+const ApiKeySchema = t.Object({
+	id: t.String(),
+	name: t.String(),
+	key_prefix: t.String({ description: "First characters of the key, to recognize it" }),
+	scopes: t.Array(t.String()),
+	report_ids: t.Nullable(t.Array(t.String(), { description: "Reports the key is restricted to (null: all reports)" })),
+	created_at: t.String(),
+	last_used_at: t.Nullable(t.String()),
+	revoked_at: t.Nullable(t.String())
+});
+
+/**
+ * POST /api-keys
+ *
+ * Creates an API key. Scopes are events:read (event queries, subscriptions and
+ * contract listing), contracts:manage (adding and removing contracts, webhooks) and
+ * admin (everything, including key management). Keys with report_ids can only
+ * access contracts of those reports. The key is only returned by this endpoint.
+ *
+ * @body CreateApiKeyRequest - Key name, scopes and optional report restriction
+ * @returns The created API key including the plaintext key
+ */
+app.post(
+	"/api-keys",
+	async ({ body }: { body: CreateApiKeyRequest }) => {
+		try {
+			const apiKey = await createApiKey(client, body);
+			return { success: true, api_key: apiKey };
+		} catch (error) {
+			if (error instanceof ApiKeyError) {
+				return { success: false, error: error.message };
+			}
+			console.error("Error in /api-keys:", error);
+			return { success: false, error: "Failed to create API key" };
+		}
+	},
+	{
+		beforeHandle: ({ apiKey }) =>
+			checkAccess(() => requireScope(apiKey, "admin")),
+		body: t.Object({
+			name: t.String({ description: "Name to recognize the key by" }),
+			scopes: t.Array(t.Union([
+				t.Literal("events:read"),
+				t.Literal("contracts:manage"),
+				t.Literal("admin")
+			]), { description: "Granted scopes" }),
+			report_ids: t.Optional(t.Array(t.String(), { description: "Restrict the key to these reports (default: all reports)" }))
+		}),
+		response: {
+			200: t.Object({
+				success: t.Boolean(),
+				api_key: t.Composite([ApiKeySchema, t.Object({ key: t.String() })])
+			}),
+			400: t.Object({
+				success: t.Boolean(),
+				error: t.String()
+			})
+		},
+		detail: {
+			summary: "Create an API key",
+			tags: ["Auth"],
+		}
+	},
+);
+
+/**
+ * GET /api-keys
+ *
+ * Lists API keys, including revoked ones. Keys themselves are never returned.
+ *
+ * @returns Array of API keys
+ */
+app.get(
+	"/api-keys",
+	async () => {
+		try {
+			return { api_keys: await listApiKeys(client) };
+		} catch (error) {
+			console.error("Error in /api-keys:", error);
+			return { error: "Failed to retrieve API keys", api_keys: [] };
+		}
+	},
+	{
+		beforeHandle: ({ apiKey }) =>
+			checkAccess(() => requireScope(apiKey, "admin")),
+		response: {
+			200: t.Object({
+				api_keys: t.Array(ApiKeySchema)
+			}),
+			400: t.Object({
+				error: t.String(),
+				api_keys: t.Array(t.Any())
+			})
+		},
+		detail: {
+			summary: "List API keys",
+			tags: ["Auth"],
+		}
+	},
+);
+
+/**
+ * DELETE /api-keys/:id
+ *
+ * Revokes an API key. Requests made with it are rejected from then on.
+ *
+ * @param id - API key identifier
+ */
+app.delete(
+	"/api-keys/:id",
+	async ({ params }: { params: { id: string } }) => {
+		try {
+			await revokeApiKey(client, params.id);
+			return { success: true };
+		} catch (error) {
+			if (error instanceof ApiKeyError) {
+				return { success: false, error: error.message };
+			}
+			console.error("Error in /api-keys/:id:", error);
+			return { success: false, error: "Failed to revoke API key" };
+		}
+	},
+	{
+		beforeHandle: ({ apiKey }) =>
+			checkAccess(() => requireScope(apiKey, "admin")),
+		params: t.Object({
+			id: t.String({ description: "API key identifier" })
+		}),
+		response: {
+			200: t.Object({
+				success: t.Boolean(),
+				error: t.Optional(t.String())
+			})
+		},
+		detail: {
+			summary: "Revoke an API key",
+			tags: ["Auth"],
 		}
 	},
 );
@@ -0,0 +1,200 @@
+/**
+ * Asynchronous contract registration jobs.
+ *
+ * POST /add-contracts?async=true stores the batch in contract_jobs and returns at once.
+ * A worker runs queued jobs one at a time, recording each step in the job's status.
+ * Jobs interrupted by a crash of the API process are re-run from the start on the next
+ * startup, which is safe because adding a contract again replaces its existing deployment.
+ */
+
+import type { Client } from "pg";
+import { applyContractBatch } from "./helpers.js";
+import type {
+	AddContractRequest,
+	BatchApiResponse,
+	ContractJob,
+	ContractJobStatus,
+} from "./types.js";
+
+const UUID_PATTERN =
+	/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+interface ContractJobRow {
+	id: string;
+	status: ContractJobStatus;
+	request: { contracts: AddContractRequest[] };
+	results: BatchApiResponse["results"];
+	error: string | null;
+	created_at: Date;
+	updated_at: Date;
+}
+
+let processing = false;
+let processRequested = false;
+
+function toContractJob(row: ContractJobRow): ContractJob {
+	return {
+		id: row.id,
+		status: row.status,
+		contracts: row.request.contracts.map(
+			(contract) => `${contract.name}_${contract.report_id}`,
+		),
+		results: row.results,
+		error: row.error,
+		created_at: row.created_at.toISOString(),
+		updated_at: row.updated_at.toISOString(),
+	};
+}
+
+async function updateContractJob(
+	client: Client,
+	jobId: string,
+	update: {
+		status: ContractJobStatus;
+		results?: BatchApiResponse["results"];
+		error?: string;
+	},
+): Promise<void> {
+	await client.query(
+		`UPDATE contract_jobs
+         SET status = $2,
+             results = COALESCE($3, results),
+             error = $4,
+             updated_at = NOW()
+         WHERE id = $1`,
+		[
+			jobId,
+			update.status,
+			update.results ? JSON.stringify(update.results) : null,
+			update.error ?? null,
+		],
+	);
+}
+
+async function runContractJob(
+	client: Client,
+	job: ContractJobRow,
+): Promise<void> {
+	try {
+		await updateContractJob(client, job.id, { status: "applying" });
+
+		const response = await applyContractBatch(
+			job.request.contracts,
+			client,
+			(results) =>
+				updateContractJob(client, job.id, { status: "restarting", results }),
+		);
+
+		await updateContractJob(
+			client,
+			job.id,
+			response.success
+				? { status: "indexing", results: response.results }
+				: {
+						status: "failed",
+						results: response.results,
+						error: response.error,
+					},
+		);
+	} catch (error) {
+		const errorMessage =
+			error instanceof Error ? error.message : "Unknown error occurred";
+		console.error(`Error running contract job ${job.id}:`, errorMessage);
+		await updateContractJob(client, job.id, {
+			status: "failed",
+			error: `Failed to add contracts: ${errorMessage}`,
+		});
+	}
+}
+
+/**
+ * Runs queued jobs in creation order until none are left.
+ * Calls made while jobs are running are coalesced into one more pass.
+ */
+export async function processContractJobs(client: Client): Promise<void> {
+	if (processing) {
+		processRequested = true;
+		return;
+	}
+	processing = true;
+
+	try {
+		do {
+			processRequested = false;
+			while (true) {
+				const result = await client.query<ContractJobRow>(
+					`SELECT * FROM contract_jobs
+                     WHERE status = 'queued'
+                     ORDER BY created_at
+                     LIMIT 1`,
+				);
+				const job = result.rows[0];
+				if (!job) {
+					break;
+				}
+				await runContractJob(client, job);
+			}
+		} while (processRequested);
+	} catch (error) {
+		console.error("Error processing contract jobs:", error);
+	} finally {
+		processing = false;
+	}
+}
+
+/**
+ * Requeues jobs interrupted by a previous shutdown and runs every queued job.
+ */
+export async function startContractJobWorker(client: Client): Promise<void> {
+	try {
+		const result = await client.query(
+			`UPDATE contract_jobs
+             SET status = 'queued', updated_at = NOW()
+             WHERE status IN ('applying', 'restarting')`,
+		);
+		if (result.rowCount) {
+			console.log(`🔁 Requeued ${result.rowCount} interrupted contract job(s)`);
+		}
+	} catch (error) {
+		console.error("Error requeueing contract jobs:", error);
+	}
+
+	void processContractJobs(client);
+}
+
+/**
+ * Stores a batch of contracts as a queued job and starts processing it in the background.
+ */
+export async function enqueueContractJob(
+	client: Client,
+	contracts: AddContractRequest[],
+): Promise<ContractJob> {
+	const reportIds = Array.from(
+		new Set(contracts.map((contract) => contract.report_id)),
+	);
+	const result = await client.query<ContractJobRow>(
+		`INSERT INTO contract_jobs (request, report_ids)
+         VALUES ($1, $2)
+         RETURNING *`,
+		[JSON.stringify({ contracts }), reportIds],
+	);
+
+	void processContractJobs(client);
+
+	return toContractJob(result.rows[0]);
+}
+
+export async function getContractJob(
+	client: Client,
+	jobId: string,
+): Promise<ContractJob | null> {
+	if (!UUID_PATTERN.test(jobId)) {
+		return null;
+	}
+
+	const result = await client.query<ContractJobRow>(
+		"SELECT * FROM contract_jobs WHERE id = $1",
+		[jobId],
+	);
+	return result.rows[0] ? toContractJob(result.rows[0]) : null;
+}
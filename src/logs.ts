@@ -0,0 +1,306 @@
+/**
+ * Capture of the rindexer process output.
+ *
+ * Lines are still written to the container log, and are also kept in a bounded ring
+ * buffer and, with INDEXER_LOGS_PERSIST=true, in the indexer_logs table. Each line is
+ * tagged with its level and, when recognized, the contract (indexer_id) and network it
+ * mentions, so it can be filtered by GET /indexer/logs or followed live.
+ */
+
+import type { Client } from "pg";
+import { APP_CONSTANTS, loadRindexerConfig } from "./helpers.js";
+import type {
+	IndexerLogEntry,
+	IndexerLogFilters,
+	IndexerLogLevel,
+} from "./types.js";
+
+const LOG_LEVELS: IndexerLogLevel[] = [
+	"trace",
+	"debug",
+	"info",
+	"warn",
+	"error",
+];
+
+// Terminal color codes rindexer adds to its output
+const ANSI_PATTERN = /\x1b\[[0-9;]*m/g;
+const LEVEL_PATTERN = /\b(TRACE|DEBUG|INFO|WARN|ERROR)\b/;
+
+const buffer: IndexerLogEntry[] = [];
+const pendingWrites: IndexerLogEntry[] = [];
+const listeners = new Set<(entry: IndexerLogEntry) => void>();
+
+// Patterns matching the contract and network names of the current configuration
+let contractPattern: RegExp | null = null;
+let networkPattern: RegExp | null = null;
+
+function buildNamePattern(names: string[]): RegExp | null {
+	if (names.length === 0) {
+		return null;
+	}
+	const alternatives = names
+		.map((name) => name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+		.join("|");
+	return new RegExp(`(?<![A-Za-z0-9_-])(${alternatives})(?![A-Za-z0-9_-])`);
+}
+
+/**
+ * Reloads the contract and network names recognized in log lines.
+ */
+async function refreshKnownNames(): Promise<void> {
+	try {
+		const { config } = await loadRindexerConfig();
+		contractPattern = buildNamePattern(
+			(config.contracts ?? []).map((contract) => contract.name),
+		);
+		networkPattern = buildNamePattern(
+			(config.networks ?? []).map((network) => network.name),
+		);
+	} catch (error) {
+		console.error("Error loading names for indexer log parsing:", error);
+	}
+}
+
+export function parseLogLine(
+	line: string,
+	stream: IndexerLogEntry["stream"],
+): IndexerLogEntry {
+	const message = line.replace(ANSI_PATTERN, "").trim();
+	const level = message.match(LEVEL_PATTERN)?.[1].toLowerCase() as
+		| IndexerLogLevel
+		| undefined;
+
+	return {
+		logged_at: new Date().toISOString(),
+		stream,
+		level: level ?? (stream === "stderr" ? "error" : "info"),
+		indexer_id: contractPattern?.exec(message)?.[1] ?? null,
+		network: networkPattern?.exec(message)?.[1] ?? null,
+		message,
+	};
+}
+
+function recordLogEntry(entry: IndexerLogEntry): void {
+	buffer.push(entry);
+	if (buffer.length > APP_CONSTANTS.INDEXER_LOGS.BUFFER_SIZE) {
+		buffer.shift();
+	}
+
+	if (APP_CONSTANTS.INDEXER_LOGS.PERSIST) {
+		pendingWrites.push(entry);
+		// Drop the oldest unwritten lines if the database falls behind
+		if (pendingWrites.length > APP_CONSTANTS.INDEXER_LOGS.BUFFER_SIZE) {
+			pendingWrites.shift();
+		}
+	}
+
+	// A failing listener must not stop the output pipes from being drained
+	for (const listener of listeners) {
+		try {
+			listener(entry);
+		} catch (error) {
+			listeners.delete(listener);
+			console.error("Removed a failing indexer log listener:", error);
+		}
+	}
+}
+
+async function readLogStream(
+	stream: ReadableStream<Uint8Array>,
+	name: IndexerLogEntry["stream"],
+): Promise<void> {
+	const output = name === "stdout" ? process.stdout : process.stderr;
+	const decoder = new TextDecoder();
+	let partial = "";
+
+	try {
+		for await (const chunk of stream) {
+			// Keep the output in the container log
+			output.write(chunk);
+
+			const lines = (partial + decoder.decode(chunk, { stream: true })).split(
+				"\n",
+			);
+			partial = lines.pop() ?? "";
+			for (const line of lines) {
+				if (line.trim()) {
+					recordLogEntry(parseLogLine(line, name));
+				}
+			}
+		}
+		partial += decoder.decode();
+		if (partial.trim()) {
+			recordLogEntry(parseLogLine(partial, name));
+		}
+	} catch (error) {
+		console.error(`Error reading rindexer ${name}:`, error);
+	}
+}
+
+/**
+ * Captures the output of a newly spawned rindexer process.
+ */
+export function captureIndexerOutput(
+	stdout: ReadableStream<Uint8Array>,
+	stderr: ReadableStream<Uint8Array>,
+): void {
+	// Output waits in the pipes until the names of the new configuration are loaded
+	void refreshKnownNames().then(() => {
+		void readLogStream(stdout, "stdout");
+		void readLogStream(stderr, "stderr");
+	});
+}
+
+// ===== PERSISTENCE =====
+
+async function flushLogEntries(client: Client): Promise<void> {
+	const entries = pendingWrites.splice(0, pendingWrites.length);
+	if (entries.length === 0) {
+		return;
+	}
+
+	try {
+		await client.query(
+			`INSERT INTO indexer_logs (logged_at, stream, level, indexer_id, network, message)
+             SELECT * FROM unnest($1::timestamptz[], $2::text[], $3::text[], $4::text[], $5::text[], $6::text[])`,
+			[
+				entries.map((entry) => entry.logged_at),
+				entries.map((entry) => entry.stream),
+				entries.map((entry) => entry.level),
+				entries.map((entry) => entry.indexer_id),
+				entries.map((entry) => entry.network),
+				entries.map((entry) => entry.message),
+			],
+		);
+	} catch (error) {
+		console.error("Error storing indexer logs:", error);
+	}
+}
+
+async function pruneLogEntries(client: Client): Promise<void> {
+	try {
+		await client.query(
+			"DELETE FROM indexer_logs WHERE logged_at < NOW() - make_interval(days => $1)",
+			[APP_CONSTANTS.INDEXER_LOGS.RETENTION_DAYS],
+		);
+	} catch (error) {
+		console.error("Error pruning indexer logs:", error);
+	}
+}
+
+/**
+ * Periodically writes captured lines to indexer_logs and removes lines older than
+ * INDEXER_LOGS_RETENTION_DAYS. Does nothing unless INDEXER_LOGS_PERSIST=true.
+ */
+export function startIndexerLogPersistence(client: Client): void {
+	if (!APP_CONSTANTS.INDEXER_LOGS.PERSIST) {
+		return;
+	}
+
+	setInterval(
+		() => void flushLogEntries(client),
+		APP_CONSTANTS.INDEXER_LOGS.FLUSH_INTERVAL_MS,
+	);
+	void pruneLogEntries(client);
+	setInterval(
+		() => void pruneLogEntries(client),
+		APP_CONSTANTS.INDEXER_LOGS.PRUNE_INTERVAL_MS,
+	);
+}
+
+// ===== QUERYING =====
+
+function matchesLogFilters(
+	entry: IndexerLogEntry,
+	filters: IndexerLogFilters,
+): boolean {
+	const loggedAt = new Date(entry.logged_at);
+	return (
+		(!filters.level ||
+			LOG_LEVELS.indexOf(entry.level) >= LOG_LEVELS.indexOf(filters.level)) &&
+		(!filters.indexer_id || entry.indexer_id === filters.indexer_id) &&
+		(!filters.network || entry.network === filters.network) &&
+		(!filters.from_time || loggedAt >= filters.from_time) &&
+		(!filters.to_time || loggedAt <= filters.to_time)
+	);
+}
+
+/**
+ * Returns the most recent matching lines, oldest first. Reads indexer_logs when
+ * persistence is enabled, otherwise the in-memory buffer.
+ */
+export async function queryIndexerLogs(
+	client: Client,
+	filters: IndexerLogFilters,
+): Promise<IndexerLogEntry[]> {
+	const limit = Math.min(
+		Math.max(
+			Math.floor(filters.limit ?? APP_CONSTANTS.INDEXER_LOGS.DEFAULT_LIMIT),
+			1,
+		),
+		APP_CONSTANTS.INDEXER_LOGS.MAX_LIMIT,
+	);
+
+	if (!APP_CONSTANTS.INDEXER_LOGS.PERSIST) {
+		return buffer
+			.filter((entry) => matchesLogFilters(entry, filters))
+			.slice(-limit);
+	}
+
+	const levels = filters.level
+		? LOG_LEVELS.slice(LOG_LEVELS.indexOf(filters.level))
+		: null;
+	const result = await client.query<
+		Omit<IndexerLogEntry, "logged_at"> & { logged_at: Date }
+	>(
+		`SELECT * FROM (
+            SELECT id, logged_at, stream, level, indexer_id, network, message
+            FROM indexer_logs
+            WHERE ($1::text[] IS NULL OR level = ANY($1))
+              AND ($2::text IS NULL OR indexer_id = $2)
+              AND ($3::text IS NULL OR network = $3)
+              AND ($4::timestamptz IS NULL OR logged_at >= $4)
+              AND ($5::timestamptz IS NULL OR logged_at <= $5)
+            ORDER BY id DESC
+            LIMIT $6
+         ) recent
+         ORDER BY id`,
+		[
+			levels,
+			filters.indexer_id ?? null,
+			filters.network ?? null,
+			filters.from_time ?? null,
+			filters.to_time ?? null,
+			limit,
+		],
+	);
+	return result.rows.map(
+		({ logged_at, stream, level, indexer_id, network, message }) => ({
+			logged_at: logged_at.toISOString(),
+			stream,
+			level,
+			indexer_id,
+			network,
+			message,
+		}),
+	);
+}
+
+/**
+ * Calls listener with every new line matching the filters. Returns an unsubscribe function.
+ */
+export function followIndexerLogs(
+	filters: IndexerLogFilters,
+	listener: (entry: IndexerLogEntry) => void,
+): () => void {
+	const filtered = (entry: IndexerLogEntry) => {
+		if (matchesLogFilters(entry, filters)) {
+			listener(entry);
+		}
+	};
+	listeners.add(filtered);
+	return () => {
+		listeners.delete(filtered);
+	};
+}
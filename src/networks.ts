@@ -0,0 +1,213 @@
+/**
+ * Management of the networks section of rindexer.yaml.
+ *
+ * Networks may be configured without an RPC endpoint until a contract uses them.
+ * Changing a network that contracts are deployed on restarts the indexer.
+ */
+
+import type { Client } from "pg";
+import {
+	getMissingRpcEnvVar,
+	loadRindexerConfig,
+	requestRindexerRestart,
+	withConfigChange,
+	writeRindexerConfig,
+} from "./helpers.js";
+import {
+	type NetworkRequest,
+	type NetworkSummary,
+	type RindexerConfig,
+	type RindexerNetwork,
+	NetworkError,
+} from "./types.js";
+
+const NETWORK_NAME_PATTERN = /^[A-Za-z][A-Za-z0-9_-]*$/;
+const RPC_REFERENCE_PATTERN = /^\$\{[A-Za-z_][A-Za-z0-9_]*\}$/;
+
+function getNetworkContracts(
+	config: RindexerConfig,
+	networkName: string,
+): string[] {
+	return (config.contracts ?? [])
+		.filter((contract) =>
+			contract.details.some((detail) => detail.network === networkName),
+		)
+		.map((contract) => contract.name);
+}
+
+/**
+ * Hides the credentials of a literal RPC URL: providers often carry the API key in its
+ * path or query, and networks are listed to keys without the admin scope.
+ * Environment variable references are returned as they are.
+ */
+function redactRpcUrl(rpc: string): string {
+	if (RPC_REFERENCE_PATTERN.test(rpc)) {
+		return rpc;
+	}
+	try {
+		const url = new URL(rpc);
+		const hasSecrets =
+			url.username !== "" ||
+			url.password !== "" ||
+			url.pathname !== "/" ||
+			url.search !== "";
+		return `${url.protocol}//${url.host}${hasSecrets ? "/[redacted]" : ""}`;
+	} catch {
+		return "[redacted]";
+	}
+}
+
+function toNetworkSummary(
+	config: RindexerConfig,
+	network: RindexerNetwork,
+): NetworkSummary {
+	return {
+		name: network.name,
+		chain_id: network.chain_id,
+		rpc: redactRpcUrl(network.rpc),
+		block_poll_frequency: network.block_poll_frequency ?? null,
+		max_block_range: network.max_block_range ?? null,
+		compute_units_per_second: network.compute_units_per_second ?? null,
+		rpc_configured: getMissingRpcEnvVar(network) === null,
+		contracts: getNetworkContracts(config, network.name),
+	};
+}
+
+function validateNetworkRequest(request: NetworkRequest): string | null {
+	if (!NETWORK_NAME_PATTERN.test(request.name)) {
+		return "Network name must start with a letter and contain only letters, digits, '_' and '-'";
+	}
+	if (!Number.isInteger(request.chain_id) || request.chain_id <= 0) {
+		return "Chain ID must be a positive integer";
+	}
+	if (request.rpc !== undefined && !RPC_REFERENCE_PATTERN.test(request.rpc)) {
+		try {
+			const url = new URL(request.rpc);
+			if (!["http:", "https:", "ws:", "wss:"].includes(url.protocol)) {
+				return "RPC must be an http(s) or ws(s) URL";
+			}
+		} catch {
+			return "RPC must be a URL or a ${VAR_NAME} environment variable reference";
+		}
+	}
+	for (const field of [
+		"max_block_range",
+		"compute_units_per_second",
+	] as const) {
+		const value = request[field];
+		if (value !== undefined && (!Number.isInteger(value) || value <= 0)) {
+			return `${field} must be a positive integer`;
+		}
+	}
+	return null;
+}
+
+export async function listNetworks(): Promise<NetworkSummary[]> {
+	const { config } = await loadRindexerConfig();
+	return (config.networks ?? []).map((network) =>
+		toNetworkSummary(config, network),
+	);
+}
+
+/**
+ * Adds a network, or replaces the network with the same name.
+ * Resolves once the indexer has restarted when contracts are deployed on the network.
+ */
+export async function saveNetwork(
+	client: Client,
+	request: NetworkRequest,
+): Promise<{ network: NetworkSummary; created: boolean }> {
+	const validationError = validateNetworkRequest(request);
+	if (validationError) {
+		throw new NetworkError(validationError);
+	}
+
+	const network: RindexerNetwork = {
+		name: request.name,
+		chain_id: request.chain_id,
+		rpc: request.rpc ?? `\${${request.name}_ENDPOINT}`,
+		...(request.block_poll_frequency !== undefined && {
+			block_poll_frequency: request.block_poll_frequency,
+		}),
+		...(request.max_block_range !== undefined && {
+			max_block_range: request.max_block_range,
+		}),
+		...(request.compute_units_per_second !== undefined && {
+			compute_units_per_second: request.compute_units_per_second,
+		}),
+	};
+
+	const { summary, created } = await withConfigChange(
+		client,
+		{ source: "POST /networks", request },
+		async () => {
+			const { config } = await loadRindexerConfig();
+			const networks = config.networks ?? [];
+
+			const conflict = networks.find(
+				(n) => n.chain_id === network.chain_id && n.name !== network.name,
+			);
+			if (conflict) {
+				throw new NetworkError(
+					`Chain ID ${network.chain_id} is already used by network "${conflict.name}"`,
+				);
+			}
+
+			const summary = toNetworkSummary(config, network);
+			if (summary.contracts.length > 0 && !summary.rpc_configured) {
+				throw new NetworkError(
+					`Environment variable ${getMissingRpcEnvVar(network)} is not set, and contracts are deployed on network "${network.name}"`,
+				);
+			}
+
+			const index = networks.findIndex((n) => n.name === network.name);
+			if (index === -1) {
+				networks.push(network);
+			} else {
+				networks[index] = network;
+			}
+			config.networks = networks;
+			await writeRindexerConfig(config);
+
+			return { summary, created: index === -1 };
+		},
+	);
+
+	// Networks without contracts do not affect what the indexer is doing
+	if (summary.contracts.length > 0) {
+		await requestRindexerRestart();
+	}
+
+	return { network: summary, created };
+}
+
+/**
+ * Removes a network that no contract is deployed on.
+ */
+export async function removeNetwork(
+	client: Client,
+	name: string,
+): Promise<void> {
+	await withConfigChange(
+		client,
+		{ source: "DELETE /networks/:name", request: { name } },
+		async () => {
+			const { config } = await loadRindexerConfig();
+			const networks = config.networks ?? [];
+
+			if (!networks.some((n) => n.name === name)) {
+				throw new NetworkError(`Network "${name}" not found`);
+			}
+
+			const contracts = getNetworkContracts(config, name);
+			if (contracts.length > 0) {
+				throw new NetworkError(
+					`Network "${name}" is used by contract(s): ${contracts.join(", ")}`,
+				);
+			}
+
+			config.networks = networks.filter((n) => n.name !== name);
+			await writeRindexerConfig(config);
+		},
+	);
+}
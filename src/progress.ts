@@ -0,0 +1,223 @@
+/**
+ * Indexing progress of a contract, per network.
+ *
+ * The last indexed block is read from rindexer's own progress tables in the
+ * rindexer_internal schema, falling back to the newest event in the contract's tables.
+ * It is compared with the configured start block and the chain head from the network's
+ * RPC. The indexing rate, and from it the time remaining, is measured across calls.
+ */
+
+import type { Client } from "pg";
+import {
+	APP_CONSTANTS,
+	getChainHead,
+	getProjectName,
+	getSchemaName,
+	loadRindexerConfig,
+	quoteIdentifier,
+	toSnakeCase,
+} from "./helpers.js";
+import { listEventTables } from "./events.js";
+import {
+	type ContractProgress,
+	type NetworkProgress,
+	EventQueryError,
+	RpcError,
+} from "./types.js";
+
+// Recent progress samples by "{indexer_id}:{network}", oldest first
+const progressSamples = new Map<
+	string,
+	Array<{ time: number; block: bigint }>
+>();
+
+/**
+ * Reads the last synced block per network from rindexer_internal, where rindexer keeps
+ * one table per event named {project}_{contract}_{event}. Returns the lowest block over
+ * the contract's events, since every event is indexed separately.
+ */
+async function readInternalProgress(
+	client: Client,
+	indexerId: string,
+): Promise<Map<string, bigint>> {
+	const prefix = `${toSnakeCase(await getProjectName())}_${toSnakeCase(indexerId)}_`;
+	const tables = await client.query<{ table_name: string }>(
+		`SELECT table_name
+         FROM information_schema.columns
+         WHERE table_schema = 'rindexer_internal'
+           AND left(table_name, length($1)) = $1
+           AND column_name = 'last_synced_block'`,
+		[prefix],
+	);
+
+	const progress = new Map<string, bigint>();
+	for (const { table_name } of tables.rows) {
+		const result = await client.query<{
+			network: string;
+			last_synced_block: string;
+		}>(
+			`SELECT network, last_synced_block::text AS last_synced_block
+             FROM rindexer_internal.${quoteIdentifier(table_name)}`,
+		);
+		for (const row of result.rows) {
+			const block = BigInt(row.last_synced_block);
+			const current = progress.get(row.network);
+			progress.set(
+				row.network,
+				current === undefined || block < current ? block : current,
+			);
+		}
+	}
+	return progress;
+}
+
+/**
+ * Falls back to the newest indexed event per network. This lags behind the real progress
+ * for contracts whose events are rare.
+ */
+async function readEventTableProgress(
+	client: Client,
+	indexerId: string,
+): Promise<Map<string, bigint>> {
+	const schemaName = await getSchemaName(indexerId);
+	const progress = new Map<string, bigint>();
+
+	for (const table of await listEventTables(client, schemaName)) {
+		const result = await client.query<{ network: string; last_block: string }>(
+			`SELECT network, MAX(block_number)::text AS last_block
+             FROM ${quoteIdentifier(schemaName)}.${quoteIdentifier(table)}
+             GROUP BY network`,
+		);
+		for (const row of result.rows) {
+			const block = BigInt(row.last_block);
+			const current = progress.get(row.network);
+			progress.set(
+				row.network,
+				current === undefined || block > current ? block : current,
+			);
+		}
+	}
+	return progress;
+}
+
+/**
+ * Records a progress sample and returns the indexing rate in blocks per second over
+ * the samples of the last RATE_WINDOW_MS, or null without an earlier sample.
+ */
+function measureIndexingRate(key: string, block: bigint): number | null {
+	const now = Date.now();
+	const samples = (progressSamples.get(key) ?? []).filter(
+		(sample) =>
+			now - sample.time <= APP_CONSTANTS.PROGRESS.RATE_WINDOW_MS &&
+			sample.block <= block,
+	);
+	samples.push({ time: now, block });
+	progressSamples.set(key, samples);
+
+	const oldest = samples[0];
+	if (oldest.time === now) {
+		return null;
+	}
+	return Number(block - oldest.block) / ((now - oldest.time) / 1000);
+}
+
+async function getNetworkProgress(
+	indexerId: string,
+	detail: { network: string; start_block: string },
+	lastIndexed: bigint | undefined,
+	source: NetworkProgress["source"],
+): Promise<NetworkProgress> {
+	const progress: NetworkProgress = {
+		network: detail.network,
+		start_block: detail.start_block,
+		last_indexed_block: lastIndexed?.toString() ?? null,
+		chain_head: null,
+		lag_blocks: null,
+		percent_complete: null,
+		blocks_per_second: null,
+		eta_seconds: null,
+		source: lastIndexed === undefined ? null : source,
+		error: null,
+	};
+
+	let chainHead: bigint;
+	try {
+		chainHead = await getChainHead(detail.network);
+		progress.chain_head = chainHead.toString();
+	} catch (error) {
+		progress.error =
+			error instanceof RpcError
+				? error.message
+				: "Failed to fetch the chain head";
+		return progress;
+	}
+
+	const startBlock = BigInt(detail.start_block);
+	const indexed = lastIndexed ?? startBlock - 1n;
+	const lag = chainHead > indexed ? chainHead - indexed : 0n;
+	progress.lag_blocks = lag.toString();
+
+	const total = chainHead - startBlock + 1n;
+	progress.percent_complete =
+		lag <= BigInt(APP_CONSTANTS.PROGRESS.CAUGHT_UP_LAG_BLOCKS) || total <= 0n
+			? 100
+			: Math.max(
+					0,
+					Math.round(
+						(Number(indexed - startBlock + 1n) / Number(total)) * 10000,
+					) / 100,
+				);
+
+	if (lastIndexed !== undefined) {
+		const rate = measureIndexingRate(
+			`${indexerId}:${detail.network}`,
+			lastIndexed,
+		);
+		progress.blocks_per_second =
+			rate === null ? null : Math.round(rate * 100) / 100;
+		if (progress.percent_complete === 100) {
+			progress.eta_seconds = 0;
+		} else if (rate !== null && rate > 0) {
+			progress.eta_seconds = Math.ceil(Number(lag) / rate);
+		}
+	}
+
+	return progress;
+}
+
+/**
+ * Reports how far a contract has been indexed on each network it is deployed on.
+ */
+export async function getContractProgress(
+	client: Client,
+	indexerId: string,
+): Promise<ContractProgress> {
+	const { config } = await loadRindexerConfig();
+	const contract = config.contracts?.find((c) => c.name === indexerId);
+	if (!contract) {
+		throw new EventQueryError(
+			`Contract "${indexerId}" not found in rindexer.yaml`,
+		);
+	}
+
+	let source: NetworkProgress["source"] = "rindexer_internal";
+	let lastIndexed = await readInternalProgress(client, indexerId);
+	if (lastIndexed.size === 0) {
+		source = "event_tables";
+		lastIndexed = await readEventTableProgress(client, indexerId);
+	}
+
+	return {
+		indexer_id: indexerId,
+		networks: await Promise.all(
+			contract.details.map((detail) =>
+				getNetworkProgress(
+					indexerId,
+					detail,
+					lastIndexed.get(detail.network),
+					source,
+				),
+			),
+		),
+	};
+}
@@ -0,0 +1,283 @@
+/**
+ * Detection of chain reorganizations.
+ *
+ * For each network in REORG_CHECK_NETWORKS, the block hashes stored with recent events
+ * are periodically compared with the canonical chain from the network's RPC, until the
+ * blocks have the network's number of confirmations. Events of orphaned blocks are left
+ * out of event queries (REORG_ACTION=mark) or deleted (REORG_ACTION=delete), and each
+ * reorganization is recorded in chain_reorgs for GET /reorgs.
+ */
+
+import type { Client } from "pg";
+import {
+	APP_CONSTANTS,
+	getChainHead,
+	getNetworkRpcUrl,
+	getSchemaName,
+	jsonRpcBatch,
+	loadRindexerConfig,
+	quoteIdentifier,
+} from "./helpers.js";
+import { getEventTableColumns, listEventTables } from "./events.js";
+import type { ChainReorg, OrphanedBlock } from "./types.js";
+
+interface ChainReorgRow extends Omit<ChainReorg, "detected_at"> {
+	detected_at: Date;
+}
+
+// Confirmations after which blocks are final, by network
+const checkedNetworks = parseReorgNetworks(APP_CONSTANTS.REORG.NETWORKS);
+
+function parseReorgNetworks(value: string): Map<string, number> {
+	const networks = new Map<string, number>();
+	for (const entry of value.split(",")) {
+		if (!entry.trim()) {
+			continue;
+		}
+		const [name, confirmations] = entry.trim().split(":");
+		const count = Number(confirmations);
+		if (!name || !Number.isInteger(count) || count <= 0) {
+			console.error(`Ignoring invalid REORG_CHECK_NETWORKS entry "${entry}"`);
+			continue;
+		}
+		networks.set(name, count);
+	}
+	return networks;
+}
+
+function toChainReorg(row: ChainReorgRow): ChainReorg {
+	return { ...row, detected_at: row.detected_at.toISOString() };
+}
+
+/**
+ * Lists the event tables, schema-qualified, of the contracts deployed on a network.
+ */
+async function listNetworkEventTables(
+	client: Client,
+	network: string,
+): Promise<string[]> {
+	const { config } = await loadRindexerConfig();
+	const tables: string[] = [];
+
+	for (const contract of config.contracts ?? []) {
+		if (!contract.details.some((detail) => detail.network === network)) {
+			continue;
+		}
+		const schemaName = await getSchemaName(contract.name);
+		for (const eventName of await listEventTables(client, schemaName)) {
+			const columns = await getEventTableColumns(client, schemaName, eventName);
+			if (
+				["network", "block_number", "block_hash"].every((column) =>
+					columns.has(column),
+				)
+			) {
+				tables.push(
+					`${quoteIdentifier(schemaName)}.${quoteIdentifier(eventName)}`,
+				);
+			}
+		}
+	}
+	return tables;
+}
+
+/**
+ * Records orphaned blocks as one reorganization, then hides or deletes their events.
+ */
+async function recordReorg(
+	client: Client,
+	network: string,
+	chainHead: bigint,
+	orphaned: OrphanedBlock[],
+	tables: string[],
+): Promise<ChainReorg> {
+	const action = APP_CONSTANTS.REORG.ACTION;
+	const reorgResult = await client.query<{ id: number }>(
+		`INSERT INTO chain_reorgs (network, first_block, last_block, chain_head, action, events_affected, blocks)
+         VALUES ($1, $2, $3, $4, $5, 0, $6)
+         RETURNING id`,
+		[
+			network,
+			orphaned[0].block_number,
+			orphaned[orphaned.length - 1].block_number,
+			chainHead.toString(),
+			action,
+			JSON.stringify(orphaned),
+		],
+	);
+	const reorgId = reorgResult.rows[0].id;
+
+	const blockNumbers = orphaned.map((block) => block.block_number);
+	const blockHashes = orphaned.map((block) => block.orphaned_hash);
+	await client.query(
+		`INSERT INTO orphaned_blocks (network, block_number, block_hash, reorg_id)
+         SELECT $1, block_number, block_hash, $4
+         FROM unnest($2::numeric[], $3::text[]) AS orphaned (block_number, block_hash)
+         ON CONFLICT DO NOTHING`,
+		[network, blockNumbers, blockHashes, reorgId],
+	);
+
+	let eventsAffected = 0;
+	for (const table of tables) {
+		const condition = `network = $1
+             AND (block_number, LOWER(block_hash::text)) IN (
+                SELECT * FROM unnest($2::numeric[], $3::text[])
+             )`;
+		if (action === "delete") {
+			const result = await client.query(
+				`DELETE FROM ${table} WHERE ${condition}`,
+				[network, blockNumbers, blockHashes],
+			);
+			eventsAffected += result.rowCount ?? 0;
+		} else {
+			const result = await client.query<{ count: number }>(
+				`SELECT COUNT(*)::int AS count FROM ${table} WHERE ${condition}`,
+				[network, blockNumbers, blockHashes],
+			);
+			eventsAffected += result.rows[0].count;
+		}
+	}
+
+	const result = await client.query<ChainReorgRow>(
+		`UPDATE chain_reorgs SET events_affected = $2 WHERE id = $1
+         RETURNING id, network, first_block::text AS first_block, last_block::text AS last_block,
+                   chain_head::text AS chain_head, action, events_affected, blocks, detected_at`,
+		[reorgId, eventsAffected],
+	);
+	return toChainReorg(result.rows[0]);
+}
+
+/**
+ * Compares the block hashes of a network's events from the last `confirmations` blocks
+ * with the canonical chain. Returns the reorganization found, or null.
+ * Blocks the RPC has not seen yet are left for the next check.
+ */
+export async function checkNetworkForReorgs(
+	client: Client,
+	network: string,
+	confirmations: number,
+): Promise<ChainReorg | null> {
+	const chainHead = await getChainHead(network);
+	const fromBlock = chainHead - BigInt(confirmations) + 1n;
+	const tables = await listNetworkEventTables(client, network);
+
+	// Stored hashes by block number, leaving out blocks already found orphaned
+	const storedHashes = new Map<string, Set<string>>();
+	for (const table of tables) {
+		const result = await client.query<{
+			block_number: string;
+			block_hash: string;
+		}>(
+			`SELECT DISTINCT block_number::text AS block_number, LOWER(block_hash::text) AS block_hash
+             FROM ${table}
+             WHERE network = $1
+               AND block_number BETWEEN $2::numeric AND $3::numeric
+               AND NOT EXISTS (
+                  SELECT 1 FROM orphaned_blocks o
+                  WHERE o.network = $1
+                    AND o.block_number = ${table}.block_number
+                    AND o.block_hash = LOWER(${table}.block_hash::text)
+               )`,
+			[network, fromBlock.toString(), chainHead.toString()],
+		);
+		for (const row of result.rows) {
+			const hashes = storedHashes.get(row.block_number) ?? new Set();
+			hashes.add(row.block_hash);
+			storedHashes.set(row.block_number, hashes);
+		}
+	}
+	if (storedHashes.size === 0) {
+		return null;
+	}
+
+	const blockNumbers = Array.from(storedHashes.keys()).sort((a, b) =>
+		BigInt(a) < BigInt(b) ? -1 : 1,
+	);
+	const blocks = await jsonRpcBatch<{ hash: string } | null>(
+		await getNetworkRpcUrl(network),
+		blockNumbers.map((blockNumber) => ({
+			method: "eth_getBlockByNumber",
+			params: [`0x${BigInt(blockNumber).toString(16)}`, false],
+		})),
+	);
+
+	const orphaned: OrphanedBlock[] = [];
+	blockNumbers.forEach((blockNumber, index) => {
+		const canonicalHash = blocks[index]?.hash?.toLowerCase();
+		if (!canonicalHash) {
+			return;
+		}
+		for (const hash of storedHashes.get(blockNumber) ?? []) {
+			if (hash !== canonicalHash) {
+				orphaned.push({
+					block_number: blockNumber,
+					orphaned_hash: hash,
+					canonical_hash: canonicalHash,
+				});
+			}
+		}
+	});
+	if (orphaned.length === 0) {
+		return null;
+	}
+
+	return recordReorg(client, network, chainHead, orphaned, tables);
+}
+
+async function checkNetworks(client: Client): Promise<void> {
+	for (const [network, confirmations] of checkedNetworks) {
+		try {
+			const reorg = await checkNetworkForReorgs(client, network, confirmations);
+			if (reorg) {
+				console.warn(
+					`Reorg on network ${network}: ${reorg.blocks.length} orphaned block(s) from block ${reorg.first_block}, ${reorg.events_affected} event(s) ${reorg.action === "delete" ? "deleted" : "marked"}`,
+				);
+			}
+		} catch (error) {
+			console.error(`Error checking network ${network} for reorgs:`, error);
+		}
+	}
+}
+
+/**
+ * Periodically checks the networks in REORG_CHECK_NETWORKS for reorganizations.
+ * Does nothing when no network is configured.
+ */
+export function startReorgChecker(client: Client): void {
+	if (checkedNetworks.size === 0) {
+		return;
+	}
+
+	let checking: Promise<void> | null = null;
+	const check = () => {
+		// Skip a round while the previous check is still running
+		checking ??= checkNetworks(client).finally(() => {
+			checking = null;
+		});
+	};
+	check();
+	setInterval(check, APP_CONSTANTS.REORG.CHECK_INTERVAL_MS);
+}
+
+/**
+ * Lists recorded reorganizations, newest first.
+ */
+export async function listReorgs(
+	client: Client,
+	options: { network?: string; limit?: number; before_id?: number },
+): Promise<ChainReorg[]> {
+	const limit = Math.min(
+		Math.max(Math.floor(options.limit ?? APP_CONSTANTS.REORG.DEFAULT_LIMIT), 1),
+		APP_CONSTANTS.REORG.MAX_LIMIT,
+	);
+	const result = await client.query<ChainReorgRow>(
+		`SELECT id, network, first_block::text AS first_block, last_block::text AS last_block,
+                chain_head::text AS chain_head, action, events_affected, blocks, detected_at
+         FROM chain_reorgs
+         WHERE ($1::text IS NULL OR network = $1)
+           AND ($2::int IS NULL OR id < $2)
+         ORDER BY id DESC
+         LIMIT $3`,
+		[options.network ?? null, options.before_id ?? null, limit],
+	);
+	return result.rows.map(toChainReorg);
+}
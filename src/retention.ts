@@ -0,0 +1,505 @@
+/**
+ * Retention policies for indexed events.
+ *
+ * A policy applies to a contract (indexer_id), a network, or a contract on one network,
+ * and keeps events of the last keep_days days and/or keep_blocks blocks. With
+ * delete_when_archived, every event is deleted once the contract's report is archived.
+ * The pruner applies the most specific policy to each deployment of every contract,
+ * on a schedule or on demand, and records the rows and bytes each run deleted.
+ */
+
+import type { Client } from "pg";
+import {
+	APP_CONSTANTS,
+	createDatabaseClient,
+	getChainHead,
+	getSchemaName,
+	loadRindexerConfig,
+	quoteIdentifier,
+} from "./helpers.js";
+import { getEventTableColumns, listEventTables } from "./events.js";
+import { buildTimeCondition } from "./timestamps.js";
+import {
+	type ArchivedReport,
+	type RetentionPolicy,
+	type RetentionPolicyRequest,
+	type RetentionRun,
+	type RetentionTableResult,
+	RetentionError,
+} from "./types.js";
+
+interface RetentionPolicyRow
+	extends Omit<RetentionPolicy, "keep_blocks" | "created_at" | "updated_at"> {
+	keep_blocks: string | null;
+	created_at: Date;
+	updated_at: Date;
+}
+
+interface RetentionRunRow
+	extends Omit<
+		RetentionRun,
+		"rows_deleted" | "bytes_reclaimed" | "started_at" | "finished_at"
+	> {
+	rows_deleted: string;
+	bytes_reclaimed: string;
+	started_at: Date;
+	finished_at: Date;
+}
+
+// The run in progress, if any
+let currentRun: Promise<RetentionRun | null> | null = null;
+
+function toRetentionPolicy(row: RetentionPolicyRow): RetentionPolicy {
+	return {
+		...row,
+		keep_blocks: row.keep_blocks === null ? null : Number(row.keep_blocks),
+		created_at: row.created_at.toISOString(),
+		updated_at: row.updated_at.toISOString(),
+	};
+}
+
+function toRetentionRun(row: RetentionRunRow): RetentionRun {
+	return {
+		...row,
+		rows_deleted: Number(row.rows_deleted),
+		bytes_reclaimed: Number(row.bytes_reclaimed),
+		started_at: row.started_at.toISOString(),
+		finished_at: row.finished_at.toISOString(),
+	};
+}
+
+// ===== POLICIES =====
+
+export async function listRetentionPolicies(
+	client: Client,
+): Promise<RetentionPolicy[]> {
+	const result = await client.query<RetentionPolicyRow>(
+		"SELECT * FROM retention_policies ORDER BY indexer_id NULLS FIRST, network NULLS FIRST",
+	);
+	return result.rows.map(toRetentionPolicy);
+}
+
+async function validateRetentionPolicy(
+	request: RetentionPolicyRequest,
+): Promise<string | null> {
+	if (request.indexer_id === undefined && request.network === undefined) {
+		return "Either indexer_id or network is required";
+	}
+	if (
+		request.keep_days === undefined &&
+		request.keep_blocks === undefined &&
+		!request.delete_when_archived
+	) {
+		return "At least one of keep_days, keep_blocks or delete_when_archived is required";
+	}
+	for (const field of ["keep_days", "keep_blocks"] as const) {
+		const value = request[field];
+		if (value !== undefined && (!Number.isInteger(value) || value <= 0)) {
+			return `${field} must be a positive integer`;
+		}
+	}
+
+	const { config } = await loadRindexerConfig();
+	if (
+		request.indexer_id !== undefined &&
+		!config.contracts?.some((c) => c.name === request.indexer_id)
+	) {
+		return `Contract "${request.indexer_id}" not found in rindexer.yaml`;
+	}
+	if (
+		request.network !== undefined &&
+		!config.networks?.some((n) => n.name === request.network)
+	) {
+		return `Network "${request.network}" is not configured`;
+	}
+	return null;
+}
+
+/**
+ * Adds a policy, or replaces the policy with the same indexer_id and network.
+ */
+export async function saveRetentionPolicy(
+	client: Client,
+	request: RetentionPolicyRequest,
+): Promise<{ policy: RetentionPolicy; created: boolean }> {
+	const validationError = await validateRetentionPolicy(request);
+	if (validationError) {
+		throw new RetentionError(validationError);
+	}
+
+	const result = await client.query<RetentionPolicyRow & { created: boolean }>(
+		`INSERT INTO retention_policies (indexer_id, network, keep_days, keep_blocks, delete_when_archived)
+         VALUES ($1, $2, $3, $4, $5)
+         ON CONFLICT ((COALESCE(indexer_id, '')), (COALESCE(network, ''))) DO UPDATE
+         SET keep_days = EXCLUDED.keep_days,
+             keep_blocks = EXCLUDED.keep_blocks,
+             delete_when_archived = EXCLUDED.delete_when_archived,
+             updated_at = NOW()
+         RETURNING *, (xmax = 0) AS created`,
+		[
+			request.indexer_id ?? null,
+			request.network ?? null,
+			request.keep_days ?? null,
+			request.keep_blocks ?? null,
+			request.delete_when_archived ?? false,
+		],
+	);
+	const { created, ...policy } = result.rows[0];
+	return { policy: toRetentionPolicy(policy), created };
+}
+
+export async function deleteRetentionPolicy(
+	client: Client,
+	policyId: number,
+): Promise<void> {
+	const result = await client.query(
+		"DELETE FROM retention_policies WHERE id = $1",
+		[policyId],
+	);
+	if (result.rowCount === 0) {
+		throw new RetentionError(`Retention policy ${policyId} not found`);
+	}
+}
+
+/**
+ * Returns the policy for a deployment: the one for the contract on its network, then
+ * the one for the contract, then the one for the network.
+ */
+function resolveRetentionPolicy(
+	policies: RetentionPolicy[],
+	indexerId: string,
+	network: string,
+): RetentionPolicy | undefined {
+	return (
+		policies.find((p) => p.indexer_id === indexerId && p.network === network) ??
+		policies.find((p) => p.indexer_id === indexerId && p.network === null) ??
+		policies.find((p) => p.indexer_id === null && p.network === network)
+	);
+}
+
+// ===== ARCHIVED REPORTS =====
+
+export async function listArchivedReports(
+	client: Client,
+): Promise<ArchivedReport[]> {
+	const result = await client.query<{ report_id: string; archived_at: Date }>(
+		"SELECT report_id, archived_at FROM archived_reports ORDER BY archived_at DESC",
+	);
+	return result.rows.map((row) => ({
+		report_id: row.report_id,
+		archived_at: row.archived_at.toISOString(),
+	}));
+}
+
+export async function archiveReport(
+	client: Client,
+	reportId: string,
+): Promise<ArchivedReport> {
+	const result = await client.query<{ report_id: string; archived_at: Date }>(
+		`INSERT INTO archived_reports (report_id) VALUES ($1)
+         ON CONFLICT (report_id) DO UPDATE SET report_id = EXCLUDED.report_id
+         RETURNING report_id, archived_at`,
+		[reportId],
+	);
+	return {
+		report_id: result.rows[0].report_id,
+		archived_at: result.rows[0].archived_at.toISOString(),
+	};
+}
+
+export async function unarchiveReport(
+	client: Client,
+	reportId: string,
+): Promise<void> {
+	const result = await client.query(
+		"DELETE FROM archived_reports WHERE report_id = $1",
+		[reportId],
+	);
+	if (result.rowCount === 0) {
+		throw new RetentionError(`Report "${reportId}" is not archived`);
+	}
+}
+
+/**
+ * Returns the indexer_ids of contracts whose report is archived.
+ */
+async function getArchivedIndexerIds(client: Client): Promise<Set<string>> {
+	const result = await client.query<{ indexer_id: string }>(
+		`SELECT m.indexer_id
+         FROM name_uuid_indexer_id_mapping m
+         JOIN archived_reports a ON a.report_id = m.report_id`,
+	);
+	return new Set(result.rows.map((row) => row.indexer_id));
+}
+
+// ===== PRUNING =====
+
+/**
+ * Builds the WHERE condition selecting a network's events that a policy no longer
+ * keeps: all of them for archived reports, otherwise those older than keep_days or
+ * keep_blocks. Returns null when every event is kept.
+ */
+async function buildPruneCondition(
+	client: Client,
+	schemaName: string,
+	eventName: string,
+	columns: Map<string, string>,
+	network: string,
+	policy: RetentionPolicy,
+	archived: boolean,
+	params: unknown[],
+): Promise<string | null> {
+	params.push(network);
+	const networkCondition = `network = $${params.length}`;
+	if (archived && policy.delete_when_archived) {
+		return networkCondition;
+	}
+
+	const expired: string[] = [];
+	if (policy.keep_blocks !== null) {
+		const lastPrunedBlock =
+			(await getChainHead(network)) - BigInt(policy.keep_blocks);
+		params.push(lastPrunedBlock.toString());
+		expired.push(`block_number <= $${params.length}::numeric`);
+	}
+	if (policy.keep_days !== null) {
+		const timeCondition = await buildTimeCondition(
+			client,
+			schemaName,
+			eventName,
+			columns,
+			{
+				to_time: new Date(Date.now() - policy.keep_days * 24 * 60 * 60 * 1000),
+				network,
+			},
+			params,
+		);
+		if (timeCondition && timeCondition !== "FALSE") {
+			expired.push(timeCondition);
+		}
+	}
+
+	return expired.length > 0
+		? `${networkCondition} AND (${expired.join(" OR ")})`
+		: null;
+}
+
+/**
+ * Deletes the matching rows of a table in batches. Returns the number of rows and the
+ * size of their data.
+ */
+async function deleteInBatches(
+	client: Client,
+	table: string,
+	condition: string,
+	params: unknown[],
+): Promise<{ rows: number; bytes: number }> {
+	let rows = 0;
+	let bytes = 0;
+
+	while (true) {
+		const result = await client.query<{ rows: number; bytes: string }>(
+			`WITH deleted AS (
+                DELETE FROM ${table} AS pruned
+                WHERE ctid IN (
+                    SELECT ctid FROM ${table}
+                    WHERE ${condition}
+                    LIMIT $${params.length + 1}
+                )
+                RETURNING pg_column_size(pruned.*) AS size
+             )
+             SELECT COUNT(*)::int AS rows, COALESCE(SUM(size), 0)::text AS bytes
+             FROM deleted`,
+			[...params, APP_CONSTANTS.RETENTION.DELETE_BATCH_SIZE],
+		);
+		rows += result.rows[0].rows;
+		bytes += Number(result.rows[0].bytes);
+		if (result.rows[0].rows < APP_CONSTANTS.RETENTION.DELETE_BATCH_SIZE) {
+			return { rows, bytes };
+		}
+	}
+}
+
+async function pruneEvents(
+	client: Client,
+	trigger: RetentionRun["trigger"],
+): Promise<RetentionRun | null> {
+	const policies = await listRetentionPolicies(client);
+	if (policies.length === 0) {
+		return null;
+	}
+
+	const startedAt = new Date();
+	const archivedIndexerIds = await getArchivedIndexerIds(client);
+	const { config } = await loadRindexerConfig();
+	const results: RetentionTableResult[] = [];
+
+	for (const contract of config.contracts ?? []) {
+		const networks = Array.from(
+			new Set(contract.details.map((detail) => detail.network)),
+		).flatMap((network) => {
+			const policy = resolveRetentionPolicy(policies, contract.name, network);
+			return policy ? [{ network, policy }] : [];
+		});
+		if (networks.length === 0) {
+			continue;
+		}
+
+		const schemaName = await getSchemaName(contract.name);
+		for (const eventName of await listEventTables(client, schemaName)) {
+			const columns = await getEventTableColumns(client, schemaName, eventName);
+			if (!columns.has("network") || !columns.has("block_number")) {
+				continue;
+			}
+			const table = `${quoteIdentifier(schemaName)}.${quoteIdentifier(eventName)}`;
+			let tableRows = 0;
+
+			for (const { network, policy } of networks) {
+				const result: RetentionTableResult = {
+					indexer_id: contract.name,
+					event_name: eventName,
+					network,
+					policy_id: policy.id,
+					rows_deleted: 0,
+					bytes_reclaimed: 0,
+				};
+				try {
+					const params: unknown[] = [];
+					const condition = await buildPruneCondition(
+						client,
+						schemaName,
+						eventName,
+						columns,
+						network,
+						policy,
+						archivedIndexerIds.has(contract.name),
+						params,
+					);
+					if (!condition) {
+						continue;
+					}
+					const deleted = await deleteInBatches(
+						client,
+						table,
+						condition,
+						params,
+					);
+					result.rows_deleted = deleted.rows;
+					result.bytes_reclaimed = deleted.bytes;
+					tableRows += deleted.rows;
+				} catch (error) {
+					console.error(`Error pruning ${table} on ${network}:`, error);
+					result.error =
+						error instanceof Error ? error.message : "Pruning failed";
+				}
+				if (result.rows_deleted > 0 || result.error) {
+					results.push(result);
+				}
+			}
+
+			// Makes the space of deleted rows reusable for new events
+			if (tableRows > 0) {
+				await client
+					.query(`VACUUM ${table}`)
+					.catch((error) => console.error(`Error vacuuming ${table}:`, error));
+			}
+		}
+	}
+
+	const result = await client.query<RetentionRunRow>(
+		`INSERT INTO retention_runs (trigger, rows_deleted, bytes_reclaimed, tables, started_at)
+         VALUES ($1, $2, $3, $4, $5)
+         RETURNING *`,
+		[
+			trigger,
+			results.reduce((sum, table) => sum + table.rows_deleted, 0),
+			results.reduce((sum, table) => sum + table.bytes_reclaimed, 0),
+			JSON.stringify(results),
+			startedAt,
+		],
+	);
+	return toRetentionRun(result.rows[0]);
+}
+
+/**
+ * Applies the retention policies now. Returns null without any policy.
+ * Runs on a dedicated connection, so batched deletes and VACUUM do not hold up the
+ * shared client serving API requests.
+ */
+export function runRetentionPolicies(
+	trigger: RetentionRun["trigger"] = "manual",
+): Promise<RetentionRun | null> {
+	if (currentRun) {
+		return Promise.reject(
+			new RetentionError("A pruning run is already in progress"),
+		);
+	}
+	currentRun = (async () => {
+		const pruneClient = createDatabaseClient();
+		try {
+			await pruneClient.connect();
+			return await pruneEvents(pruneClient, trigger);
+		} finally {
+			await pruneClient.end().catch(() => {});
+		}
+	})().finally(() => {
+		currentRun = null;
+	});
+	return currentRun;
+}
+
+/**
+ * Periodically applies the retention policies, every RETENTION_PRUNE_INTERVAL_MS.
+ */
+export function startRetentionPruner(): void {
+	const prune = () => {
+		// Skip a round while a manual run is still in progress
+		if (currentRun) {
+			return;
+		}
+		runRetentionPolicies("schedule").catch((error) =>
+			console.error("Error applying retention policies:", error),
+		);
+	};
+	setInterval(prune, APP_CONSTANTS.RETENTION.PRUNE_INTERVAL_MS);
+}
+
+/**
+ * Lists pruning runs, newest first, with the totals over every run.
+ */
+export async function listRetentionRuns(
+	client: Client,
+	options: { limit?: number; before_id?: number },
+): Promise<{
+	runs: RetentionRun[];
+	totals: { rows_deleted: number; bytes_reclaimed: number };
+}> {
+	const limit = Math.min(
+		Math.max(
+			Math.floor(options.limit ?? APP_CONSTANTS.RETENTION.DEFAULT_RUNS_LIMIT),
+			1,
+		),
+		APP_CONSTANTS.RETENTION.MAX_RUNS_LIMIT,
+	);
+	const [runs, totals] = await Promise.all([
+		client.query<RetentionRunRow>(
+			`SELECT * FROM retention_runs
+             WHERE ($1::int IS NULL OR id < $1)
+             ORDER BY id DESC
+             LIMIT $2`,
+			[options.before_id ?? null, limit],
+		),
+		client.query<{ rows_deleted: string; bytes_reclaimed: string }>(
+			`SELECT COALESCE(SUM(rows_deleted), 0)::text AS rows_deleted,
+                    COALESCE(SUM(bytes_reclaimed), 0)::text AS bytes_reclaimed
+             FROM retention_runs`,
+		),
+	]);
+	return {
+		runs: runs.rows.map(toRetentionRun),
+		totals: {
+			rows_deleted: Number(totals.rows[0].rows_deleted),
+			bytes_reclaimed: Number(totals.rows[0].bytes_reclaimed),
+		},
+	};
+}
@@ -0,0 +1,384 @@
+/**
+ * Schemas of a contract's event tables.
+ *
+ * The columns of each table, as found in information_schema, are merged with the event
+ * inputs of the contract's stored ABI. Every field is described with its Solidity and
+ * Postgres types and how its values are represented in /events rows, since pg returns
+ * numeric and bigint values as strings to keep uint256 amounts exact.
+ */
+
+import type { Client } from "pg";
+import {
+	APP_CONSTANTS,
+	getEventColumns,
+	getEventSignature,
+	getSchemaName,
+	loadRindexerConfig,
+	readContractAbi,
+	toSnakeCase,
+} from "./helpers.js";
+import { listEventTables } from "./events.js";
+import {
+	type AbiEventColumn,
+	type AbiItem,
+	type EventFieldRepresentation,
+	type EventFieldSchema,
+	type EventSchema,
+	type EventSchemaResponse,
+	EventQueryError,
+} from "./types.js";
+
+// Representations of Postgres types by udt_name, as the pg driver returns them
+const POSTGRES_REPRESENTATIONS: Record<string, EventFieldRepresentation> = {
+	numeric: "decimal_string",
+	int8: "decimal_string",
+	int2: "number",
+	int4: "number",
+	float4: "number",
+	float8: "number",
+	bool: "boolean",
+	timestamp: "iso_timestamp",
+	timestamptz: "iso_timestamp",
+	date: "iso_timestamp",
+	text: "string",
+	varchar: "string",
+	bpchar: "string",
+};
+
+// Representations of the columns rindexer adds, used when the table does not exist yet
+const METADATA_REPRESENTATIONS: Record<string, EventFieldRepresentation> = {
+	rindexer_id: "number",
+	contract_address: "hex_string",
+	tx_hash: "hex_string",
+	block_number: "decimal_string",
+	block_hash: "hex_string",
+	network: "string",
+	tx_index: "decimal_string",
+	log_index: "decimal_string",
+};
+
+const REPRESENTATION_SCHEMAS: Record<
+	EventFieldRepresentation,
+	Record<string, unknown>
+> = {
+	decimal_string: { type: "string", pattern: "^-?[0-9]+$" },
+	hex_string: { type: "string", pattern: "^0x[0-9a-fA-F]*$" },
+	string: { type: "string" },
+	number: { type: "number" },
+	boolean: { type: "boolean" },
+	iso_timestamp: { type: "string", format: "date-time" },
+	json: {},
+};
+
+interface TableColumn {
+	column_name: string;
+	data_type: string;
+	udt_name: string;
+	is_nullable: "YES" | "NO";
+}
+
+function getSolidityRepresentation(type: string): EventFieldRepresentation {
+	const baseType = type.replace(/(\[\d*\])+$/, "");
+	if (/^u?int\d*$/.test(baseType)) {
+		return "decimal_string";
+	}
+	if (baseType === "address" || baseType.startsWith("bytes")) {
+		return "hex_string";
+	}
+	if (baseType === "bool") {
+		return "boolean";
+	}
+	return baseType === "string" ? "string" : "json";
+}
+
+/**
+ * Decides how a field's values appear in JSON. The Postgres type decides the JSON type,
+ * the Solidity type or column tells hex strings apart from other text.
+ */
+function getRepresentation(
+	column: AbiEventColumn,
+	tableColumn: TableColumn | undefined,
+): EventFieldRepresentation {
+	const hexText =
+		METADATA_REPRESENTATIONS[column.name] === "hex_string" ||
+		(column.solidity_type !== null &&
+			getSolidityRepresentation(column.solidity_type) === "hex_string");
+
+	if (tableColumn) {
+		const udtName =
+			tableColumn.data_type === "ARRAY"
+				? tableColumn.udt_name.slice(1)
+				: tableColumn.udt_name;
+		const representation = POSTGRES_REPRESENTATIONS[udtName] ?? "json";
+		return representation === "string" && hexText
+			? "hex_string"
+			: representation;
+	}
+
+	if (column.solidity_type !== null) {
+		return getSolidityRepresentation(column.solidity_type);
+	}
+	return METADATA_REPRESENTATIONS[column.name] ?? "json";
+}
+
+function toFieldSchema(
+	column: AbiEventColumn,
+	tableColumn: TableColumn | undefined,
+): EventFieldSchema {
+	return {
+		name: column.name,
+		source: column.parameter === null ? "rindexer" : "event",
+		parameter: column.parameter,
+		solidity_type: column.solidity_type,
+		postgres_type: tableColumn
+			? tableColumn.data_type === "ARRAY"
+				? `${tableColumn.udt_name.slice(1)}[]`
+				: tableColumn.data_type
+			: null,
+		indexed: column.indexed,
+		nullable: tableColumn ? tableColumn.is_nullable === "YES" : false,
+		array: tableColumn
+			? tableColumn.data_type === "ARRAY"
+			: /\]$/.test(column.solidity_type ?? ""),
+		representation: getRepresentation(column, tableColumn),
+	};
+}
+
+/**
+ * Builds the OpenAPI schema of an /events row from its fields.
+ */
+function buildRowSchema(
+	eventName: string,
+	fields: EventFieldSchema[],
+): Record<string, unknown> {
+	const properties: Record<string, unknown> = {};
+	for (const field of fields) {
+		const valueSchema = REPRESENTATION_SCHEMAS[field.representation];
+		properties[field.name] = {
+			...(field.array ? { type: "array", items: valueSchema } : valueSchema),
+			...(field.nullable && { nullable: true }),
+			...(field.solidity_type && {
+				description: `${field.parameter} (${field.solidity_type}${field.indexed ? ", indexed" : ""})`,
+			}),
+		};
+	}
+	return {
+		title: eventName,
+		type: "object",
+		properties,
+		required: fields
+			.filter((field) => !field.nullable)
+			.map((field) => field.name),
+	};
+}
+
+async function readTableColumns(
+	client: Client,
+	schemaName: string,
+	tableName: string,
+): Promise<TableColumn[]> {
+	const result = await client.query<TableColumn>(
+		`SELECT column_name, data_type, udt_name, is_nullable
+         FROM information_schema.columns
+         WHERE table_schema = $1 AND table_name = $2
+         ORDER BY ordinal_position`,
+		[schemaName, tableName],
+	);
+	return result.rows;
+}
+
+/**
+ * Describes one event table. Columns the ABI does not explain, for instance after the
+ * ABI was changed, are listed from the table alone.
+ */
+async function describeEventSchema(
+	client: Client,
+	schemaName: string,
+	eventName: string,
+	event: AbiItem | undefined,
+): Promise<EventSchema> {
+	const tableColumns = await readTableColumns(client, schemaName, eventName);
+	const tableColumnsByName = new Map(
+		tableColumns.map((column) => [column.column_name, column]),
+	);
+
+	const abiColumns = event ? getEventColumns(event) : [];
+	const columns: AbiEventColumn[] = [
+		...(tableColumns.length > 0
+			? tableColumns.map(
+					({ column_name }) =>
+						abiColumns.find((column) => column.name === column_name) ?? {
+							name: column_name,
+							parameter: null,
+							solidity_type: null,
+							indexed: null,
+						},
+				)
+			: abiColumns),
+		// Inputs rindexer has not created a column for
+		...(tableColumns.length > 0
+			? abiColumns.filter(
+					(column) =>
+						column.parameter !== null && !tableColumnsByName.has(column.name),
+				)
+			: []),
+	];
+
+	const fields = columns.map((column) =>
+		toFieldSchema(column, tableColumnsByName.get(column.name)),
+	);
+	if (!tableColumnsByName.has("block_timestamp")) {
+		fields.push({
+			name: "block_timestamp",
+			source: "api",
+			parameter: null,
+			solidity_type: null,
+			postgres_type: null,
+			indexed: null,
+			nullable: true,
+			array: false,
+			representation: "iso_timestamp",
+		});
+	}
+
+	return {
+		event_name: eventName,
+		abi_event: event?.name ?? null,
+		signature: event ? getEventSignature(event) : null,
+		table_exists: tableColumns.length > 0,
+		fields,
+		json_schema: buildRowSchema(eventName, fields),
+	};
+}
+
+/**
+ * Describes the event tables of a contract, or only the given one. Tables are listed
+ * for every event of the stored ABI, including those rindexer has not created yet.
+ */
+export async function getEventSchemas(
+	client: Client,
+	indexerId: string,
+	eventName?: string,
+): Promise<EventSchemaResponse> {
+	const { config } = await loadRindexerConfig();
+	const contract = config.contracts?.find((c) => c.name === indexerId);
+	if (!contract) {
+		throw new EventQueryError(
+			`Contract "${indexerId}" not found in rindexer.yaml`,
+		);
+	}
+
+	const schemaName = await getSchemaName(indexerId);
+	const abi = (await readContractAbi(contract)) ?? [];
+
+	// Events by table name, the first one wins like in rindexer
+	const events = new Map<string, AbiItem>();
+	for (const item of Array.isArray(abi) ? abi : []) {
+		if (item?.type === "event" && typeof item.name === "string") {
+			const tableName = toSnakeCase(item.name);
+			if (!events.has(tableName)) {
+				events.set(tableName, item);
+			}
+		}
+	}
+
+	const tableNames = new Set([
+		...events.keys(),
+		...(await listEventTables(client, schemaName)),
+	]);
+	if (eventName !== undefined && !tableNames.has(eventName)) {
+		throw new EventQueryError(
+			`Event "${eventName}" not found for contract "${indexerId}"`,
+		);
+	}
+
+	const schemas: EventSchema[] = [];
+	for (const tableName of eventName !== undefined ? [eventName] : tableNames) {
+		schemas.push(
+			await describeEventSchema(
+				client,
+				schemaName,
+				tableName,
+				events.get(tableName),
+			),
+		);
+	}
+
+	return { indexer_id: indexerId, schema_name: schemaName, events: schemas };
+}
+
+interface EventSchemaComponent {
+	name: string;
+	report_id: string;
+	schema: Record<string, unknown>;
+}
+
+let cachedComponents: {
+	components: Promise<EventSchemaComponent[]>;
+	fetchedAt: number;
+} | null = null;
+
+/**
+ * Describes the events of every registered contract in rindexer.yaml. Contracts whose
+ * schemas cannot be read are left out.
+ */
+async function loadEventSchemaComponents(
+	client: Client,
+): Promise<EventSchemaComponent[]> {
+	const { config } = await loadRindexerConfig();
+	const configured = new Set(config.contracts?.map((c) => c.name));
+	const mapping = await client.query<{ indexer_id: string; report_id: string }>(
+		"SELECT indexer_id, report_id FROM name_uuid_indexer_id_mapping ORDER BY name_uuid",
+	);
+
+	const components: EventSchemaComponent[] = [];
+	for (const { indexer_id, report_id } of mapping.rows) {
+		if (!configured.has(indexer_id)) {
+			continue;
+		}
+		try {
+			const { events } = await getEventSchemas(client, indexer_id);
+			for (const event of events) {
+				components.push({
+					name: `${indexer_id}_${event.event_name}`,
+					report_id,
+					schema: event.json_schema,
+				});
+			}
+		} catch (error) {
+			console.error(`Error describing events of "${indexer_id}":`, error);
+		}
+	}
+	return components;
+}
+
+/**
+ * Returns the /events row schemas of the contracts of allowed reports, keyed as
+ * `<indexer_id>_<event_name>`, for the `components.schemas` of the Swagger document.
+ * They are rebuilt at most every APP_CONSTANTS.DOCS_SCHEMA_TTL_MS, and concurrent
+ * callers share the same rebuild.
+ */
+export async function getEventSchemaComponents(
+	client: Client,
+	canAccessReport: (reportId: string) => boolean,
+): Promise<Record<string, Record<string, unknown>>> {
+	if (
+		!cachedComponents ||
+		Date.now() - cachedComponents.fetchedAt >= APP_CONSTANTS.DOCS_SCHEMA_TTL_MS
+	) {
+		const components = loadEventSchemaComponents(client);
+		cachedComponents = { components, fetchedAt: Date.now() };
+		// Failed rebuilds are not cached
+		components.catch(() => {
+			if (cachedComponents?.components === components) {
+				cachedComponents = null;
+			}
+		});
+	}
+
+	return Object.fromEntries(
+		(await cachedComponents.components)
+			.filter((component) => canAccessReport(component.report_id))
+			.map((component) => [component.name, component.schema]),
+	);
+}
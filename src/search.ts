@@ -0,0 +1,369 @@
+/**
+ * Lookup of a transaction or address across every indexed contract.
+ *
+ * The event tables of each contract schema are searched in turn, so a search takes
+ * longer the more contracts are registered; restricting it to a report_id or network
+ * narrows it. Addresses are matched against contract_address and every event column of
+ * Solidity type address. A background task indexes these columns and tx_hash in every
+ * event table, and searches run on their own connection with a statement timeout.
+ */
+
+import { createHash } from "crypto";
+import type { Client } from "pg";
+import {
+	APP_CONSTANTS,
+	createDatabaseClient,
+	getEventColumns,
+	getSchemaName,
+	loadRindexerConfig,
+	quoteIdentifier,
+	readContractAbi,
+	toSnakeCase,
+} from "./helpers.js";
+import {
+	buildEventConditions,
+	clampEventsLimit,
+	getEventTableColumns,
+	listEventTables,
+} from "./events.js";
+import { attachBlockTimestamps } from "./timestamps.js";
+import {
+	type RindexerContract,
+	type SearchContractResult,
+	type SearchFilters,
+	type SearchResponse,
+	EventQueryError,
+} from "./types.js";
+
+// Postgres error code of statements cancelled by statement_timeout
+const QUERY_CANCELED = "57014";
+
+/**
+ * Returns the address columns of each event table of a contract, from its stored ABI.
+ */
+async function getAddressColumns(
+	contract: RindexerContract | undefined,
+): Promise<Map<string, string[]>> {
+	const addressColumns = new Map<string, string[]>();
+	const abi = contract ? await readContractAbi(contract) : null;
+	for (const item of Array.isArray(abi) ? abi : []) {
+		if (item?.type !== "event" || typeof item.name !== "string") {
+			continue;
+		}
+		const tableName = toSnakeCase(item.name);
+		if (!addressColumns.has(tableName)) {
+			addressColumns.set(
+				tableName,
+				getEventColumns(item)
+					.filter((column) => column.solidity_type === "address")
+					.map((column) => column.name),
+			);
+		}
+	}
+	return addressColumns;
+}
+
+/**
+ * The expression searches compare, indexed as is so the comparison can use the index.
+ */
+function searchExpression(column: string): string {
+	return `LOWER(${quoteIdentifier(column)}::text)`;
+}
+
+// ===== SEARCH INDEXES =====
+
+/**
+ * Names the search index of a column. Names are hashed, since event and column names
+ * can together exceed the 63 characters Postgres keeps.
+ */
+function getSearchIndexName(eventName: string, column: string): string {
+	const hash = createHash("sha256")
+		.update(`${eventName}.${column}`)
+		.digest("hex")
+		.slice(0, 16);
+	return `search_${hash}`;
+}
+
+/**
+ * Creates the search index of a column if it is missing. An index left invalid by an
+ * interrupted build is dropped and built again.
+ */
+async function ensureSearchIndex(
+	client: Client,
+	schemaName: string,
+	eventName: string,
+	column: string,
+): Promise<void> {
+	const indexName = getSearchIndexName(eventName, column);
+	const existing = await client.query<{ valid: boolean }>(
+		`SELECT i.indisvalid AS valid
+         FROM pg_index i
+         JOIN pg_class c ON c.oid = i.indexrelid
+         JOIN pg_namespace n ON n.oid = c.relnamespace
+         WHERE n.nspname = $1 AND c.relname = $2`,
+		[schemaName, indexName],
+	);
+	if (existing.rows[0]?.valid) {
+		return;
+	}
+	if (existing.rows[0]) {
+		await client.query(
+			`DROP INDEX CONCURRENTLY IF EXISTS ${quoteIdentifier(schemaName)}.${quoteIdentifier(indexName)}`,
+		);
+	}
+
+	// Built concurrently so rindexer keeps inserting while large tables are indexed
+	await client.query(
+		`CREATE INDEX CONCURRENTLY IF NOT EXISTS ${quoteIdentifier(indexName)}
+         ON ${quoteIdentifier(schemaName)}.${quoteIdentifier(eventName)} (${searchExpression(column)})`,
+	);
+}
+
+/**
+ * Indexes tx_hash and the address columns of every event table of registered contracts.
+ */
+async function ensureSearchIndexes(client: Client): Promise<void> {
+	const mappingResult = await client.query<{ indexer_id: string }>(
+		"SELECT indexer_id FROM name_uuid_indexer_id_mapping",
+	);
+	const { config } = await loadRindexerConfig();
+
+	for (const { indexer_id } of mappingResult.rows) {
+		const schemaName = await getSchemaName(indexer_id);
+		const addressColumns = await getAddressColumns(
+			config.contracts?.find((contract) => contract.name === indexer_id),
+		);
+		for (const eventName of await listEventTables(client, schemaName)) {
+			const columns = await getEventTableColumns(client, schemaName, eventName);
+			const searchedColumns = [
+				"tx_hash",
+				"contract_address",
+				...(addressColumns.get(eventName) ?? []),
+			].filter((column) => columns.has(column));
+			for (const column of searchedColumns) {
+				try {
+					await ensureSearchIndex(client, schemaName, eventName, column);
+				} catch (error) {
+					console.error(
+						`Error indexing ${schemaName}.${eventName}.${column} for search:`,
+						error,
+					);
+				}
+			}
+		}
+	}
+}
+
+/**
+ * Periodically indexes the searched columns of new event tables, on a dedicated
+ * connection since index builds can take long. Disabled with SEARCH_INDEX_INTERVAL_MS=0.
+ */
+export function startSearchIndexMaintenance(): void {
+	if (APP_CONSTANTS.SEARCH.INDEX_INTERVAL_MS <= 0) {
+		return;
+	}
+
+	let maintaining: Promise<void> | null = null;
+	const maintain = () => {
+		// Skip a round while the previous one is still building indexes
+		maintaining ??= (async () => {
+			const indexClient = createDatabaseClient();
+			try {
+				await indexClient.connect();
+				await ensureSearchIndexes(indexClient);
+			} catch (error) {
+				console.error("Error maintaining search indexes:", error);
+			} finally {
+				await indexClient.end().catch(() => {});
+				maintaining = null;
+			}
+		})();
+	};
+	maintain();
+	setInterval(maintain, APP_CONSTANTS.SEARCH.INDEX_INTERVAL_MS);
+}
+
+// ===== SEARCH =====
+
+function validateSearchFilters(filters: SearchFilters): void {
+	if (filters.tx_hash === undefined && filters.address === undefined) {
+		throw new EventQueryError("Either tx_hash or address is required");
+	}
+	if (
+		filters.tx_hash !== undefined &&
+		!/^0x[0-9a-fA-F]{64}$/.test(filters.tx_hash)
+	) {
+		throw new EventQueryError("Invalid transaction hash format");
+	}
+	if (
+		filters.address !== undefined &&
+		!/^0x[0-9a-fA-F]{40}$/.test(filters.address)
+	) {
+		throw new EventQueryError("Invalid Ethereum address format");
+	}
+}
+
+async function findEvents(
+	client: Client,
+	filters: SearchFilters,
+	canAccessReport: (reportId: string) => boolean,
+): Promise<SearchResponse> {
+	const limit = clampEventsLimit(filters.limit);
+	const txHash = filters.tx_hash?.toLowerCase();
+	const address = filters.address?.toLowerCase();
+
+	const mappingResult = await client.query<{
+		contract_name: string;
+		report_id: string;
+		indexer_id: string;
+	}>(
+		`SELECT contract_name, report_id, indexer_id
+         FROM name_uuid_indexer_id_mapping
+         WHERE $1::text IS NULL OR report_id = $1
+         ORDER BY name_uuid`,
+		[filters.report_id ?? null],
+	);
+	const { config } = await loadRindexerConfig();
+
+	const results: SearchContractResult[] = [];
+	const matchedRows: Record<string, any>[] = [];
+	let truncated = false;
+
+	for (const row of mappingResult.rows) {
+		if (!canAccessReport(row.report_id)) {
+			continue;
+		}
+		const schemaName = await getSchemaName(row.indexer_id);
+		const addressColumns = address
+			? await getAddressColumns(
+					config.contracts?.find(
+						(contract) => contract.name === row.indexer_id,
+					),
+				)
+			: new Map<string, string[]>();
+		const contractResult: SearchContractResult = {
+			contract_name: row.contract_name,
+			report_id: row.report_id,
+			indexer_id: row.indexer_id,
+			events: [],
+		};
+
+		for (const eventName of await listEventTables(client, schemaName)) {
+			if (matchedRows.length >= limit) {
+				truncated = true;
+				break;
+			}
+
+			const columns = await getEventTableColumns(client, schemaName, eventName);
+			if (txHash && !columns.has("tx_hash")) {
+				continue;
+			}
+			if (filters.network !== undefined && !columns.has("network")) {
+				continue;
+			}
+			const searchedColumns = [
+				"contract_address",
+				...(addressColumns.get(eventName) ?? []),
+			].filter((column) => columns.has(column));
+			if (address && searchedColumns.length === 0) {
+				continue;
+			}
+
+			// The network filter, and leaving out events of orphaned blocks like /events
+			const params: unknown[] = [];
+			const conditions = await buildEventConditions(
+				client,
+				schemaName,
+				eventName,
+				columns,
+				{ network: filters.network },
+				params,
+			);
+
+			if (txHash) {
+				params.push(txHash);
+				conditions.push(`${searchExpression("tx_hash")} = $${params.length}`);
+			}
+			if (address) {
+				params.push(address);
+				conditions.push(
+					`(${searchedColumns
+						.map((column) => `${searchExpression(column)} = $${params.length}`)
+						.join(" OR ")})`,
+				);
+			}
+
+			// Fetch one extra row to know whether the limit cut the results short
+			const remaining = limit - matchedRows.length;
+			params.push(remaining + 1);
+			const result = await client.query(
+				`SELECT * FROM ${quoteIdentifier(schemaName)}.${quoteIdentifier(eventName)}
+                 WHERE ${conditions.join(" AND ")}
+                 ORDER BY block_number DESC, log_index DESC
+                 LIMIT $${params.length}`,
+				params,
+			);
+			if (result.rows.length === 0) {
+				continue;
+			}
+			if (result.rows.length > remaining) {
+				truncated = true;
+			}
+
+			const events = result.rows.slice(0, remaining);
+			matchedRows.push(...events);
+			contractResult.events.push({
+				event_name: eventName,
+				matched_columns: address
+					? searchedColumns.filter((column) =>
+							events.some(
+								(event) => String(event[column]).toLowerCase() === address,
+							),
+						)
+					: [],
+				events,
+			});
+		}
+
+		if (contractResult.events.length > 0) {
+			results.push(contractResult);
+		}
+		if (truncated) {
+			break;
+		}
+	}
+
+	await attachBlockTimestamps(client, matchedRows);
+
+	return { results, total: matchedRows.length, truncated };
+}
+
+/**
+ * Searches the events of every contract the caller may read for a transaction hash
+ * and/or an address, newest first within each event table. Results are grouped by
+ * contract and event name, and stop at the limit.
+ */
+export async function searchEvents(
+	filters: SearchFilters,
+	canAccessReport: (reportId: string) => boolean,
+): Promise<SearchResponse> {
+	validateSearchFilters(filters);
+
+	const searchClient = createDatabaseClient();
+	await searchClient.connect();
+	try {
+		await searchClient.query(
+			`SET statement_timeout = ${APP_CONSTANTS.SEARCH.STATEMENT_TIMEOUT_MS}`,
+		);
+		return await findEvents(searchClient, filters, canAccessReport);
+	} catch (error) {
+		if ((error as { code?: string }).code === QUERY_CANCELED) {
+			throw new EventQueryError(
+				"Search timed out, narrow it down with report_id or network",
+			);
+		}
+		throw error;
+	} finally {
+		await searchClient.end();
+	}
+}
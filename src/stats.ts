@@ -0,0 +1,399 @@
+/**
+ * Event aggregation: totals, block/time histograms and per-column value counts.
+ */
+
+import type { Client } from "pg";
+import { APP_CONSTANTS, quoteIdentifier } from "./helpers.js";
+import { buildEventConditions, getEventTableColumns } from "./events.js";
+import { getBlockTimestamps, resolveBoundaryBlocks } from "./timestamps.js";
+import {
+	type EventFilters,
+	type EventStats,
+	type StatsInterval,
+	EventQueryError,
+} from "./types.js";
+
+const DEFAULT_TOP_VALUES = 10;
+
+// ===== TIME INTERVALS =====
+
+/**
+ * Truncates a date to the start of its interval in UTC, matching Postgres date_trunc.
+ */
+function truncateTime(date: Date, interval: StatsInterval): Date {
+	const truncated = new Date(date);
+	switch (interval) {
+		case "hour":
+			truncated.setUTCMinutes(0, 0, 0);
+			break;
+		case "day":
+			truncated.setUTCHours(0, 0, 0, 0);
+			break;
+		case "week":
+			// Weeks start on Monday
+			truncated.setUTCHours(0, 0, 0, 0);
+			truncated.setUTCDate(
+				truncated.getUTCDate() - ((truncated.getUTCDay() + 6) % 7),
+			);
+			break;
+		case "month":
+			return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+	}
+	return truncated;
+}
+
+function addInterval(date: Date, interval: StatsInterval): Date {
+	switch (interval) {
+		case "hour":
+			return new Date(date.getTime() + 3600 * 1000);
+		case "day":
+			return new Date(date.getTime() + 24 * 3600 * 1000);
+		case "week":
+			return new Date(date.getTime() + 7 * 24 * 3600 * 1000);
+		case "month":
+			return new Date(
+				Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1),
+			);
+	}
+}
+
+function checkBucketCount(count: number): void {
+	if (count > APP_CONSTANTS.MAX_STATS_BUCKETS) {
+		throw new EventQueryError(
+			`Too many buckets (${count}) - at most ${APP_CONSTANTS.MAX_STATS_BUCKETS} are allowed, use a larger bucket size or interval`,
+		);
+	}
+}
+
+// ===== AGGREGATIONS =====
+
+async function countByBlockRange(
+	client: Client,
+	table: string,
+	conditions: string[],
+	params: unknown[],
+	bucketBlocks: number,
+	totals: { first_block: string; last_block: string },
+): Promise<NonNullable<EventStats["block_buckets"]>> {
+	if (!Number.isFinite(bucketBlocks) || bucketBlocks < 1) {
+		throw new EventQueryError("bucket_blocks must be at least 1");
+	}
+	const size = BigInt(Math.floor(bucketBlocks));
+	checkBucketCount(
+		Number(
+			(BigInt(totals.last_block) - BigInt(totals.first_block)) / size + 1n,
+		),
+	);
+
+	const bucketParams = [...params, size.toString()];
+	const sizeParam = `$${bucketParams.length}::numeric`;
+	const whereClause =
+		conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+	const result = await client.query<{ start_block: string; count: number }>(
+		`SELECT FLOOR(block_number / ${sizeParam}) * ${sizeParam} AS start_block,
+                COUNT(*)::int AS count
+         FROM ${table}
+         ${whereClause}
+         GROUP BY 1
+         ORDER BY 1`,
+		bucketParams,
+	);
+
+	// Numeric values come back from pg as strings
+	return result.rows.map((row) => ({
+		start_block: row.start_block,
+		end_block: (BigInt(row.start_block) + size - 1n).toString(),
+		count: row.count,
+	}));
+}
+
+/**
+ * Counts events per time interval.
+ *
+ * Tables with a block_timestamp column are grouped directly in Postgres. Otherwise the
+ * first and last block of each network are resolved to times, which gives the buckets,
+ * then the bucket boundaries are resolved to blocks per network in one batched search
+ * and events are counted with width_bucket over those blocks.
+ */
+async function countByTimeInterval(
+	client: Client,
+	table: string,
+	columns: Map<string, string>,
+	conditions: string[],
+	params: unknown[],
+	interval: StatsInterval,
+): Promise<NonNullable<EventStats["time_buckets"]>> {
+	const whereClause =
+		conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+	if (columns.has("block_timestamp")) {
+		const intervalParams = [...params, interval];
+		const result = await client.query<{ start_time: Date; count: number }>(
+			`SELECT date_trunc($${intervalParams.length}, block_timestamp, 'UTC') AS start_time,
+                    COUNT(*)::int AS count
+             FROM ${table}
+             ${whereClause}
+             GROUP BY 1
+             ORDER BY 1`,
+			intervalParams,
+		);
+		checkBucketCount(result.rows.length);
+		return result.rows.map((row) => ({
+			start_time: row.start_time.toISOString(),
+			end_time: addInterval(row.start_time, interval).toISOString(),
+			count: row.count,
+		}));
+	}
+
+	if (!columns.has("network")) {
+		throw new EventQueryError(
+			"Event has no network column to resolve block timestamps",
+		);
+	}
+
+	const networkRanges = await client.query<{
+		network: string;
+		min_block: string;
+		max_block: string;
+	}>(
+		`SELECT network, MIN(block_number)::text AS min_block, MAX(block_number)::text AS max_block
+         FROM ${table}
+         ${whereClause}
+         GROUP BY network`,
+		params,
+	);
+
+	// The time range of each network, bounding the buckets before any search
+	const ranges: Array<{
+		network: string;
+		minBlock: bigint;
+		maxBlock: bigint;
+		firstTime: Date;
+		lastTime: Date;
+	}> = [];
+	for (const { network, min_block, max_block } of networkRanges.rows) {
+		const timestamps = await getBlockTimestamps(client, network, [
+			min_block,
+			max_block,
+		]);
+		const firstTime = timestamps.get(min_block);
+		const lastTime = timestamps.get(max_block);
+		if (!firstTime || !lastTime) {
+			throw new EventQueryError(
+				`Could not resolve block timestamps on network "${network}"`,
+			);
+		}
+		ranges.push({
+			network,
+			minBlock: BigInt(min_block),
+			maxBlock: BigInt(max_block),
+			firstTime,
+			lastTime,
+		});
+	}
+	if (ranges.length === 0) {
+		return [];
+	}
+
+	const firstTime = new Date(
+		Math.min(...ranges.map((range) => range.firstTime.getTime())),
+	);
+	const lastTime = new Date(
+		Math.max(...ranges.map((range) => range.lastTime.getTime())),
+	);
+	const boundaries: Date[] = [];
+	for (
+		let start = truncateTime(firstTime, interval);
+		start <= lastTime;
+		start = addInterval(start, interval)
+	) {
+		boundaries.push(start);
+		checkBucketCount(boundaries.length);
+	}
+
+	const counts = new Map<number, number>();
+	for (const range of ranges) {
+		// Only the boundaries within the network's own time range need a block
+		const networkBoundaries = boundaries.filter(
+			(boundary, index) =>
+				boundary <= range.lastTime &&
+				(boundaries[index + 1] === undefined ||
+					boundaries[index + 1] > range.firstTime),
+		);
+		const boundaryBlocks = await resolveBoundaryBlocks(
+			client,
+			range.network,
+			range.minBlock,
+			range.maxBlock,
+			networkBoundaries,
+		);
+
+		const bucketParams = [
+			...params,
+			range.network,
+			boundaryBlocks.map((block) => block.toString()),
+		];
+		const result = await client.query<{ bucket: number; count: number }>(
+			`SELECT width_bucket(block_number, $${bucketParams.length}::numeric[]) AS bucket,
+                    COUNT(*)::int AS count
+             FROM ${table}
+             ${whereClause ? `${whereClause} AND` : "WHERE"} network = $${bucketParams.length - 1}
+             GROUP BY 1`,
+			bucketParams,
+		);
+
+		// width_bucket returns i when boundary i - 1 <= block < boundary i
+		for (const row of result.rows) {
+			if (row.bucket < 1) {
+				continue;
+			}
+			const start = networkBoundaries[row.bucket - 1].getTime();
+			counts.set(start, (counts.get(start) ?? 0) + row.count);
+		}
+	}
+
+	return Array.from(counts.entries())
+		.sort(([a], [b]) => a - b)
+		.map(([start, count]) => ({
+			start_time: new Date(start).toISOString(),
+			end_time: addInterval(new Date(start), interval).toISOString(),
+			count,
+		}));
+}
+
+async function summarizeColumn(
+	client: Client,
+	table: string,
+	columns: Map<string, string>,
+	conditions: string[],
+	params: unknown[],
+	column: string,
+	top?: number,
+): Promise<NonNullable<EventStats["column_stats"]>> {
+	if (!columns.has(column)) {
+		throw new EventQueryError(`Unknown column "${column}"`);
+	}
+
+	const limit = Math.min(
+		Math.max(Math.floor(top ?? DEFAULT_TOP_VALUES), 1),
+		APP_CONSTANTS.MAX_STATS_TOP_VALUES,
+	);
+	const quotedColumn = quoteIdentifier(column);
+	const whereClause =
+		conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+	const distinctResult = await client.query<{ distinct_count: number }>(
+		`SELECT COUNT(DISTINCT ${quotedColumn})::int AS distinct_count
+         FROM ${table}
+         ${whereClause}`,
+		params,
+	);
+
+	const topParams = [...params, limit];
+	const topResult = await client.query<{ value: string | null; count: number }>(
+		`SELECT ${quotedColumn}::text AS value, COUNT(*)::int AS count
+         FROM ${table}
+         ${whereClause}
+         GROUP BY ${quotedColumn}
+         ORDER BY count DESC, value
+         LIMIT $${topParams.length}`,
+		topParams,
+	);
+
+	return {
+		column,
+		distinct_count: distinctResult.rows[0].distinct_count,
+		top: topResult.rows,
+	};
+}
+
+/**
+ * Aggregates an event table: total count and block range, plus optional block or
+ * time histograms and value counts for one column.
+ */
+export async function getEventStats(
+	client: Client,
+	schemaName: string,
+	eventName: string,
+	options: {
+		filters?: EventFilters;
+		bucketBlocks?: number;
+		interval?: StatsInterval;
+		column?: string;
+		top?: number;
+	},
+): Promise<EventStats> {
+	const table = `${quoteIdentifier(schemaName)}.${quoteIdentifier(eventName)}`;
+	const columns = await getEventTableColumns(client, schemaName, eventName);
+	const params: unknown[] = [];
+	const conditions = options.filters
+		? await buildEventConditions(
+				client,
+				schemaName,
+				eventName,
+				columns,
+				options.filters,
+				params,
+			)
+		: [];
+	const whereClause =
+		conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+	const totalsResult = await client.query<{
+		total_count: number;
+		first_block: string | null;
+		last_block: string | null;
+	}>(
+		`SELECT COUNT(*)::int AS total_count,
+                MIN(block_number)::text AS first_block,
+                MAX(block_number)::text AS last_block
+         FROM ${table}
+         ${whereClause}`,
+		params,
+	);
+	const { total_count, first_block, last_block } = totalsResult.rows[0];
+	const stats: EventStats = { total_count, first_block, last_block };
+
+	if (options.bucketBlocks !== undefined) {
+		stats.block_buckets =
+			first_block !== null && last_block !== null
+				? await countByBlockRange(
+						client,
+						table,
+						conditions,
+						params,
+						options.bucketBlocks,
+						{ first_block, last_block },
+					)
+				: [];
+	}
+
+	if (options.interval) {
+		stats.time_buckets =
+			total_count > 0
+				? await countByTimeInterval(
+						client,
+						table,
+						columns,
+						conditions,
+						params,
+						options.interval,
+					)
+				: [];
+	}
+
+	if (options.column) {
+		stats.column_stats = await summarizeColumn(
+			client,
+			table,
+			columns,
+			conditions,
+			params,
+			options.column,
+			options.top,
+		);
+	}
+
+	return stats;
+}
@@ -0,0 +1,395 @@
+/**
+ * Real-time event subscriptions backed by Postgres LISTEN/NOTIFY.
+ *
+ * A statement-level trigger on each subscribed event table notifies a shared channel
+ * whenever rindexer inserts rows. Subscribers then read everything after their own
+ * cursor, so a notification only says "something changed" and nothing is lost when
+ * notifications are coalesced or a client reconnects with its last cursor.
+ */
+
+import type { Client, Notification } from "pg";
+import {
+	APP_CONSTANTS,
+	createDatabaseClient,
+	getContractNetworks,
+	getSchemaName,
+	quoteIdentifier,
+} from "./helpers.js";
+import {
+	decodeEventCursor,
+	encodeEventCursor,
+	eventTableExists,
+	queryEventsPage,
+} from "./events.js";
+import {
+	type SubscriptionMessage,
+	type SubscriptionTarget,
+	EventQueryError,
+} from "./types.js";
+
+const EVENTS_CHANNEL = "rindexer_events";
+
+// Event cursors by network. Chains have unrelated block numbers, so a single position
+// across them would skip the events of chains behind the others
+type NetworkCursors = Record<string, string>;
+
+interface ActiveTarget extends SubscriptionTarget {
+	schemaName: string;
+	cursors: NetworkCursors;
+}
+
+export interface EventSubscription {
+	client: Client;
+	targets: ActiveTarget[];
+	send: (message: SubscriptionMessage) => void | Promise<void>;
+	delivering: boolean;
+	pending: boolean;
+}
+
+const subscriptions = new Set<EventSubscription>();
+let listenerClient: Client | null = null;
+let listenerConnecting: Promise<void> | null = null;
+let triggerFunctionReady: Promise<unknown> | null = null;
+
+// ===== TARGETS & CURSORS =====
+
+/**
+ * Parses a comma-separated list of indexer_id:event_name pairs.
+ */
+export function parseSubscriptionTargets(value: string): SubscriptionTarget[] {
+	const targets = value
+		.split(",")
+		.map((pair) => pair.trim())
+		.filter(Boolean)
+		.map((pair) => {
+			const separatorIndex = pair.indexOf(":");
+			if (separatorIndex <= 0 || separatorIndex === pair.length - 1) {
+				throw new EventQueryError(
+					`Invalid target "${pair}" - expected indexer_id:event_name`,
+				);
+			}
+			return {
+				indexer_id: pair.slice(0, separatorIndex),
+				event_name: pair.slice(separatorIndex + 1),
+			};
+		});
+
+	if (targets.length === 0) {
+		throw new EventQueryError("At least one target is required");
+	}
+	return targets;
+}
+
+function targetKey(target: SubscriptionTarget): string {
+	return `${target.indexer_id}:${target.event_name}`;
+}
+
+/**
+ * Combines the cursors of all targets into one opaque resume token.
+ */
+function encodeSubscriptionCursor(targets: ActiveTarget[]): string {
+	const cursors: Record<string, NetworkCursors> = {};
+	for (const target of targets) {
+		cursors[targetKey(target)] = target.cursors;
+	}
+	return Buffer.from(JSON.stringify(cursors)).toString("base64url");
+}
+
+/**
+ * Decodes a resume token: the cursors of each target, keyed by network.
+ */
+function decodeSubscriptionCursor(
+	value: string,
+): Record<string, NetworkCursors> {
+	try {
+		const cursors = JSON.parse(
+			Buffer.from(value, "base64url").toString("utf8"),
+		);
+		for (const networkCursors of Object.values(cursors)) {
+			if (networkCursors === null || typeof networkCursors !== "object") {
+				throw new Error("Cursors must be keyed by network");
+			}
+			for (const eventCursor of Object.values(networkCursors)) {
+				decodeEventCursor(eventCursor as string);
+			}
+		}
+		return cursors;
+	} catch {
+		throw new EventQueryError("Invalid subscription cursor");
+	}
+}
+
+/**
+ * Returns cursors positioned after the newest event of a table on each network.
+ * Networks without events are left out, so they are read from their first event.
+ */
+async function getLatestEventCursors(
+	client: Client,
+	schemaName: string,
+	eventName: string,
+	networks: string[],
+): Promise<NetworkCursors> {
+	const cursors: NetworkCursors = {};
+	for (const network of networks) {
+		const result = await client.query<{
+			block_number: string;
+			log_index: string;
+		}>(
+			`SELECT block_number::text AS block_number, log_index::text AS log_index
+             FROM ${quoteIdentifier(schemaName)}.${quoteIdentifier(eventName)}
+             WHERE network = $1
+             ORDER BY block_number DESC, log_index DESC
+             LIMIT 1`,
+			[network],
+		);
+		const latest = result.rows[0];
+		if (latest) {
+			cursors[network] = encodeEventCursor({
+				...latest,
+				network,
+				direction: "next",
+			});
+		}
+	}
+	return cursors;
+}
+
+// ===== TRIGGERS & LISTENER =====
+
+/**
+ * Installs the insert notification trigger on an event table.
+ */
+async function installEventTrigger(
+	client: Client,
+	schemaName: string,
+	eventName: string,
+): Promise<void> {
+	// The shared trigger function only needs to be created once per process
+	triggerFunctionReady ??= client
+		.query(
+			`CREATE OR REPLACE FUNCTION notify_event_insert() RETURNS trigger AS $$
+             BEGIN
+                 PERFORM pg_notify(
+                     '${EVENTS_CHANNEL}',
+                     json_build_object('schema', TG_TABLE_SCHEMA, 'table', TG_TABLE_NAME)::text
+                 );
+                 RETURN NULL;
+             END;
+             $$ LANGUAGE plpgsql`,
+		)
+		.catch((error) => {
+			triggerFunctionReady = null;
+			throw error;
+		});
+	await triggerFunctionReady;
+
+	await client.query(
+		`CREATE OR REPLACE TRIGGER notify_event_insert
+         AFTER INSERT ON ${quoteIdentifier(schemaName)}.${quoteIdentifier(eventName)}
+         FOR EACH STATEMENT EXECUTE FUNCTION notify_event_insert()`,
+	);
+}
+
+function handleNotification(notification: Notification): void {
+	if (!notification.payload) {
+		return;
+	}
+
+	const { schema, table } = JSON.parse(notification.payload) as {
+		schema: string;
+		table: string;
+	};
+	for (const subscription of subscriptions) {
+		if (
+			subscription.targets.some(
+				(target) => target.schemaName === schema && target.event_name === table,
+			)
+		) {
+			void deliverEvents(subscription);
+		}
+	}
+}
+
+/**
+ * Opens the dedicated LISTEN connection if it is not already open.
+ * When the connection drops it is re-established and every subscriber catches up
+ * from its cursor, covering notifications missed in between.
+ */
+async function ensureListener(): Promise<void> {
+	if (listenerClient) {
+		return;
+	}
+
+	listenerConnecting ??= (async () => {
+		const listener = createDatabaseClient();
+		listener.on("notification", handleNotification);
+		listener.on("error", (error) => {
+			console.error("❌ Event listener connection error:", error);
+			if (listenerClient === listener) {
+				listenerClient = null;
+				void listener.end().catch(() => {});
+				setTimeout(reconnectListener, APP_CONSTANTS.LISTENER_RECONNECT_MS);
+			}
+		});
+
+		await listener.connect();
+		await listener.query(`LISTEN ${EVENTS_CHANNEL}`);
+		listenerClient = listener;
+	})().finally(() => {
+		listenerConnecting = null;
+	});
+
+	await listenerConnecting;
+}
+
+async function reconnectListener(): Promise<void> {
+	if (subscriptions.size === 0) {
+		return;
+	}
+
+	try {
+		await ensureListener();
+		for (const subscription of subscriptions) {
+			void deliverEvents(subscription);
+		}
+	} catch (error) {
+		console.error("❌ Event listener reconnection failed:", error);
+		setTimeout(reconnectListener, APP_CONSTANTS.LISTENER_RECONNECT_MS);
+	}
+}
+
+// ===== DELIVERY =====
+
+/**
+ * Sends every event after each target's cursors, in blockchain order per network.
+ * Calls made while a delivery is running are coalesced into one follow-up pass.
+ */
+async function deliverEvents(subscription: EventSubscription): Promise<void> {
+	if (subscription.delivering) {
+		subscription.pending = true;
+		return;
+	}
+
+	subscription.delivering = true;
+	try {
+		do {
+			subscription.pending = false;
+			for (const target of subscription.targets) {
+				for (const network of await getContractNetworks(target.indexer_id)) {
+					let hasMore = true;
+					while (hasMore && subscriptions.has(subscription)) {
+						const page = await queryEventsPage(
+							subscription.client,
+							target.schemaName,
+							target.event_name,
+							{
+								sortOrder: 1,
+								limit: APP_CONSTANTS.MAX_EVENTS_PER_PAGE,
+								cursor: target.cursors[network],
+								filters: { network },
+							},
+						);
+						hasMore = page.has_more;
+						if (page.events.length === 0 || !page.next_cursor) {
+							break;
+						}
+
+						// Only advance the cursor once the subscriber has accepted the events
+						const cursors = { ...target.cursors, [network]: page.next_cursor };
+						const nextTargets = subscription.targets.map((other) =>
+							other === target ? { ...other, cursors } : other,
+						);
+						await subscription.send({
+							indexer_id: target.indexer_id,
+							event_name: target.event_name,
+							events: page.events,
+							cursor: encodeSubscriptionCursor(nextTargets),
+						});
+						target.cursors = cursors;
+					}
+				}
+			}
+		} while (subscription.pending && subscriptions.has(subscription));
+	} catch (error) {
+		console.error("Error delivering subscription events:", error);
+	} finally {
+		subscription.delivering = false;
+	}
+}
+
+/**
+ * Starts a subscription to new rows of the given event tables.
+ *
+ * With a resume cursor, events after it are delivered right away. Targets missing
+ * from the cursor start after the newest existing event of each network, or from the
+ * first one when `missingTargets` is "beginning". Rows inserted behind a target's cursor (for
+ * example historical backfill) are not replayed.
+ */
+export async function openEventSubscription(
+	client: Client,
+	targets: SubscriptionTarget[],
+	resumeCursor: string | undefined,
+	send: (message: SubscriptionMessage) => void | Promise<void>,
+	missingTargets: "latest" | "beginning" = "latest",
+): Promise<EventSubscription> {
+	if (targets.length > APP_CONSTANTS.MAX_SUBSCRIPTION_TARGETS) {
+		throw new EventQueryError(
+			`Maximum ${APP_CONSTANTS.MAX_SUBSCRIPTION_TARGETS} targets allowed per subscription`,
+		);
+	}
+
+	const resumeCursors = resumeCursor
+		? decodeSubscriptionCursor(resumeCursor)
+		: {};
+	const activeTargets: ActiveTarget[] = [];
+
+	for (const target of targets) {
+		const schemaName = await getSchemaName(target.indexer_id);
+		if (!(await eventTableExists(client, schemaName, target.event_name))) {
+			throw new EventQueryError(
+				`Event "${target.event_name}" not found in schema "${schemaName}"`,
+			);
+		}
+
+		await installEventTrigger(client, schemaName, target.event_name);
+
+		const cursors =
+			resumeCursors[targetKey(target)] ??
+			(missingTargets === "beginning"
+				? {}
+				: await getLatestEventCursors(
+						client,
+						schemaName,
+						target.event_name,
+						await getContractNetworks(target.indexer_id),
+					));
+		activeTargets.push({ ...target, schemaName, cursors });
+	}
+
+	await ensureListener();
+
+	const subscription: EventSubscription = {
+		client,
+		targets: activeTargets,
+		send,
+		delivering: false,
+		pending: false,
+	};
+	subscriptions.add(subscription);
+
+	// Catch up on anything after the cursors, including rows inserted during setup
+	void deliverEvents(subscription);
+
+	return subscription;
+}
+
+/**
+ * Returns the resume cursor of a subscription's current position.
+ */
+export function getSubscriptionCursor(subscription: EventSubscription): string {
+	return encodeSubscriptionCursor(subscription.targets);
+}
+
+export function closeEventSubscription(subscription: EventSubscription): void {
+	subscriptions.delete(subscription);
+}
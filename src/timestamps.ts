@@ -0,0 +1,322 @@
+/**
+ * Block timestamp resolution for time-based event queries.
+ *
+ * Rindexer tables may not carry a block_timestamp column, so timestamps are fetched
+ * from each network's RPC and cached per network in the block_timestamps table.
+ */
+
+import type { Client } from "pg";
+import {
+	getNetworkRpcUrl,
+	jsonRpcBatch,
+	quoteIdentifier,
+} from "./helpers.js";
+import { EventQueryError } from "./types.js";
+
+/**
+ * Parses a time query parameter given as ISO-8601 or unix seconds.
+ */
+export function parseTimeParam(name: string, value?: string): Date | undefined {
+	if (value === undefined || value === "") {
+		return undefined;
+	}
+	const date = /^\d+$/.test(value)
+		? new Date(Number(value) * 1000)
+		: new Date(value);
+	if (Number.isNaN(date.getTime())) {
+		throw new EventQueryError(
+			`Invalid ${name} - must be ISO-8601 or unix seconds`,
+		);
+	}
+	return date;
+}
+
+/**
+ * Returns timestamps for the given blocks of a network, fetching and caching
+ * any that are not yet in block_timestamps.
+ */
+export async function getBlockTimestamps(
+	client: Client,
+	network: string,
+	blockNumbers: string[],
+): Promise<Map<string, Date>> {
+	const uniqueBlocks = Array.from(new Set(blockNumbers));
+	const timestamps = new Map<string, Date>();
+	if (uniqueBlocks.length === 0) {
+		return timestamps;
+	}
+
+	const cached = await client.query<{
+		block_number: string;
+		block_timestamp: Date;
+	}>(
+		`SELECT block_number::text AS block_number, block_timestamp
+         FROM block_timestamps
+         WHERE network = $1 AND block_number = ANY($2::numeric[])`,
+		[network, uniqueBlocks],
+	);
+	for (const row of cached.rows) {
+		timestamps.set(row.block_number, row.block_timestamp);
+	}
+
+	const missing = uniqueBlocks.filter((block) => !timestamps.has(block));
+	if (missing.length === 0) {
+		return timestamps;
+	}
+
+	const rpcUrl = await getNetworkRpcUrl(network);
+	const blocks = await jsonRpcBatch<{ timestamp: string } | null>(
+		rpcUrl,
+		missing.map((block) => ({
+			method: "eth_getBlockByNumber",
+			params: [`0x${BigInt(block).toString(16)}`, false],
+		})),
+	);
+
+	const fetchedBlocks: string[] = [];
+	const fetchedTimestamps: Date[] = [];
+	blocks.forEach((block, index) => {
+		// Blocks beyond the chain head come back as null
+		if (block) {
+			const timestamp = new Date(Number(BigInt(block.timestamp)) * 1000);
+			timestamps.set(missing[index], timestamp);
+			fetchedBlocks.push(missing[index]);
+			fetchedTimestamps.push(timestamp);
+		}
+	});
+
+	await client.query(
+		`INSERT INTO block_timestamps (network, block_number, block_timestamp)
+         SELECT $1, * FROM UNNEST($2::numeric[], $3::timestamptz[])
+         ON CONFLICT DO NOTHING`,
+		[network, fetchedBlocks, fetchedTimestamps],
+	);
+
+	return timestamps;
+}
+
+/**
+ * Binary searches [low, high] for the first block whose timestamp satisfies `predicate`.
+ * The predicate must be monotonic (false for earlier blocks, true for later ones).
+ */
+async function findFirstBlock(
+	client: Client,
+	network: string,
+	low: bigint,
+	high: bigint,
+	predicate: (timestamp: Date) => boolean,
+): Promise<bigint | null> {
+	let result: bigint | null = null;
+
+	while (low <= high) {
+		const mid = (low + high) / 2n;
+		const timestamps = await getBlockTimestamps(client, network, [
+			mid.toString(),
+		]);
+		const timestamp = timestamps.get(mid.toString());
+		if (!timestamp) {
+			throw new EventQueryError(
+				`Could not resolve timestamp of block ${mid} on network "${network}"`,
+			);
+		}
+
+		if (predicate(timestamp)) {
+			result = mid;
+			high = mid - 1n;
+		} else {
+			low = mid + 1n;
+		}
+	}
+
+	return result;
+}
+
+/**
+ * Resolves the first block at or after each boundary time within [low, high].
+ * Boundaries must be ascending; those after the last block resolve to high + 1.
+ *
+ * All boundaries are binary searched together, so each round of the search fetches
+ * the timestamps it needs in one batch and the number of round trips does not grow
+ * with the number of boundaries.
+ */
+export async function resolveBoundaryBlocks(
+	client: Client,
+	network: string,
+	low: bigint,
+	high: bigint,
+	boundaries: Date[],
+): Promise<bigint[]> {
+	const searches = boundaries.map((boundary) => ({
+		boundary,
+		low,
+		high,
+		block: null as bigint | null,
+	}));
+
+	for (;;) {
+		const active = searches.filter((search) => search.low <= search.high);
+		if (active.length === 0) {
+			break;
+		}
+
+		const mids = active.map((search) => (search.low + search.high) / 2n);
+		const timestamps = await getBlockTimestamps(
+			client,
+			network,
+			mids.map((mid) => mid.toString()),
+		);
+		active.forEach((search, index) => {
+			const mid = mids[index];
+			const timestamp = timestamps.get(mid.toString());
+			if (!timestamp) {
+				throw new EventQueryError(
+					`Could not resolve timestamp of block ${mid} on network "${network}"`,
+				);
+			}
+			if (timestamp >= search.boundary) {
+				search.block = mid;
+				search.high = mid - 1n;
+			} else {
+				search.low = mid + 1n;
+			}
+		});
+	}
+
+	return searches.map((search) => search.block ?? high + 1n);
+}
+
+/**
+ * Builds a WHERE condition restricting an event table to a time range.
+ *
+ * Tables with a block_timestamp column are filtered on it directly. Otherwise the
+ * range is translated into a block range per network, searching only between the
+ * first and last indexed block so few RPC lookups are needed. With `network`, only
+ * that network's blocks are searched and matched.
+ */
+export async function buildTimeCondition(
+	client: Client,
+	schemaName: string,
+	eventName: string,
+	columns: Map<string, string>,
+	range: { from_time?: Date; to_time?: Date; network?: string },
+	params: unknown[],
+): Promise<string | null> {
+	const { from_time, to_time } = range;
+	if (!from_time && !to_time) {
+		return null;
+	}
+
+	if (columns.has("block_timestamp")) {
+		const conditions: string[] = [];
+		if (from_time) {
+			params.push(from_time);
+			conditions.push(`block_timestamp >= $${params.length}`);
+		}
+		if (to_time) {
+			params.push(to_time);
+			conditions.push(`block_timestamp <= $${params.length}`);
+		}
+		return conditions.join(" AND ");
+	}
+
+	if (!columns.has("network")) {
+		throw new EventQueryError(
+			`Event "${eventName}" has no network column to resolve block timestamps`,
+		);
+	}
+
+	const blockRanges = await client.query<{
+		network: string;
+		min_block: string;
+		max_block: string;
+	}>(
+		`SELECT network, MIN(block_number)::text AS min_block, MAX(block_number)::text AS max_block
+         FROM ${quoteIdentifier(schemaName)}.${quoteIdentifier(eventName)}
+         ${range.network !== undefined ? "WHERE network = $1" : ""}
+         GROUP BY network`,
+		range.network !== undefined ? [range.network] : [],
+	);
+
+	const networkConditions: string[] = [];
+	for (const { network, min_block, max_block } of blockRanges.rows) {
+		const minBlock = BigInt(min_block);
+		const maxBlock = BigInt(max_block);
+
+		const fromBlock = from_time
+			? await findFirstBlock(
+					client,
+					network,
+					minBlock,
+					maxBlock,
+					(timestamp) => timestamp >= from_time,
+				)
+			: minBlock;
+		const afterToBlock = to_time
+			? await findFirstBlock(
+					client,
+					network,
+					minBlock,
+					maxBlock,
+					(timestamp) => timestamp > to_time,
+				)
+			: null;
+		const toBlock = afterToBlock === null ? maxBlock : afterToBlock - 1n;
+
+		if (fromBlock === null || fromBlock > toBlock) {
+			continue;
+		}
+
+		params.push(network, fromBlock.toString(), toBlock.toString());
+		networkConditions.push(
+			`(network = $${params.length - 2} AND block_number BETWEEN $${params.length - 1}::numeric AND $${params.length}::numeric)`,
+		);
+	}
+
+	return networkConditions.length > 0
+		? `(${networkConditions.join(" OR ")})`
+		: "FALSE";
+}
+
+/**
+ * Adds a block_timestamp field to event rows that lack one.
+ * Lookup failures are logged and leave the field null rather than failing the query.
+ */
+export async function attachBlockTimestamps(
+	client: Client,
+	rows: Record<string, any>[],
+): Promise<Record<string, any>[]> {
+	const rowsByNetwork = new Map<string, Record<string, any>[]>();
+	for (const row of rows) {
+		if (row.block_timestamp !== undefined) {
+			continue;
+		}
+		row.block_timestamp = null;
+		if (!row.network) {
+			continue;
+		}
+		const networkRows = rowsByNetwork.get(row.network) ?? [];
+		networkRows.push(row);
+		rowsByNetwork.set(row.network, networkRows);
+	}
+
+	for (const [network, networkRows] of rowsByNetwork) {
+		try {
+			const timestamps = await getBlockTimestamps(
+				client,
+				network,
+				networkRows.map((row) => String(row.block_number)),
+			);
+			for (const row of networkRows) {
+				row.block_timestamp =
+					timestamps.get(String(row.block_number))?.toISOString() ?? null;
+			}
+		} catch (error) {
+			console.error(
+				`Failed to resolve block timestamps for network ${network}:`,
+				error,
+			);
+		}
+	}
+
+	return rows;
+}
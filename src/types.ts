@@ -1,15 +1,16 @@
+export interface AbiParameter {
+	name: string;
+	type: string;
+	indexed?: boolean;
+	// Members of tuple types
+	components?: AbiParameter[];
+}
+
 export interface AbiItem {
-	type: "function" | "event" | "constructor" | "fallback" | "receive";
+	type: "function" | "event" | "constructor" | "fallback" | "receive" | "error";
 	name?: string;
-	inputs?: Array<{
-		name: string;
-		type: string;
-		indexed?: boolean;
-	}>;
-	outputs?: Array<{
-		name: string;
-		type: string;
-	}>;
+	inputs?: AbiParameter[];
+	outputs?: AbiParameter[];
 	stateMutability?: "pure" | "view" | "nonpayable" | "payable";
 	anonymous?: boolean;
 }
@@ -18,7 +19,9 @@ export type ContractAbi = AbiItem[];
 export interface AddContractRequest {
 	name: string;
 	report_id: string;
-	network: string;
+	// Either the network name or its chain ID, resolved against the configured networks
+	network?: string;
+	chain_id?: number;
 	address: string;
 	start_block: string;
 	abi: ContractAbi | string;
@@ -34,8 +37,21 @@ export interface RindexerContract {
 	abi: string;
 }
 
+// A contract deployment as listed in responses, with the chain ID of its network
+export type ContractDeployment = RindexerContract["details"][number] & {
+	chain_id: number | null;
+};
+
+export interface RindexerNetwork {
+	name: string;
+	chain_id: number;
+	rpc: string;
+	[key: string]: any;
+}
+
 export interface RindexerConfig {
 	name?: string;
+	networks?: RindexerNetwork[];
 	contracts?: RindexerContract[];
 	storage?: {
 		postgres?: {
@@ -49,6 +65,59 @@ export interface AddContractsRequest {
 	contracts: AddContractRequest[];
 }
 
+export interface RemoveContractRequest {
+	contract_name: string;
+	report_id: string;
+	// Only remove the deployments on this network and/or at this address
+	network?: string;
+	address?: string;
+}
+
+export interface RemoveContractsRequest {
+	contracts: RemoveContractRequest[];
+	drop_schema?: boolean;
+}
+
+export interface ContractInventoryFilters {
+	report_id?: string;
+	network?: string;
+	address?: string;
+}
+
+export interface ContractInventoryEntry {
+	contract_name: string;
+	report_id: string;
+	indexer_id: string;
+	details: ContractDeployment[];
+	abi_event_count: number | null;
+	has_tables: boolean;
+	in_config: boolean;
+}
+
+export interface ContractInventoryResponse {
+	contracts: ContractInventoryEntry[];
+	drift: {
+		// Mapping rows with no matching entry in rindexer.yaml
+		missing_config: Array<{
+			contract_name: string;
+			report_id: string;
+			indexer_id: string;
+		}>;
+		// rindexer.yaml entries with no matching mapping row
+		missing_mapping: Array<{
+			indexer_id: string;
+			details: ContractDeployment[];
+		}>;
+	};
+}
+
+// What registering a contract does: add a new contract, or add or update a deployment
+// of a contract that is already registered
+export type ContractAction =
+	| "added"
+	| "deployment_added"
+	| "deployment_updated";
+
 export interface BatchApiResponse {
 	success: boolean;
 	results: Array<{
@@ -56,8 +125,511 @@ export interface BatchApiResponse {
 		success: boolean;
 		message?: string;
 		error?: string;
+		indexer_id?: string;
+		action?: ContractAction;
+		// Problems found in the contract's ABI
+		abi_problems?: string[];
+		event_tables?: EventTablePreview[];
 	}>;
 	error?: string;
+	// Set when the batch was queued as a job (see GET /jobs/:id)
+	job_id?: string;
+}
+
+// An event table rindexer creates for a contract ABI
+export interface EventTablePreview {
+	name: string;
+	event: string;
+	columns: string[];
+	// Set by POST /add-contracts/validate, false for tables rindexer would create
+	exists?: boolean;
+}
+
+export interface ContractValidationResponse {
+	// Whether every contract of the batch is valid
+	success: boolean;
+	results: Array<
+		BatchApiResponse["results"][number] & {
+			// The contract's entry in rindexer.yaml once the batch is applied
+			rindexer_contract?: RindexerContract;
+			schema_name?: string;
+		}
+	>;
+	error?: string;
+}
+
+// Lifecycle of an asynchronous contract registration: queued, then applying the
+// config and ABIs, restarting rindexer, and finally indexing (or failed)
+export type ContractJobStatus =
+	| "queued"
+	| "applying"
+	| "restarting"
+	| "indexing"
+	| "failed";
+
+export interface ContractJob {
+	id: string;
+	status: ContractJobStatus;
+	contracts: string[];
+	results: BatchApiResponse["results"];
+	error: string | null;
+	created_at: string;
+	updated_at: string;
+}
+
+export interface EventCursor {
+	block_number: string;
+	log_index: string;
+	// Missing from cursors issued before tables held several networks
+	network?: string;
+	direction: "next" | "prev";
+}
+
+export type EventColumnFilter =
+	| string
+	| number
+	| {
+			eq?: string | number;
+			gt?: string | number;
+			gte?: string | number;
+			lt?: string | number;
+			lte?: string | number;
+	  };
+
+export interface EventFilters {
+	from_block?: string;
+	to_block?: string;
+	from_time?: Date;
+	to_time?: Date;
+	tx_hash?: string;
+	network?: string;
+	// Minimum confirmations, counting the event's own block
+	min_confirmations?: number;
+	columns?: Record<string, EventColumnFilter>;
+}
+
+export interface EventTableSummary {
+	name: string;
+	first_block: string | null;
+	first_timestamp: string | null;
+	last_block: string | null;
+	last_timestamp: string | null;
+}
+
+export type StatsInterval = "hour" | "day" | "week" | "month";
+
+export interface EventStats {
+	total_count: number;
+	first_block: string | null;
+	last_block: string | null;
+	block_buckets?: Array<{ start_block: string; end_block: string; count: number }>;
+	time_buckets?: Array<{ start_time: string; end_time: string; count: number }>;
+	column_stats?: {
+		column: string;
+		distinct_count: number;
+		top: Array<{ value: string | null; count: number }>;
+	};
+}
+
+export type ExportFormat = "csv" | "ndjson" | "jsonl";
+
+export interface SubscriptionTarget {
+	indexer_id: string;
+	event_name: string;
+}
+
+export interface SubscriptionMessage {
+	indexer_id: string;
+	event_name: string;
+	events: Record<string, any>[];
+	// Resume position covering every target of the subscription
+	cursor: string;
+}
+
+export interface CreateWebhookRequest {
+	contract_name: string;
+	report_id: string;
+	url: string;
+	event_names?: string[];
+	secret?: string;
+}
+
+export interface Webhook {
+	id: string;
+	contract_name: string;
+	report_id: string;
+	indexer_id: string;
+	url: string;
+	event_names: string[] | null;
+	created_at: string;
+}
+
+export type WebhookDeliveryStatus = "pending" | "succeeded" | "dead";
+
+export interface WebhookDelivery {
+	id: string;
+	event_name: string;
+	status: WebhookDeliveryStatus;
+	attempts: number;
+	next_attempt_at: string | null;
+	last_status_code: number | null;
+	last_error: string | null;
+	created_at: string;
+	delivered_at: string | null;
+	event_count: number;
+}
+
+export class WebhookError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "WebhookError";
+	}
+}
+
+export type ApiKeyScope = "events:read" | "contracts:manage" | "admin";
+
+export interface ApiKeyContext {
+	id: string;
+	name: string;
+	scopes: ApiKeyScope[];
+	// null when the key is not restricted to specific reports
+	report_ids: string[] | null;
+}
+
+export interface CreateApiKeyRequest {
+	name: string;
+	scopes: ApiKeyScope[];
+	report_ids?: string[];
+}
+
+export interface ApiKey extends ApiKeyContext {
+	key_prefix: string;
+	created_at: string;
+	last_used_at: string | null;
+	revoked_at: string | null;
+}
+
+export class AuthError extends Error {
+	constructor(
+		message: string,
+		public status: 401 | 403,
+	) {
+		super(message);
+		this.name = "AuthError";
+	}
+}
+
+// running: process alive; backoff: waiting to restart after a crash;
+// crash_loop: gave up restarting after repeated crashes; stopped: stopped through the API
+export type IndexerState = "running" | "backoff" | "crash_loop" | "stopped";
+
+export interface IndexerExit {
+	pid: number | null;
+	started_at: string;
+	exited_at: string;
+	exit_code: number | null;
+	signal: string | null;
+	// Whether the exit was requested (stop or restart) rather than a crash
+	expected: boolean;
+	error: string | null;
+}
+
+export interface IndexerStatus {
+	state: IndexerState;
+	pid: number | null;
+	binary_path: string;
+	started_at: string | null;
+	consecutive_failures: number;
+	next_restart_at: string | null;
+	exits: IndexerExit[];
+}
+
+export type IndexerLogLevel = "trace" | "debug" | "info" | "warn" | "error";
+
+export interface IndexerLogEntry {
+	logged_at: string;
+	stream: "stdout" | "stderr";
+	level: IndexerLogLevel;
+	// Contract and network mentioned in the line, when recognized
+	indexer_id: string | null;
+	network: string | null;
+	message: string;
+}
+
+export interface IndexerLogFilters {
+	// Minimum level to include
+	level?: IndexerLogLevel;
+	indexer_id?: string;
+	network?: string;
+	from_time?: Date;
+	to_time?: Date;
+	limit?: number;
+}
+
+export interface NetworkProgress {
+	network: string;
+	start_block: string;
+	last_indexed_block: string | null;
+	chain_head: string | null;
+	// Blocks between the last indexed block and the chain head
+	lag_blocks: string | null;
+	percent_complete: number | null;
+	blocks_per_second: number | null;
+	eta_seconds: number | null;
+	// Where last_indexed_block was read from
+	source: "rindexer_internal" | "event_tables" | null;
+	error: string | null;
+}
+
+export interface ContractProgress {
+	indexer_id: string;
+	networks: NetworkProgress[];
+}
+
+export interface NetworkRequest {
+	name: string;
+	chain_id: number;
+	// RPC URL or ${VAR_NAME} reference (default: ${name_ENDPOINT})
+	rpc?: string;
+	block_poll_frequency?: string | number;
+	max_block_range?: number;
+	compute_units_per_second?: number;
+}
+
+export interface NetworkSummary {
+	name: string;
+	chain_id: number;
+	rpc: string;
+	block_poll_frequency: string | number | null;
+	max_block_range: number | null;
+	compute_units_per_second: number | null;
+	// Whether the RPC resolves, i.e. its environment variable is set
+	rpc_configured: boolean;
+	// indexer_ids of the contracts deployed on this network
+	contracts: string[];
+}
+
+export interface EventsPage {
+	events: Record<string, any>[];
+	next_cursor: string | null;
+	prev_cursor: string | null;
+	has_more: boolean;
+}
+
+// A column of an event table as rindexer derives it from the ABI
+export interface AbiEventColumn {
+	name: string;
+	// Path of the event input, e.g. "order.maker", or null for columns rindexer adds
+	parameter: string | null;
+	solidity_type: string | null;
+	indexed: boolean | null;
+}
+
+// How a field's values are represented in JSON responses
+export type EventFieldRepresentation =
+	| "decimal_string"
+	| "hex_string"
+	| "string"
+	| "number"
+	| "boolean"
+	| "iso_timestamp"
+	| "json";
+
+export interface EventFieldSchema {
+	name: string;
+	// event: an event input, rindexer: added by rindexer, api: added to /events rows
+	source: "event" | "rindexer" | "api";
+	parameter: string | null;
+	solidity_type: string | null;
+	// Null when the table does not exist yet or lacks the column
+	postgres_type: string | null;
+	indexed: boolean | null;
+	nullable: boolean;
+	array: boolean;
+	representation: EventFieldRepresentation;
+}
+
+export interface EventSchema {
+	event_name: string;
+	abi_event: string | null;
+	signature: string | null;
+	table_exists: boolean;
+	fields: EventFieldSchema[];
+	// OpenAPI schema of an /events row
+	json_schema: Record<string, unknown>;
+}
+
+export interface EventSchemaResponse {
+	indexer_id: string;
+	schema_name: string;
+	events: EventSchema[];
+}
+
+// mark hides events of orphaned blocks from queries, delete removes them
+export type ReorgAction = "mark" | "delete";
+
+export interface OrphanedBlock {
+	block_number: string;
+	orphaned_hash: string;
+	canonical_hash: string;
+}
+
+export interface ChainReorg {
+	id: number;
+	network: string;
+	first_block: string;
+	last_block: string;
+	chain_head: string;
+	action: ReorgAction;
+	events_affected: number;
+	blocks: OrphanedBlock[];
+	detected_at: string;
+}
+
+export interface RetentionPolicyRequest {
+	indexer_id?: string;
+	network?: string;
+	keep_days?: number;
+	keep_blocks?: number;
+	delete_when_archived?: boolean;
+}
+
+export interface RetentionPolicy {
+	id: number;
+	indexer_id: string | null;
+	network: string | null;
+	keep_days: number | null;
+	keep_blocks: number | null;
+	delete_when_archived: boolean;
+	created_at: string;
+	updated_at: string;
+}
+
+export interface ArchivedReport {
+	report_id: string;
+	archived_at: string;
+}
+
+export interface RetentionTableResult {
+	indexer_id: string;
+	event_name: string;
+	network: string;
+	policy_id: number;
+	rows_deleted: number;
+	// Size of the deleted rows, reusable by Postgres after the table is vacuumed
+	bytes_reclaimed: number;
+	error?: string;
+}
+
+export interface RetentionRun {
+	id: number;
+	trigger: "schedule" | "manual";
+	rows_deleted: number;
+	bytes_reclaimed: number;
+	tables: RetentionTableResult[];
+	started_at: string;
+	finished_at: string;
+}
+
+export interface SearchFilters {
+	tx_hash?: string;
+	address?: string;
+	report_id?: string;
+	network?: string;
+	limit?: number;
+}
+
+export interface SearchContractResult {
+	contract_name: string;
+	report_id: string;
+	indexer_id: string;
+	events: Array<{
+		event_name: string;
+		// Columns holding the searched address
+		matched_columns: string[];
+		events: Record<string, any>[];
+	}>;
+}
+
+export interface SearchResponse {
+	results: SearchContractResult[];
+	total: number;
+	// Whether more events may match than were returned
+	truncated: boolean;
+}
+
+export class ApiKeyError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "ApiKeyError";
+	}
+}
+
+// rindexer.yaml as written, with the ABI files it references by relative path
+export interface ConfigSnapshot {
+	config: string;
+	abis: Record<string, string>;
+}
+
+export interface ConfigChange {
+	// Endpoint that made the change, or "external" for changes made outside the API
+	source: string;
+	request: unknown;
+}
+
+export interface ConfigVersion {
+	id: number;
+	source: string;
+	request: unknown;
+	created_at: string;
+}
+
+export interface ConfigVersionDiff {
+	id: number;
+	// Version compared against, null for the first version
+	against: number | null;
+	// Unified diff of rindexer.yaml
+	config_diff: string;
+	abis: {
+		added: string[];
+		removed: string[];
+		changed: string[];
+	};
+}
+
+export class ConfigVersionError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "ConfigVersionError";
+	}
+}
+
+export class NetworkError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "NetworkError";
+	}
+}
+
+export class RpcError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "RpcError";
+	}
+}
+
+export class EventQueryError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "EventQueryError";
+	}
+}
+
+export class RetentionError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "RetentionError";
+	}
 }
 
 export class RindexerConfigError extends Error {
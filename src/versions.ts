@@ -0,0 +1,356 @@
+/**
+ * Versions of rindexer.yaml and its ABI files.
+ *
+ * Every change made through the API is stored in config_versions by withConfigChange,
+ * with the request that caused it. ABI files are stored once per content in config_abis
+ * and referenced from versions by hash, so ABIs are compared by hash. Versions can be
+ * compared with each other, and any version can be restored, which is itself recorded
+ * as a new version.
+ */
+
+import type { Client } from "pg";
+import {
+	parseRindexerConfig,
+	requestRindexerRestart,
+	restoreConfigSnapshot,
+	withConfigChange,
+} from "./helpers.js";
+import {
+	type ConfigSnapshot,
+	type ConfigVersion,
+	type ConfigVersionDiff,
+	ConfigVersionError,
+} from "./types.js";
+
+const DEFAULT_VERSIONS_LIMIT = 50;
+const MAX_VERSIONS_LIMIT = 500;
+
+// Lines of unchanged context around each change in a diff
+const DIFF_CONTEXT_LINES = 3;
+// Beyond this many edits, changed regions are shown as fully replaced
+const MAX_DIFF_EDITS = 2000;
+
+// abis maps each ABI file to the hash of its content in config_abis
+interface ConfigVersionRow extends ConfigSnapshot {
+	id: number;
+	source: string;
+	request: unknown;
+	created_at: Date;
+}
+
+type DiffLine = { op: " " | "-" | "+"; line: string };
+
+function toConfigVersion(row: ConfigVersionRow): ConfigVersion {
+	return {
+		id: row.id,
+		source: row.source,
+		request: row.request,
+		created_at: row.created_at.toISOString(),
+	};
+}
+
+async function getConfigVersionRow(
+	client: Client,
+	versionId: number,
+): Promise<ConfigVersionRow> {
+	const result = await client.query<ConfigVersionRow>(
+		"SELECT * FROM config_versions WHERE id = $1",
+		[versionId],
+	);
+	if (!result.rows[0]) {
+		throw new ConfigVersionError(
+			`Configuration version ${versionId} not found`,
+		);
+	}
+	return result.rows[0];
+}
+
+/**
+ * Loads the ABI contents a version references by hash.
+ */
+async function loadConfigVersionSnapshot(
+	client: Client,
+	version: ConfigVersionRow,
+): Promise<ConfigSnapshot> {
+	const result = await client.query<{ hash: string; content: string }>(
+		"SELECT hash, content FROM config_abis WHERE hash = ANY($1::text[])",
+		[Object.values(version.abis)],
+	);
+	const contents = new Map(result.rows.map((row) => [row.hash, row.content]));
+
+	const abis: Record<string, string> = {};
+	for (const [file, hash] of Object.entries(version.abis)) {
+		const content = contents.get(hash);
+		if (content === undefined) {
+			throw new ConfigVersionError(
+				`ABI file "${file}" of configuration version ${version.id} is missing`,
+			);
+		}
+		abis[file] = content;
+	}
+	return { config: version.config, abis };
+}
+
+/**
+ * Lists configuration versions, newest first.
+ */
+export async function listConfigVersions(
+	client: Client,
+	options: { limit?: number; before_id?: number },
+): Promise<ConfigVersion[]> {
+	const limit = Math.min(
+		Math.max(Math.floor(options.limit ?? DEFAULT_VERSIONS_LIMIT), 1),
+		MAX_VERSIONS_LIMIT,
+	);
+	const result = await client.query<ConfigVersionRow>(
+		`SELECT id, source, request, created_at
+         FROM config_versions
+         WHERE ($1::int IS NULL OR id < $1)
+         ORDER BY id DESC
+         LIMIT $2`,
+		[options.before_id ?? null, limit],
+	);
+	return result.rows.map(toConfigVersion);
+}
+
+// ===== DIFF =====
+
+/**
+ * Computes a shortest edit script between two line arrays with Myers' algorithm,
+ * after setting aside their common prefix and suffix.
+ */
+function diffLines(a: string[], b: string[]): DiffLine[] {
+	let prefix = 0;
+	while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+		prefix++;
+	}
+	let suffix = 0;
+	while (
+		suffix < a.length - prefix &&
+		suffix < b.length - prefix &&
+		a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+	) {
+		suffix++;
+	}
+
+	const head: DiffLine[] = a
+		.slice(0, prefix)
+		.map((line) => ({ op: " ", line }));
+	const tail: DiffLine[] = a
+		.slice(a.length - suffix)
+		.map((line) => ({ op: " ", line }));
+	const from = a.slice(prefix, a.length - suffix);
+	const to = b.slice(prefix, b.length - suffix);
+
+	return [...head, ...diffMiddle(from, to), ...tail];
+}
+
+function diffMiddle(a: string[], b: string[]): DiffLine[] {
+	const replaced: DiffLine[] = [
+		...a.map((line): DiffLine => ({ op: "-", line })),
+		...b.map((line): DiffLine => ({ op: "+", line })),
+	];
+	if (a.length === 0 || b.length === 0) {
+		return replaced;
+	}
+
+	const n = a.length;
+	const m = b.length;
+	const maxEdits = Math.min(n + m, MAX_DIFF_EDITS);
+	const offset = maxEdits + 1;
+	const v = new Int32Array(2 * maxEdits + 3);
+	// trace[d] holds the furthest x on each diagonal k in [-d, d] after d edits
+	const trace: Int32Array[] = [];
+
+	for (let d = 0; d <= maxEdits; d++) {
+		for (let k = -d; k <= d; k += 2) {
+			let x =
+				k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+					? v[offset + k + 1]
+					: v[offset + k - 1] + 1;
+			let y = x - k;
+			while (x < n && y < m && a[x] === b[y]) {
+				x++;
+				y++;
+			}
+			v[offset + k] = x;
+
+			if (x >= n && y >= m) {
+				trace.push(v.slice(offset - d, offset + d + 1));
+				return backtrackEdits(a, b, trace);
+			}
+		}
+		trace.push(v.slice(offset - d, offset + d + 1));
+	}
+
+	return replaced;
+}
+
+function backtrackEdits(
+	a: string[],
+	b: string[],
+	trace: Int32Array[],
+): DiffLine[] {
+	const edits: DiffLine[] = [];
+	let x = a.length;
+	let y = b.length;
+
+	for (let d = trace.length - 1; d > 0; d--) {
+		const previous = trace[d - 1];
+		const furthest = (k: number) => previous[k + d - 1];
+		const k = x - y;
+		const inserted = k === -d || (k !== d && furthest(k - 1) < furthest(k + 1));
+		const previousK = inserted ? k + 1 : k - 1;
+		const previousX = furthest(previousK);
+		const previousY = previousX - previousK;
+
+		while (x > previousX && y > previousY) {
+			edits.push({ op: " ", line: a[--x] });
+			y--;
+		}
+		if (inserted) {
+			edits.push({ op: "+", line: b[--y] });
+		} else {
+			edits.push({ op: "-", line: a[--x] });
+		}
+	}
+	while (x > 0 && y > 0) {
+		edits.push({ op: " ", line: a[--x] });
+		y--;
+	}
+
+	return edits.reverse();
+}
+
+/**
+ * Formats an edit script as a unified diff, or an empty string without changes.
+ */
+function formatUnifiedDiff(
+	edits: DiffLine[],
+	fromLabel: string,
+	toLabel: string,
+): string {
+	const changed = edits.flatMap((edit, index) =>
+		edit.op === " " ? [] : [index],
+	);
+	if (changed.length === 0) {
+		return "";
+	}
+
+	// Line numbers before each edit, in the old and new file
+	const oldLines: number[] = [];
+	const newLines: number[] = [];
+	let oldLine = 0;
+	let newLine = 0;
+	for (const edit of edits) {
+		oldLines.push(oldLine);
+		newLines.push(newLine);
+		if (edit.op !== "+") {
+			oldLine++;
+		}
+		if (edit.op !== "-") {
+			newLine++;
+		}
+	}
+	oldLines.push(oldLine);
+	newLines.push(newLine);
+
+	const output = [`--- ${fromLabel}`, `+++ ${toLabel}`];
+	let i = 0;
+	while (i < changed.length) {
+		const start = Math.max(changed[i] - DIFF_CONTEXT_LINES, 0);
+		let end = Math.min(changed[i] + DIFF_CONTEXT_LINES + 1, edits.length);
+		i++;
+		while (i < changed.length && changed[i] - DIFF_CONTEXT_LINES <= end) {
+			end = Math.min(changed[i] + DIFF_CONTEXT_LINES + 1, edits.length);
+			i++;
+		}
+
+		const oldCount = oldLines[end] - oldLines[start];
+		const newCount = newLines[end] - newLines[start];
+		output.push(
+			`@@ -${oldLines[start] + (oldCount > 0 ? 1 : 0)},${oldCount} +${newLines[start] + (newCount > 0 ? 1 : 0)},${newCount} @@`,
+		);
+		for (const edit of edits.slice(start, end)) {
+			output.push(`${edit.op}${edit.line}`);
+		}
+	}
+
+	return `${output.join("\n")}\n`;
+}
+
+/**
+ * Compares a version with another one, by default the version before it.
+ */
+export async function diffConfigVersions(
+	client: Client,
+	versionId: number,
+	againstId?: number,
+): Promise<ConfigVersionDiff> {
+	const version = await getConfigVersionRow(client, versionId);
+
+	let against: ConfigVersionRow | null;
+	if (againstId !== undefined) {
+		against = await getConfigVersionRow(client, againstId);
+	} else {
+		const result = await client.query<ConfigVersionRow>(
+			"SELECT * FROM config_versions WHERE id < $1 ORDER BY id DESC LIMIT 1",
+			[versionId],
+		);
+		against = result.rows[0] ?? null;
+	}
+
+	const fromAbis = against?.abis ?? {};
+	const splitLines = (text: string) =>
+		text === "" ? [] : text.replace(/\n$/, "").split("\n");
+
+	return {
+		id: version.id,
+		against: against?.id ?? null,
+		config_diff: formatUnifiedDiff(
+			diffLines(splitLines(against?.config ?? ""), splitLines(version.config)),
+			against ? `version ${against.id}` : "/dev/null",
+			`version ${version.id}`,
+		),
+		abis: {
+			added: Object.keys(version.abis).filter((file) => !(file in fromAbis)),
+			removed: Object.keys(fromAbis).filter((file) => !(file in version.abis)),
+			changed: Object.keys(version.abis).filter(
+				(file) => file in fromAbis && fromAbis[file] !== version.abis[file],
+			),
+		},
+	};
+}
+
+// ===== ROLLBACK =====
+
+/**
+ * Restores rindexer.yaml and its ABI files to a stored version and restarts the indexer.
+ * Mapping rows and indexed data are left as they are, so contracts removed since the
+ * version show up in GET /contracts drift until they are registered again.
+ */
+export async function rollbackConfig(
+	client: Client,
+	versionId: number,
+): Promise<void> {
+	const version = await getConfigVersionRow(client, versionId);
+	const snapshot = await loadConfigVersionSnapshot(client, version);
+
+	try {
+		parseRindexerConfig(version.config);
+	} catch (error) {
+		throw new ConfigVersionError(
+			`Configuration version ${versionId} cannot be restored: ${
+				error instanceof Error ? error.message : "invalid rindexer.yaml"
+			}`,
+		);
+	}
+
+	await withConfigChange(
+		client,
+		{ source: "POST /config/rollback/:id", request: { version_id: versionId } },
+		() => restoreConfigSnapshot(snapshot),
+	);
+
+	await requestRindexerRestart();
+}
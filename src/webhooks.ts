@@ -0,0 +1,620 @@
+/**
+ * Outbound webhooks for newly indexed events.
+ *
+ * Each webhook follows its contract's event tables through an event subscription.
+ * New events are written to webhook_deliveries together with the webhook's cursor in
+ * one statement, then a dispatcher POSTs them with an HMAC signature, retrying with
+ * exponential backoff until they succeed or are moved to webhook_dead_letters.
+ * Deliveries are at-least-once: a crash between sending and recording success resends.
+ */
+
+import { createHmac, randomBytes } from "crypto";
+import { lookup } from "dns/promises";
+import { isIP, isIPv4 } from "net";
+import type { Client } from "pg";
+import { APP_CONSTANTS, getSchemaName } from "./helpers.js";
+import { listEventTables } from "./events.js";
+import {
+	type EventSubscription,
+	closeEventSubscription,
+	getSubscriptionCursor,
+	openEventSubscription,
+} from "./subscriptions.js";
+import {
+	type CreateWebhookRequest,
+	type SubscriptionMessage,
+	type Webhook,
+	type WebhookDelivery,
+	type WebhookDeliveryStatus,
+	WebhookError,
+} from "./types.js";
+
+const UUID_PATTERN =
+	/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+interface WebhookRow {
+	id: string;
+	name_uuid: string;
+	contract_name: string;
+	report_id: string;
+	indexer_id: string;
+	url: string;
+	event_names: string[] | null;
+	cursor: string | null;
+	created_at: Date;
+}
+
+// Active subscriptions by webhook id, with the event tables they cover
+const webhookSubscriptions = new Map<
+	string,
+	{ subscription: EventSubscription; targetKey: string }
+>();
+let dispatching = false;
+let dispatchRequested = false;
+
+// ===== SIGNING =====
+
+/**
+ * Signs a payload as HMAC-SHA256 over "{timestamp}.{body}".
+ * Receivers recompute it with the webhook secret to verify the X-Webhook-Signature header.
+ */
+export function signWebhookPayload(
+	secret: string,
+	timestamp: number,
+	body: string,
+): string {
+	return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+function toWebhook(row: WebhookRow): Webhook {
+	return {
+		id: row.id,
+		contract_name: row.contract_name,
+		report_id: row.report_id,
+		indexer_id: row.indexer_id,
+		url: row.url,
+		event_names: row.event_names,
+		created_at: row.created_at.toISOString(),
+	};
+}
+
+const WEBHOOK_COLUMNS = `w.id, w.name_uuid, m.contract_name, m.report_id, m.indexer_id, w.url, w.event_names, w.cursor, w.created_at`;
+
+// ===== SUBSCRIPTIONS =====
+
+/**
+ * Queues a batch of events for delivery and advances the webhook's cursor atomically.
+ */
+async function enqueueWebhookDelivery(
+	client: Client,
+	webhook: WebhookRow,
+	message: SubscriptionMessage,
+): Promise<void> {
+	const payload = {
+		webhook_id: webhook.id,
+		contract_name: webhook.contract_name,
+		report_id: webhook.report_id,
+		indexer_id: message.indexer_id,
+		event_name: message.event_name,
+		events: message.events,
+	};
+
+	await client.query(
+		`WITH delivery AS (
+            INSERT INTO webhook_deliveries (webhook_id, event_name, payload)
+            VALUES ($1, $2, $3)
+         )
+         UPDATE webhooks SET cursor = $4 WHERE id = $1`,
+		[webhook.id, message.event_name, JSON.stringify(payload), message.cursor],
+	);
+
+	void dispatchWebhookDeliveries(client);
+}
+
+/**
+ * Opens or refreshes the event subscription of one webhook so it covers every
+ * matching event table that currently exists.
+ */
+async function syncWebhookSubscription(
+	client: Client,
+	webhook: WebhookRow,
+): Promise<void> {
+	const schemaName = await getSchemaName(webhook.indexer_id);
+	const existingTables = await listEventTables(client, schemaName);
+	const eventNames = webhook.event_names
+		? webhook.event_names.filter((name) => existingTables.includes(name))
+		: existingTables;
+	const targetKey = [...eventNames].sort().join(",");
+
+	const current = webhookSubscriptions.get(webhook.id);
+	if (current?.targetKey === targetKey) {
+		return;
+	}
+
+	const resumeCursor = current
+		? getSubscriptionCursor(current.subscription)
+		: webhook.cursor;
+	if (current) {
+		closeEventSubscription(current.subscription);
+		webhookSubscriptions.delete(webhook.id);
+	}
+	if (eventNames.length === 0) {
+		return;
+	}
+
+	// A new webhook starts from now; tables appearing later are followed from their first event
+	const subscription = await openEventSubscription(
+		client,
+		eventNames.map((event_name) => ({
+			indexer_id: webhook.indexer_id,
+			event_name,
+		})),
+		resumeCursor ?? undefined,
+		(message) => enqueueWebhookDelivery(client, webhook, message),
+		resumeCursor ? "beginning" : "latest",
+	);
+	webhookSubscriptions.set(webhook.id, { subscription, targetKey });
+
+	if (!resumeCursor) {
+		await client.query("UPDATE webhooks SET cursor = $2 WHERE id = $1", [
+			webhook.id,
+			getSubscriptionCursor(subscription),
+		]);
+	}
+}
+
+/**
+ * Reconciles active subscriptions with the webhooks table.
+ */
+export async function syncWebhookSubscriptions(client: Client): Promise<void> {
+	const result = await client.query<WebhookRow>(
+		`SELECT ${WEBHOOK_COLUMNS}
+         FROM webhooks w
+         JOIN name_uuid_indexer_id_mapping m ON m.name_uuid = w.name_uuid`,
+	);
+
+	const activeIds = new Set(result.rows.map((row) => row.id));
+	for (const [webhookId, { subscription }] of webhookSubscriptions) {
+		if (!activeIds.has(webhookId)) {
+			closeEventSubscription(subscription);
+			webhookSubscriptions.delete(webhookId);
+		}
+	}
+
+	for (const webhook of result.rows) {
+		try {
+			await syncWebhookSubscription(client, webhook);
+		} catch (error) {
+			console.error(`Error syncing webhook ${webhook.id}:`, error);
+		}
+	}
+}
+
+// ===== DISPATCH =====
+
+async function recordDeliveryFailure(
+	client: Client,
+	delivery: { id: string; attempts: number },
+	statusCode: number | null,
+	errorMessage: string,
+): Promise<void> {
+	const attempts = delivery.attempts + 1;
+
+	if (attempts >= APP_CONSTANTS.WEBHOOK.MAX_ATTEMPTS) {
+		await client.query(
+			`WITH dead AS (
+                UPDATE webhook_deliveries
+                SET status = 'dead', attempts = $2, last_status_code = $3, last_error = $4
+                WHERE id = $1
+                RETURNING id, webhook_id, payload, attempts, last_error
+             )
+             INSERT INTO webhook_dead_letters (delivery_id, webhook_id, payload, attempts, last_error)
+             SELECT id, webhook_id, payload, attempts, last_error FROM dead
+             ON CONFLICT (delivery_id) DO NOTHING`,
+			[delivery.id, attempts, statusCode, errorMessage],
+		);
+		return;
+	}
+
+	const delay = Math.min(
+		APP_CONSTANTS.WEBHOOK.BASE_RETRY_DELAY_MS * 2 ** (attempts - 1),
+		APP_CONSTANTS.WEBHOOK.MAX_RETRY_DELAY_MS,
+	);
+	await client.query(
+		`UPDATE webhook_deliveries
+         SET attempts = $2, last_status_code = $3, last_error = $4,
+             next_attempt_at = NOW() + $5 * INTERVAL '1 millisecond'
+         WHERE id = $1`,
+		[delivery.id, attempts, statusCode, errorMessage, delay],
+	);
+}
+
+interface DueDelivery {
+	id: string;
+	webhook_id: string;
+	url: string;
+	secret: string;
+	payload: unknown;
+	attempts: number;
+}
+
+/**
+ * POSTs one delivery and records the outcome. Returns whether the receiver accepted it.
+ */
+async function sendWebhookDelivery(
+	client: Client,
+	delivery: DueDelivery,
+): Promise<boolean> {
+	const body = JSON.stringify(delivery.payload);
+	const timestamp = Math.floor(Date.now() / 1000);
+
+	let statusCode: number | null = null;
+	let errorMessage: string;
+	try {
+		// The host may resolve to another address than when the webhook was registered
+		await validateWebhookHost(new URL(delivery.url));
+		const response = await fetch(delivery.url, {
+			method: "POST",
+			headers: {
+				"Content-Type": "application/json",
+				"X-Webhook-Id": delivery.webhook_id,
+				"X-Webhook-Delivery-Id": delivery.id,
+				"X-Webhook-Timestamp": String(timestamp),
+				"X-Webhook-Signature": signWebhookPayload(
+					delivery.secret,
+					timestamp,
+					body,
+				),
+			},
+			body,
+			// A redirect could lead to a non-public address, so it fails the delivery
+			redirect: "manual",
+			signal: AbortSignal.timeout(APP_CONSTANTS.WEBHOOK.REQUEST_TIMEOUT_MS),
+		});
+		statusCode = response.status;
+
+		if (response.ok) {
+			await client.query(
+				`UPDATE webhook_deliveries
+                 SET status = 'succeeded', attempts = attempts + 1, last_status_code = $2,
+                     last_error = NULL, delivered_at = NOW()
+                 WHERE id = $1`,
+				[delivery.id, statusCode],
+			);
+			return true;
+		}
+		errorMessage =
+			response.status >= 300 && response.status < 400
+				? `Receiver redirected with status ${response.status}, redirects are not followed`
+				: `Receiver responded with status ${response.status}`;
+	} catch (error) {
+		errorMessage = error instanceof Error ? error.message : "Request failed";
+	}
+
+	await recordDeliveryFailure(client, delivery, statusCode, errorMessage);
+	return false;
+}
+
+/**
+ * Sends the due deliveries of one webhook in order. The rest wait for the next run once
+ * one fails, so an unreachable receiver costs one request timeout per run.
+ */
+async function sendWebhookDeliveries(
+	client: Client,
+	deliveries: DueDelivery[],
+): Promise<void> {
+	for (const delivery of deliveries) {
+		if (!(await sendWebhookDelivery(client, delivery))) {
+			return;
+		}
+	}
+}
+
+/**
+ * Sends every due pending delivery, to different webhooks concurrently.
+ * Concurrent calls are coalesced into one run.
+ */
+export async function dispatchWebhookDeliveries(client: Client): Promise<void> {
+	if (dispatching) {
+		dispatchRequested = true;
+		return;
+	}
+
+	dispatching = true;
+	try {
+		do {
+			dispatchRequested = false;
+			const result = await client.query<DueDelivery>(
+				`SELECT d.id::text AS id, d.webhook_id, w.url, w.secret, d.payload, d.attempts
+                 FROM webhook_deliveries d
+                 JOIN webhooks w ON w.id = d.webhook_id
+                 WHERE d.status = 'pending' AND d.next_attempt_at <= NOW()
+                 ORDER BY d.id
+                 LIMIT $1`,
+				[APP_CONSTANTS.WEBHOOK.DISPATCH_BATCH_SIZE],
+			);
+
+			const byWebhook = new Map<string, DueDelivery[]>();
+			for (const delivery of result.rows) {
+				const deliveries = byWebhook.get(delivery.webhook_id) ?? [];
+				deliveries.push(delivery);
+				byWebhook.set(delivery.webhook_id, deliveries);
+			}
+			await Promise.all(
+				Array.from(byWebhook.values(), (deliveries) =>
+					sendWebhookDeliveries(client, deliveries),
+				),
+			);
+			if (result.rows.length === APP_CONSTANTS.WEBHOOK.DISPATCH_BATCH_SIZE) {
+				dispatchRequested = true;
+			}
+		} while (dispatchRequested);
+	} catch (error) {
+		console.error("Error dispatching webhook deliveries:", error);
+	} finally {
+		dispatching = false;
+	}
+}
+
+/**
+ * Starts following webhook subscriptions and dispatching their deliveries.
+ */
+export function startWebhookWorker(client: Client): void {
+	void syncWebhookSubscriptions(client);
+	void dispatchWebhookDeliveries(client);
+
+	// Picks up event tables created after registration and webhooks of removed contracts
+	setInterval(
+		() => void syncWebhookSubscriptions(client),
+		APP_CONSTANTS.WEBHOOK.SYNC_INTERVAL_MS,
+	);
+	// Retries become due over time, so poll in addition to dispatching on enqueue
+	setInterval(
+		() => void dispatchWebhookDeliveries(client),
+		APP_CONSTANTS.WEBHOOK.POLL_INTERVAL_MS,
+	);
+}
+
+// ===== MANAGEMENT =====
+
+/**
+ * Checks whether an IP address is loopback, private, link-local (which includes cloud
+ * metadata endpoints such as 169.254.169.254), carrier-grade NAT, multicast or
+ * unspecified.
+ */
+function isNonPublicAddress(address: string): boolean {
+	if (isIPv4(address)) {
+		const [a, b] = address.split(".").map(Number);
+		return (
+			a === 0 ||
+			a === 10 ||
+			a === 127 ||
+			(a === 100 && b >= 64 && b <= 127) ||
+			(a === 169 && b === 254) ||
+			(a === 172 && b >= 16 && b <= 31) ||
+			(a === 192 && b === 168) ||
+			a >= 224
+		);
+	}
+
+	const normalized = address.toLowerCase();
+	// IPv4-mapped addresses, written dotted or as two hex groups
+	const mappedDotted = normalized.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+	if (mappedDotted) {
+		return isNonPublicAddress(mappedDotted[1]);
+	}
+	const mappedHex = normalized.match(
+		/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/,
+	);
+	if (mappedHex) {
+		const high = parseInt(mappedHex[1], 16);
+		const low = parseInt(mappedHex[2], 16);
+		return isNonPublicAddress(
+			`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`,
+		);
+	}
+	return (
+		normalized === "::" ||
+		normalized === "::1" ||
+		/^f[cd]/.test(normalized) ||
+		/^fe[89ab]/.test(normalized) ||
+		normalized.startsWith("ff")
+	);
+}
+
+/**
+ * Rejects webhook URLs whose host is or resolves to a non-public address, so webhooks
+ * cannot be used to reach the indexer's own network or cloud metadata services.
+ * Checked when a webhook is registered and again before each delivery.
+ */
+async function validateWebhookHost(url: URL): Promise<void> {
+	if (APP_CONSTANTS.WEBHOOK.ALLOW_PRIVATE_HOSTS) {
+		return;
+	}
+	const hostname = url.hostname.replace(/^\[|\]$/g, "").toLowerCase();
+	if (hostname === "localhost" || hostname.endsWith(".localhost")) {
+		throw new WebhookError("Webhook URL must not point to localhost");
+	}
+
+	let addresses: string[];
+	try {
+		addresses = isIP(hostname)
+			? [hostname]
+			: (await lookup(hostname, { all: true })).map((entry) => entry.address);
+	} catch {
+		throw new WebhookError(`Webhook host "${hostname}" could not be resolved`);
+	}
+	if (addresses.some(isNonPublicAddress)) {
+		throw new WebhookError(
+			"Webhook URL must not point to a local, private or metadata address",
+		);
+	}
+}
+
+/**
+ * Registers a webhook for a contract. The secret is only returned here.
+ */
+export async function createWebhook(
+	client: Client,
+	request: CreateWebhookRequest,
+): Promise<Webhook & { secret: string }> {
+	let url: URL;
+	try {
+		url = new URL(request.url);
+	} catch {
+		throw new WebhookError("Invalid webhook URL");
+	}
+	if (url.protocol !== "http:" && url.protocol !== "https:") {
+		throw new WebhookError("Webhook URL must use http or https");
+	}
+	await validateWebhookHost(url);
+
+	const secret = request.secret || randomBytes(32).toString("hex");
+	const eventNames =
+		request.event_names && request.event_names.length > 0
+			? request.event_names
+			: null;
+
+	const result = await client.query<WebhookRow>(
+		`WITH w AS (
+            INSERT INTO webhooks (name_uuid, url, secret, event_names)
+            SELECT name_uuid, $3, $4, $5
+            FROM name_uuid_indexer_id_mapping
+            WHERE contract_name = $1 AND report_id = $2
+            RETURNING *
+         )
+         SELECT ${WEBHOOK_COLUMNS}
+         FROM w
+         JOIN name_uuid_indexer_id_mapping m ON m.name_uuid = w.name_uuid`,
+		[
+			request.contract_name,
+			request.report_id,
+			url.toString(),
+			secret,
+			eventNames,
+		],
+	);
+
+	const webhook = result.rows[0];
+	if (!webhook) {
+		throw new WebhookError(
+			`Contract "${request.contract_name}_${request.report_id}" not found`,
+		);
+	}
+
+	await syncWebhookSubscription(client, webhook);
+
+	return { ...toWebhook(webhook), secret };
+}
+
+export async function listWebhooks(
+	client: Client,
+	filters: { contract_name?: string; report_id?: string },
+): Promise<Webhook[]> {
+	const result = await client.query<WebhookRow>(
+		`SELECT ${WEBHOOK_COLUMNS}
+         FROM webhooks w
+         JOIN name_uuid_indexer_id_mapping m ON m.name_uuid = w.name_uuid
+         ORDER BY w.created_at`,
+	);
+
+	return result.rows
+		.map(toWebhook)
+		.filter(
+			(webhook) =>
+				(!filters.contract_name ||
+					webhook.contract_name === filters.contract_name) &&
+				(!filters.report_id || webhook.report_id === filters.report_id),
+		);
+}
+
+export async function deleteWebhook(
+	client: Client,
+	webhookId: string,
+): Promise<void> {
+	const result = UUID_PATTERN.test(webhookId)
+		? await client.query("DELETE FROM webhooks WHERE id = $1", [webhookId])
+		: null;
+	if (!result?.rowCount) {
+		throw new WebhookError(`Webhook "${webhookId}" not found`);
+	}
+
+	const current = webhookSubscriptions.get(webhookId);
+	if (current) {
+		closeEventSubscription(current.subscription);
+		webhookSubscriptions.delete(webhookId);
+	}
+}
+
+/**
+ * Lists the most recent deliveries of a webhook, newest first.
+ */
+export async function listWebhookDeliveries(
+	client: Client,
+	webhookId: string,
+	options: { status?: WebhookDeliveryStatus; limit?: number },
+): Promise<WebhookDelivery[]> {
+	if (!UUID_PATTERN.test(webhookId)) {
+		throw new WebhookError(`Webhook "${webhookId}" not found`);
+	}
+
+	const limit = Math.min(
+		Math.max(Math.floor(options.limit ?? 50), 1),
+		APP_CONSTANTS.MAX_EVENTS_PER_PAGE,
+	);
+	const result = await client.query<
+		Omit<WebhookDelivery, "next_attempt_at" | "created_at" | "delivered_at"> & {
+			next_attempt_at: Date | null;
+			created_at: Date;
+			delivered_at: Date | null;
+		}
+	>(
+		`SELECT id::text AS id, event_name, status, attempts,
+                CASE WHEN status = 'pending' THEN next_attempt_at END AS next_attempt_at,
+                last_status_code, last_error, created_at, delivered_at,
+                jsonb_array_length(payload->'events') AS event_count
+         FROM webhook_deliveries
+         WHERE webhook_id = $1 AND ($2::text IS NULL OR status = $2)
+         ORDER BY id DESC
+         LIMIT $3`,
+		[webhookId, options.status ?? null, limit],
+	);
+	return result.rows.map((row) => ({
+		...row,
+		next_attempt_at: row.next_attempt_at?.toISOString() ?? null,
+		created_at: row.created_at.toISOString(),
+		delivered_at: row.delivered_at?.toISOString() ?? null,
+	}));
+}
+
+/**
+ * Moves a dead-lettered delivery back to the queue with a fresh retry budget.
+ */
+export async function retryWebhookDelivery(
+	client: Client,
+	webhookId: string,
+	deliveryId: string,
+): Promise<void> {
+	const result =
+		UUID_PATTERN.test(webhookId) && /^\d+$/.test(deliveryId)
+			? await client.query(
+					`WITH requeued AS (
+                        UPDATE webhook_deliveries
+                        SET status = 'pending', attempts = 0, next_attempt_at = NOW()
+                        WHERE id = $2 AND webhook_id = $1 AND status = 'dead'
+                        RETURNING id
+                     )
+                     DELETE FROM webhook_dead_letters
+                     WHERE delivery_id IN (SELECT id FROM requeued)
+                     RETURNING delivery_id`,
+					[webhookId, deliveryId],
+				)
+			: null;
+	if (!result?.rowCount) {
+		throw new WebhookError(
+			`Dead-lettered delivery "${deliveryId}" not found for webhook "${webhookId}"`,
+		);
+	}
+
+	void dispatchWebhookDeliveries(client);
+}
@@ -0,0 +1,60 @@
+import { describe, expect, test } from "bun:test";
+import { createApiKey } from "../src/auth.js";
+import { ApiKeyError } from "../src/types.js";
+import { createFakeClient } from "./fixtures.js";
+
+/**
+ * A database returning the inserted key, with `report_ids` as stored.
+ */
+function createKeyDatabase() {
+	return createFakeClient((sql, params) =>
+		sql.startsWith("INSERT INTO api_keys")
+			? {
+					rows: [
+						{
+							id: "6f1c8f2e-1111-4222-8333-444455556666",
+							name: params[0],
+							key_prefix: params[1],
+							scopes: params[3],
+							report_ids: params[4],
+							created_at: new Date(),
+							last_used_at: null,
+							revoked_at: null,
+						},
+					],
+				}
+			: undefined,
+	);
+}
+
+describe("createApiKey", () => {
+	test("rejects an empty report restriction", async () => {
+		const { client, queries } = createKeyDatabase();
+
+		await expect(
+			createApiKey(client, {
+				name: "customer",
+				scopes: ["events:read"],
+				report_ids: [],
+			}),
+		).rejects.toThrow(ApiKeyError);
+		expect(queries).toHaveLength(0);
+	});
+
+	test("stores the listed reports, or none for every report", async () => {
+		const { client } = createKeyDatabase();
+
+		const restricted = await createApiKey(client, {
+			name: "customer",
+			scopes: ["events:read"],
+			report_ids: ["report-a"],
+		});
+		const unrestricted = await createApiKey(client, {
+			name: "internal",
+			scopes: ["events:read"],
+		});
+
+		expect(restricted.report_ids).toEqual(["report-a"]);
+		expect(unrestricted.report_ids).toBeNull();
+	});
+});
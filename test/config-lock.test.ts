@@ -0,0 +1,116 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import * as fs from "fs";
+import { APP_CONSTANTS, withConfigLock } from "../src/helpers.js";
+
+const LOCK_PATH = `${APP_CONSTANTS.CONFIG_FILE_PATH}.lock`;
+
+// Above the Linux PID limit, so no process has it
+const DEAD_PID = 999999999;
+
+/**
+ * Returns the PID namespace this process records in the lock files it writes.
+ */
+async function readOwnNamespace(): Promise<string> {
+	const owner = await withConfigLock(async () =>
+		fs.readFileSync(LOCK_PATH, "utf8"),
+	);
+	return owner.split(" ")[0];
+}
+
+function setLockTimeout(timeoutMs: number): void {
+	(APP_CONSTANTS.CONFIG_LOCK as { TIMEOUT_MS: number }).TIMEOUT_MS = timeoutMs;
+}
+
+describe("withConfigLock", () => {
+	const defaultTimeout = APP_CONSTANTS.CONFIG_LOCK.TIMEOUT_MS;
+
+	afterEach(() => {
+		fs.rmSync(LOCK_PATH, { force: true });
+		setLockTimeout(defaultTimeout);
+	});
+
+	test("takes over the lock of a process that is gone", async () => {
+		const namespace = await readOwnNamespace();
+		fs.writeFileSync(LOCK_PATH, `${namespace} ${DEAD_PID} leftover`);
+
+		const owner = await withConfigLock(async () =>
+			fs.readFileSync(LOCK_PATH, "utf8"),
+		);
+
+		expect(owner.startsWith(`${namespace} ${process.pid} `)).toBe(true);
+		expect(fs.existsSync(LOCK_PATH)).toBe(false);
+	});
+
+	test("takes over a lock left with this process's PID", async () => {
+		const namespace = await readOwnNamespace();
+		const leftover = `${namespace} ${process.pid} from-before-restart`;
+		fs.writeFileSync(LOCK_PATH, leftover);
+
+		const owner = await withConfigLock(async () =>
+			fs.readFileSync(LOCK_PATH, "utf8"),
+		);
+
+		expect(owner).not.toBe(leftover);
+		expect(fs.existsSync(LOCK_PATH)).toBe(false);
+	});
+
+	test("waits for a recent lock of another PID namespace", async () => {
+		// The PID means nothing here, so it is not checked
+		fs.writeFileSync(LOCK_PATH, `other-container ${DEAD_PID} holder`);
+		setLockTimeout(200);
+
+		await expect(withConfigLock(async () => undefined)).rejects.toThrow(
+			/Timed out waiting for the configuration lock/,
+		);
+		expect(fs.readFileSync(LOCK_PATH, "utf8")).toBe(
+			`other-container ${DEAD_PID} holder`,
+		);
+	});
+
+	test("takes over a lock of another PID namespace once it is stale", async () => {
+		fs.writeFileSync(LOCK_PATH, `other-container ${process.pid} holder`);
+		const modifiedAt = new Date(
+			Date.now() - APP_CONSTANTS.CONFIG_LOCK.STALE_MS - 1000,
+		);
+		fs.utimesSync(LOCK_PATH, modifiedAt, modifiedAt);
+
+		const owner = await withConfigLock(async () =>
+			fs.readFileSync(LOCK_PATH, "utf8"),
+		);
+
+		expect(owner.startsWith("other-container")).toBe(false);
+	});
+
+	test("keeps its lock recent while holding it", async () => {
+		const config = APP_CONSTANTS.CONFIG_LOCK as { REFRESH_MS: number };
+		const defaultRefresh = config.REFRESH_MS;
+		config.REFRESH_MS = 20;
+
+		try {
+			const modifiedAt = await withConfigLock(async () => {
+				const longAgo = new Date(Date.now() - 60000);
+				fs.utimesSync(LOCK_PATH, longAgo, longAgo);
+				await Bun.sleep(100);
+				return fs.statSync(LOCK_PATH).mtimeMs;
+			});
+
+			expect(Date.now() - modifiedAt).toBeLessThan(
+				APP_CONSTANTS.CONFIG_LOCK.STALE_MS,
+			);
+		} finally {
+			config.REFRESH_MS = defaultRefresh;
+		}
+	});
+
+	test("only releases the lock while it still holds it", async () => {
+		const namespace = await readOwnNamespace();
+		await withConfigLock(async () => {
+			// Taken over by another process while the change ran
+			fs.writeFileSync(LOCK_PATH, `${namespace} ${process.ppid} other`);
+		});
+
+		expect(fs.readFileSync(LOCK_PATH, "utf8")).toBe(
+			`${namespace} ${process.ppid} other`,
+		);
+	});
+});
@@ -0,0 +1,80 @@
+/**
+ * Stand-ins for the database and the networks' RPC endpoints.
+ */
+
+import type { Client } from "pg";
+
+// The contract of the rindexer.yaml written by setup.ts, deployed on ethereum and base
+export const TEST_INDEXER_ID = "token_9f8e7d6c";
+export const TEST_SCHEMA_NAME = `test_project_${TEST_INDEXER_ID}`;
+
+export interface RecordedQuery {
+	sql: string;
+	params: unknown[];
+}
+
+type QueryResult = { rows: Record<string, unknown>[]; rowCount?: number };
+
+/**
+ * Creates a pg client answering queries with `respond`, which returns the result of a
+ * query or undefined for an empty one. Every query is recorded in `queries`.
+ */
+export function createFakeClient(
+	respond: (sql: string, params: unknown[]) => QueryResult | undefined,
+): { client: Client; queries: RecordedQuery[] } {
+	const queries: RecordedQuery[] = [];
+	const client = {
+		query: async (sql: string, params: unknown[] = []) => {
+			const normalizedSql = sql.replace(/\s+/g, " ").trim();
+			queries.push({ sql: normalizedSql, params });
+			const result = respond(normalizedSql, params) ?? { rows: [] };
+			return { rowCount: result.rows.length, ...result };
+		},
+	};
+	return { client: client as unknown as Client, queries };
+}
+
+/**
+ * Starts a JSON-RPC server answering single and batch calls with `respond`. Calls it
+ * answers with undefined fail with a JSON-RPC error. `calls` lists the methods called,
+ * `requests` counts HTTP requests, each holding one call or a batch.
+ */
+export function startRpcStub(
+	respond: (method: string, params: unknown[]) => unknown,
+): { url: string; calls: string[]; requests: number; stop: () => void } {
+	const calls: string[] = [];
+	const answer = (call: {
+		id: number;
+		method: string;
+		params?: unknown[];
+	}) => {
+		calls.push(call.method);
+		const result = respond(call.method, call.params ?? []);
+		return result === undefined
+			? {
+					jsonrpc: "2.0",
+					id: call.id,
+					error: { code: -32601, message: `${call.method} not stubbed` },
+				}
+			: { jsonrpc: "2.0", id: call.id, result };
+	};
+
+	const stub = {
+		url: "",
+		calls,
+		requests: 0,
+		stop: () => server.stop(true),
+	};
+	const server = Bun.serve({
+		port: 0,
+		async fetch(request) {
+			stub.requests++;
+			const body = await request.json();
+			return Response.json(
+				Array.isArray(body) ? body.map(answer) : answer(body),
+			);
+		},
+	});
+	stub.url = `http://127.0.0.1:${server.port}`;
+	return stub;
+}
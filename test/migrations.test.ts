@@ -0,0 +1,34 @@
+import { describe, expect, test } from "bun:test";
+import { migrateDatabase } from "../src/helpers.js";
+import { createFakeClient } from "./fixtures.js";
+
+describe("migrateDatabase", () => {
+	test("applies every schema script, creating tables before their references", async () => {
+		const { client, queries } = createFakeClient(() => undefined);
+
+		await migrateDatabase(client);
+
+		const createdTables = queries.flatMap(({ sql }) =>
+			Array.from(
+				sql.matchAll(/CREATE TABLE IF NOT EXISTS (\w+)/g),
+				(match) => match[1],
+			),
+		);
+		expect(createdTables).toEqual(
+			expect.arrayContaining([
+				"api_keys",
+				"block_timestamps",
+				"chain_reorgs",
+				"config_versions",
+				"contract_jobs",
+				"indexer_logs",
+				"name_uuid_indexer_id_mapping",
+				"retention_policies",
+				"webhooks",
+			]),
+		);
+		expect(createdTables.indexOf("name_uuid_indexer_id_mapping")).toBeLessThan(
+			createdTables.indexOf("webhooks"),
+		);
+	});
+});
@@ -0,0 +1,128 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { getContractProgress } from "../src/progress.js";
+import { EventQueryError } from "../src/types.js";
+import {
+	TEST_INDEXER_ID,
+	TEST_SCHEMA_NAME,
+	createFakeClient,
+	startRpcStub,
+} from "./fixtures.js";
+
+const INTERNAL_TABLE = `test_project_${TEST_INDEXER_ID}_transfer`;
+
+describe("getContractProgress", () => {
+	let stopRpc = () => {};
+
+	afterEach(() => {
+		stopRpc();
+	});
+
+	function startChains(heads: { ethereum?: string; base?: string }) {
+		const ethereum = startRpcStub((method) =>
+			method === "eth_blockNumber" ? heads.ethereum : undefined,
+		);
+		const base = startRpcStub((method) =>
+			method === "eth_blockNumber" ? heads.base : undefined,
+		);
+		process.env.ethereum_ENDPOINT = ethereum.url;
+		process.env.base_ENDPOINT = base.url;
+		stopRpc = () => {
+			ethereum.stop();
+			base.stop();
+		};
+	}
+
+	test("compares rindexer_internal progress with each network's chain head", async () => {
+		// ethereum from block 1000 to 2000, base from block 500 and caught up
+		startChains({ ethereum: "0x7d0", base: "0x258" });
+		const { client } = createFakeClient((sql) => {
+			if (sql.includes("FROM information_schema.columns")) {
+				return { rows: [{ table_name: INTERNAL_TABLE }] };
+			}
+			if (sql.includes(`FROM rindexer_internal."${INTERNAL_TABLE}"`)) {
+				return {
+					rows: [
+						{ network: "ethereum", last_synced_block: "1500" },
+						{ network: "base", last_synced_block: "600" },
+					],
+				};
+			}
+			throw new Error(`Unexpected query: ${sql}`);
+		});
+
+		const progress = await getContractProgress(client, TEST_INDEXER_ID);
+
+		expect(progress.indexer_id).toBe(TEST_INDEXER_ID);
+		expect(progress.networks).toEqual([
+			{
+				network: "ethereum",
+				start_block: "1000",
+				last_indexed_block: "1500",
+				chain_head: "2000",
+				lag_blocks: "500",
+				percent_complete: 50.05,
+				blocks_per_second: null,
+				eta_seconds: null,
+				source: "rindexer_internal",
+				error: null,
+			},
+			{
+				network: "base",
+				start_block: "500",
+				last_indexed_block: "600",
+				chain_head: "600",
+				lag_blocks: "0",
+				percent_complete: 100,
+				blocks_per_second: null,
+				eta_seconds: 0,
+				source: "rindexer_internal",
+				error: null,
+			},
+		]);
+	});
+
+	test("falls back to event tables and reports RPC failures per network", async () => {
+		startChains({ ethereum: "0x7d0" });
+		const { client } = createFakeClient((sql, params) => {
+			if (sql.includes("FROM information_schema.columns")) {
+				return { rows: [] };
+			}
+			if (sql.includes("FROM information_schema.tables")) {
+				return {
+					rows:
+						params[0] === TEST_SCHEMA_NAME ? [{ table_name: "transfer" }] : [],
+				};
+			}
+			if (sql.includes(`FROM "${TEST_SCHEMA_NAME}"."transfer"`)) {
+				return { rows: [{ network: "ethereum", last_block: "1999" }] };
+			}
+			throw new Error(`Unexpected query: ${sql}`);
+		});
+
+		const progress = await getContractProgress(client, TEST_INDEXER_ID);
+
+		expect(progress.networks[0]).toMatchObject({
+			network: "ethereum",
+			last_indexed_block: "1999",
+			chain_head: "2000",
+			lag_blocks: "1",
+			source: "event_tables",
+			error: null,
+		});
+		expect(progress.networks[1]).toMatchObject({
+			network: "base",
+			last_indexed_block: null,
+			chain_head: null,
+			source: null,
+			error: "RPC call eth_blockNumber failed: eth_blockNumber not stubbed",
+		});
+	});
+
+	test("rejects contracts missing from rindexer.yaml", async () => {
+		const { client } = createFakeClient(() => undefined);
+
+		await expect(
+			getContractProgress(client, "unknown_contract"),
+		).rejects.toThrow(EventQueryError);
+	});
+});
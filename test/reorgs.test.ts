@@ -0,0 +1,273 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { APP_CONSTANTS } from "../src/helpers.js";
+import { queryEventsPage } from "../src/events.js";
+import { checkNetworkForReorgs } from "../src/reorgs.js";
+import {
+	TEST_SCHEMA_NAME,
+	createFakeClient,
+	startRpcStub,
+} from "./fixtures.js";
+
+const EVENT_COLUMNS = [
+	"network",
+	"block_number",
+	"block_hash",
+	"log_index",
+	"tx_hash",
+	"block_timestamp",
+];
+
+interface EventRow {
+	network: string;
+	block_number: string;
+	block_hash: string;
+	log_index: string;
+	tx_hash: string;
+	block_timestamp: string;
+}
+
+function eventRow(blockNumber: number, blockHash: string): EventRow {
+	return {
+		network: "ethereum",
+		block_number: String(blockNumber),
+		block_hash: blockHash,
+		log_index: "0",
+		tx_hash: `0x${blockNumber.toString(16).padStart(64, "0")}`,
+		block_timestamp: new Date(blockNumber * 12000).toISOString(),
+	};
+}
+
+/**
+ * A database holding one event table of the test contract, answering the queries of
+ * the reorg checker and of event pages.
+ */
+function createEventDatabase(rows: EventRow[]) {
+	const orphaned: Array<{ block_number: string; block_hash: string }> = [];
+	const reorgs: Array<{ id: number; params: unknown[] }> = [];
+	const isOrphaned = (row: EventRow) =>
+		orphaned.some(
+			(block) =>
+				block.block_number === row.block_number &&
+				block.block_hash === row.block_hash,
+		);
+
+	const database = createFakeClient((sql, params) => {
+		if (sql.includes("FROM information_schema.tables")) {
+			return {
+				rows:
+					params[0] === TEST_SCHEMA_NAME ? [{ table_name: "transfer" }] : [],
+			};
+		}
+		if (sql.includes("FROM information_schema.columns")) {
+			return {
+				rows: EVENT_COLUMNS.map((column_name) => ({
+					column_name,
+					data_type: "text",
+				})),
+			};
+		}
+		if (sql.startsWith("SELECT DISTINCT block_number::text")) {
+			return {
+				rows: rows
+					.filter((row) => !isOrphaned(row))
+					.map(({ block_number, block_hash }) => ({
+						block_number,
+						block_hash,
+					})),
+			};
+		}
+		if (sql.startsWith("INSERT INTO chain_reorgs")) {
+			reorgs.push({ id: reorgs.length + 1, params });
+			return { rows: [{ id: reorgs.length }] };
+		}
+		if (sql.startsWith("INSERT INTO orphaned_blocks")) {
+			const [, blockNumbers, blockHashes] = params as [
+				string,
+				string[],
+				string[],
+			];
+			blockNumbers.forEach((block_number, index) => {
+				orphaned.push({ block_number, block_hash: blockHashes[index] });
+			});
+			return undefined;
+		}
+		if (sql.startsWith("SELECT COUNT(*)::int AS count")) {
+			return { rows: [{ count: rows.filter(isOrphaned).length }] };
+		}
+		if (sql.startsWith("DELETE FROM")) {
+			const deleted = rows.filter(isOrphaned);
+			rows.splice(0, rows.length, ...rows.filter((row) => !isOrphaned(row)));
+			return { rows: [], rowCount: deleted.length };
+		}
+		if (sql.startsWith("UPDATE chain_reorgs")) {
+			const [id, eventsAffected] = params as [number, number];
+			const [network, firstBlock, lastBlock, chainHead, action, blocks] =
+				reorgs[id - 1].params as string[];
+			return {
+				rows: [
+					{
+						id,
+						network,
+						first_block: firstBlock,
+						last_block: lastBlock,
+						chain_head: chainHead,
+						action,
+						events_affected: eventsAffected,
+						blocks: JSON.parse(blocks),
+						detected_at: new Date(),
+					},
+				],
+			};
+		}
+		if (sql.startsWith(`SELECT * FROM "${TEST_SCHEMA_NAME}"."transfer"`)) {
+			// Events of orphaned blocks are only left out when the query asks for it
+			const visible = sql.includes("orphaned_blocks")
+				? rows.filter((row) => !isOrphaned(row))
+				: rows;
+			return {
+				rows: visible
+					.slice()
+					.sort((a, b) => Number(b.block_number) - Number(a.block_number)),
+			};
+		}
+		throw new Error(`Unexpected query: ${sql}`);
+	});
+	return { ...database, rows, orphaned };
+}
+
+/**
+ * A chain at block 100 whose block 96 was replaced since it was indexed.
+ */
+function startReorgedChain() {
+	return startRpcStub((method, params) => {
+		if (method === "eth_blockNumber") {
+			return "0x64";
+		}
+		if (method === "eth_getBlockByNumber") {
+			const blockNumber = Number(params[0]);
+			return { hash: blockNumber === 96 ? "0xccc" : `0x${blockNumber}` };
+		}
+		return undefined;
+	});
+}
+
+function setReorgAction(action: "mark" | "delete"): void {
+	(APP_CONSTANTS.REORG as { ACTION: string }).ACTION = action;
+}
+
+describe("checkNetworkForReorgs", () => {
+	const defaultAction = APP_CONSTANTS.REORG.ACTION;
+	let stopRpc = () => {};
+
+	afterEach(() => {
+		stopRpc();
+		setReorgAction(defaultAction);
+	});
+
+	test("records a reorg and hides events of orphaned blocks", async () => {
+		const rpc = startReorgedChain();
+		stopRpc = rpc.stop;
+		process.env.ethereum_ENDPOINT = rpc.url;
+		setReorgAction("mark");
+		const database = createEventDatabase([
+			eventRow(95, "0x95"),
+			eventRow(96, "0xbbb"),
+			eventRow(96, "0xbbb"),
+		]);
+
+		const reorg = await checkNetworkForReorgs(database.client, "ethereum", 10);
+
+		expect(reorg).toMatchObject({
+			network: "ethereum",
+			first_block: "96",
+			last_block: "96",
+			chain_head: "100",
+			action: "mark",
+			events_affected: 2,
+			blocks: [
+				{ block_number: "96", orphaned_hash: "0xbbb", canonical_hash: "0xccc" },
+			],
+		});
+		expect(database.orphaned).toEqual([
+			{ block_number: "96", block_hash: "0xbbb" },
+		]);
+		expect(database.rows).toHaveLength(3);
+
+		const page = await queryEventsPage(
+			database.client,
+			TEST_SCHEMA_NAME,
+			"transfer",
+			{ sortOrder: -1, filters: {} },
+		);
+		expect(page.events.map((event) => event.block_number)).toEqual(["95"]);
+	});
+
+	test("deletes events of orphaned blocks with REORG_ACTION=delete", async () => {
+		const rpc = startReorgedChain();
+		stopRpc = rpc.stop;
+		process.env.ethereum_ENDPOINT = rpc.url;
+		setReorgAction("delete");
+		const database = createEventDatabase([
+			eventRow(95, "0x95"),
+			eventRow(96, "0xbbb"),
+		]);
+
+		const reorg = await checkNetworkForReorgs(database.client, "ethereum", 10);
+
+		expect(reorg).toMatchObject({ action: "delete", events_affected: 1 });
+		expect(database.rows.map((row) => row.block_number)).toEqual(["95"]);
+	});
+
+	test("finds nothing when stored hashes are canonical", async () => {
+		const rpc = startReorgedChain();
+		stopRpc = rpc.stop;
+		process.env.ethereum_ENDPOINT = rpc.url;
+		const database = createEventDatabase([
+			eventRow(95, "0x95"),
+			eventRow(96, "0xccc"),
+		]);
+
+		expect(
+			await checkNetworkForReorgs(database.client, "ethereum", 10),
+		).toBeNull();
+		expect(database.orphaned).toEqual([]);
+	});
+});
+
+describe("min_confirmations", () => {
+	test("uses the contract's networks and reuses chain heads", async () => {
+		const rpc = startReorgedChain();
+		process.env.ethereum_ENDPOINT = rpc.url;
+		process.env.base_ENDPOINT = rpc.url;
+		const database = createEventDatabase([
+			eventRow(95, "0x95"),
+			eventRow(99, "0x99"),
+		]);
+
+		try {
+			for (let i = 0; i < 2; i++) {
+				await queryEventsPage(database.client, TEST_SCHEMA_NAME, "transfer", {
+					sortOrder: -1,
+					filters: { min_confirmations: 5 },
+				});
+			}
+		} finally {
+			rpc.stop();
+		}
+
+		// One chain head per network of the contract, shared by both pages
+		expect(rpc.calls).toEqual(["eth_blockNumber", "eth_blockNumber"]);
+		const pageQueries = database.queries.filter((query) =>
+			query.sql.startsWith("SELECT * FROM"),
+		);
+		expect(pageQueries).toHaveLength(2);
+		expect(
+			database.queries.some((query) =>
+				query.sql.includes("SELECT DISTINCT network"),
+			),
+		).toBe(false);
+		expect(pageQueries[0].params).toEqual(
+			expect.arrayContaining(["ethereum", "96", "base", "96"]),
+		);
+	});
+});
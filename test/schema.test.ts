@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import * as fs from "fs";
+import * as path from "path";
+import { APP_CONSTANTS } from "../src/helpers.js";
+import { getEventSchemaComponents } from "../src/schema.js";
+import { TEST_INDEXER_ID, createFakeClient } from "./fixtures.js";
+
+const ABI_PATH = path.join(APP_CONSTANTS.ABIS_DIR, `${TEST_INDEXER_ID}.json`);
+
+const TRANSFER_ABI = [
+	{
+		type: "event",
+		name: "Transfer",
+		anonymous: false,
+		inputs: [
+			{ name: "from", type: "address", indexed: true },
+			{ name: "to", type: "address", indexed: true },
+			{ name: "value", type: "uint256", indexed: false },
+		],
+	},
+];
+
+function setSchemaTtl(ttlMs: number): void {
+	(APP_CONSTANTS as { DOCS_SCHEMA_TTL_MS: number }).DOCS_SCHEMA_TTL_MS = ttlMs;
+}
+
+/**
+ * A database mapping the test contract, and one missing from rindexer.yaml, to
+ * report-a. rindexer has not created their event tables yet.
+ */
+function createSchemaDatabase(failIntrospection = false) {
+	return createFakeClient((sql) => {
+		if (sql.includes("FROM name_uuid_indexer_id_mapping")) {
+			return {
+				rows: [
+					{ indexer_id: TEST_INDEXER_ID, report_id: "report-a" },
+					{ indexer_id: "removed_contract", report_id: "report-a" },
+				],
+			};
+		}
+		if (failIntrospection) {
+			throw new Error("connection lost");
+		}
+		return undefined;
+	});
+}
+
+describe("getEventSchemaComponents", () => {
+	const defaultTtl = APP_CONSTANTS.DOCS_SCHEMA_TTL_MS;
+
+	beforeEach(() => {
+		fs.writeFileSync(ABI_PATH, JSON.stringify(TRANSFER_ABI));
+		// Every call rebuilds the schemas unless a test says otherwise
+		setSchemaTtl(0);
+	});
+
+	afterEach(() => {
+		fs.rmSync(ABI_PATH, { force: true });
+		setSchemaTtl(defaultTtl);
+	});
+
+	test("names the row schema of each event after its contract", async () => {
+		const { client } = createSchemaDatabase();
+
+		const components = await getEventSchemaComponents(client, () => true);
+
+		expect(Object.keys(components)).toEqual([`${TEST_INDEXER_ID}_transfer`]);
+		expect(components[`${TEST_INDEXER_ID}_transfer`]).toMatchObject({
+			title: "transfer",
+			type: "object",
+			properties: {
+				value: {
+					type: "string",
+					pattern: "^-?[0-9]+$",
+					description: "value (uint256)",
+				},
+				block_timestamp: { type: "string", format: "date-time" },
+			},
+		});
+	});
+
+	test("only returns contracts of allowed reports", async () => {
+		const { client } = createSchemaDatabase();
+
+		expect(
+			await getEventSchemaComponents(
+				client,
+				(reportId) => reportId === "report-b",
+			),
+		).toEqual({});
+	});
+
+	test("reuses the schemas until they expire", async () => {
+		const { client, queries } = createSchemaDatabase();
+
+		await getEventSchemaComponents(client, () => true);
+		setSchemaTtl(defaultTtl);
+		await getEventSchemaComponents(client, () => true);
+		await getEventSchemaComponents(client, () => false);
+
+		expect(
+			queries.filter((query) =>
+				query.sql.includes("FROM name_uuid_indexer_id_mapping"),
+			),
+		).toHaveLength(1);
+	});
+
+	test("leaves out contracts whose schemas cannot be read", async () => {
+		const { client } = createSchemaDatabase(true);
+
+		expect(await getEventSchemaComponents(client, () => true)).toEqual({});
+	});
+});
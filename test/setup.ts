@@ -0,0 +1,48 @@
+/**
+ * Preloaded before every test file: points the app at a temporary workspace holding a
+ * rindexer.yaml with one contract deployed on two networks, whose RPC URLs tests set
+ * to their stub servers.
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { TEST_INDEXER_ID } from "./fixtures.js";
+
+const workspaceDir = fs.mkdtempSync(path.join(os.tmpdir(), "auto-indexer-"));
+fs.mkdirSync(path.join(workspaceDir, "abis"));
+fs.writeFileSync(
+	path.join(workspaceDir, "rindexer.yaml"),
+	`name: test_project
+project_type: no-code
+networks:
+  - name: ethereum
+    chain_id: 1
+    rpc: \${ethereum_ENDPOINT}
+  - name: base
+    chain_id: 8453
+    rpc: \${base_ENDPOINT}
+storage:
+  postgres:
+    enabled: true
+contracts:
+  - name: ${TEST_INDEXER_ID}
+    details:
+      - network: ethereum
+        address: "0x1111111111111111111111111111111111111111"
+        start_block: "1000"
+      - network: base
+        address: "0x2222222222222222222222222222222222222222"
+        start_block: "500"
+    abi: ./abis/${TEST_INDEXER_ID}.json
+`,
+);
+process.on("exit", () => {
+	fs.rmSync(workspaceDir, { recursive: true, force: true });
+});
+
+process.env.WORKSPACE_DIR = workspaceDir;
+process.env.REORG_CHECK_NETWORKS = "ethereum:10";
+// Overwritten by tests with the URL of their stub RPC
+process.env.ethereum_ENDPOINT = "http://127.0.0.1:1";
+process.env.base_ENDPOINT = "http://127.0.0.1:1";
@@ -0,0 +1,153 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { getEventStats } from "../src/stats.js";
+import { EventQueryError } from "../src/types.js";
+import {
+	TEST_SCHEMA_NAME,
+	createFakeClient,
+	startRpcStub,
+} from "./fixtures.js";
+
+// One block every ten minutes
+const BLOCK_TIME_SECONDS = 600;
+
+function blockTime(blockNumber: number): Date {
+	return new Date(blockNumber * BLOCK_TIME_SECONDS * 1000);
+}
+
+/**
+ * A database holding an event table without block_timestamp column, with events at
+ * the given blocks of the ethereum network and an empty timestamp cache.
+ */
+function createStatsDatabase(eventBlocks: number[]) {
+	return createFakeClient((sql, params) => {
+		if (sql.includes("FROM information_schema.columns")) {
+			return {
+				rows: ["network", "block_number", "log_index"].map((column_name) => ({
+					column_name,
+					data_type: "numeric",
+				})),
+			};
+		}
+		if (sql.startsWith("SELECT COUNT(*)::int AS total_count")) {
+			return {
+				rows: [
+					{
+						total_count: eventBlocks.length,
+						first_block: String(Math.min(...eventBlocks)),
+						last_block: String(Math.max(...eventBlocks)),
+					},
+				],
+			};
+		}
+		if (sql.startsWith("SELECT network, MIN(block_number)")) {
+			return {
+				rows: [
+					{
+						network: "ethereum",
+						min_block: String(Math.min(...eventBlocks)),
+						max_block: String(Math.max(...eventBlocks)),
+					},
+				],
+			};
+		}
+		if (sql.includes("block_timestamps")) {
+			return undefined;
+		}
+		if (sql.startsWith("SELECT width_bucket(block_number")) {
+			// width_bucket: the number of boundaries at or below the block
+			const boundaries = (params[params.length - 1] as string[]).map(Number);
+			const buckets = new Map<number, number>();
+			for (const block of eventBlocks) {
+				const bucket = boundaries.filter(
+					(boundary) => boundary <= block,
+				).length;
+				buckets.set(bucket, (buckets.get(bucket) ?? 0) + 1);
+			}
+			return {
+				rows: Array.from(buckets, ([bucket, count]) => ({ bucket, count })),
+			};
+		}
+		throw new Error(`Unexpected query: ${sql}`);
+	});
+}
+
+describe("getEventStats time buckets", () => {
+	let stopRpc = () => {};
+
+	afterEach(() => {
+		stopRpc();
+	});
+
+	function startChain() {
+		const rpc = startRpcStub((method, params) =>
+			method === "eth_getBlockByNumber"
+				? {
+						timestamp: `0x${(Number(params[0]) * BLOCK_TIME_SECONDS).toString(16)}`,
+					}
+				: undefined,
+		);
+		stopRpc = rpc.stop;
+		process.env.ethereum_ENDPOINT = rpc.url;
+		return rpc;
+	}
+
+	test("counts events per day from block timestamps resolved in batches", async () => {
+		const rpc = startChain();
+		const eventBlocks = Array.from({ length: 11 }, (_, i) => 1000 + i * 100);
+		const { client } = createStatsDatabase(eventBlocks);
+
+		const stats = await getEventStats(client, TEST_SCHEMA_NAME, "transfer", {
+			filters: {},
+			interval: "day",
+		});
+
+		const expected = new Map<string, number>();
+		for (const block of eventBlocks) {
+			const day = blockTime(block);
+			day.setUTCHours(0, 0, 0, 0);
+			expected.set(
+				day.toISOString(),
+				(expected.get(day.toISOString()) ?? 0) + 1,
+			);
+		}
+		expect(
+			stats.time_buckets?.map((bucket) => [bucket.start_time, bucket.count]),
+		).toEqual(Array.from(expected));
+		// The endpoints, then one batch per round of the search over 1000 blocks
+		expect(rpc.requests).toBeLessThanOrEqual(
+			1 + Math.ceil(Math.log2(1001)) + 1,
+		);
+	});
+
+	test("rejects too many buckets before searching for boundaries", async () => {
+		const rpc = startChain();
+		// About 70 days of blocks, so more than 1000 hourly buckets
+		const { client } = createStatsDatabase([1000, 11000]);
+
+		await expect(
+			getEventStats(client, TEST_SCHEMA_NAME, "transfer", {
+				filters: {},
+				interval: "hour",
+			}),
+		).rejects.toThrow(/Too many buckets/);
+		expect(rpc.calls).toEqual(["eth_getBlockByNumber", "eth_getBlockByNumber"]);
+	});
+});
+
+describe("getEventStats block buckets", () => {
+	test.each([0, Number.NaN, Number.POSITIVE_INFINITY])(
+		"rejects bucket_blocks of %p",
+		async (bucketBlocks) => {
+			const { client } = createStatsDatabase([1000, 2000]);
+
+			await expect(
+				getEventStats(client, TEST_SCHEMA_NAME, "transfer", {
+					filters: {},
+					bucketBlocks,
+				}),
+			).rejects.toThrow(
+				new EventQueryError("bucket_blocks must be at least 1"),
+			);
+		},
+	);
+});
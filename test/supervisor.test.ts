@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+	APP_CONSTANTS,
+	getRindexerStatus,
+	startRindexerProcess,
+	stopRindexerProcess,
+} from "../src/helpers.js";
+import type { IndexerStatus } from "../src/types.js";
+
+type SupervisorSettings = {
+	-readonly [K in keyof typeof APP_CONSTANTS.SUPERVISOR]: (typeof APP_CONSTANTS.SUPERVISOR)[K];
+};
+
+const settings = APP_CONSTANTS.SUPERVISOR as SupervisorSettings;
+const defaultSettings = { ...settings };
+
+/**
+ * Writes a shell script standing in for the rindexer binary.
+ */
+function writeFakeBinary(dir: string, name: string, body: string): string {
+	const binaryPath = path.join(dir, name);
+	fs.writeFileSync(binaryPath, `#!/bin/sh\n${body}\n`, { mode: 0o755 });
+	return binaryPath;
+}
+
+async function waitForStatus(
+	predicate: (status: IndexerStatus) => boolean,
+	timeoutMs = 5000,
+): Promise<IndexerStatus> {
+	const deadline = Date.now() + timeoutMs;
+	while (Date.now() < deadline) {
+		const status = getRindexerStatus();
+		if (predicate(status)) {
+			return status;
+		}
+		await Bun.sleep(5);
+	}
+	throw new Error(
+		`Timed out waiting for the indexer status: ${JSON.stringify(getRindexerStatus())}`,
+	);
+}
+
+describe("rindexer supervisor", () => {
+	let binDir: string;
+
+	beforeEach(() => {
+		binDir = fs.mkdtempSync(path.join(os.tmpdir(), "fake-rindexer-"));
+		settings.BASE_RESTART_DELAY_MS = 20;
+		settings.MAX_RESTART_DELAY_MS = 1000;
+		settings.CRASH_LOOP_THRESHOLD = 3;
+	});
+
+	afterEach(async () => {
+		await stopRindexerProcess();
+		Object.assign(settings, defaultSettings);
+		fs.rmSync(binDir, { recursive: true, force: true });
+	});
+
+	test("restarts a crashing process with backoff until it is in a crash loop", async () => {
+		settings.BINARY_PATH = writeFakeBinary(binDir, "crashing", "exit 3");
+
+		await startRindexerProcess();
+		const backoff = await waitForStatus((status) => status.state === "backoff");
+		expect(backoff.consecutive_failures).toBe(1);
+		expect(backoff.pid).toBeNull();
+		expect(backoff.next_restart_at).not.toBeNull();
+
+		const delays: number[] = [];
+		let previous = backoff;
+		while (previous.state === "backoff") {
+			delays.push(
+				Date.parse(previous.next_restart_at as string) -
+					Date.parse(previous.exits[0].exited_at),
+			);
+			const failures = previous.consecutive_failures;
+			previous = await waitForStatus(
+				(status) => status.consecutive_failures > failures,
+			);
+		}
+
+		expect(previous.state).toBe("crash_loop");
+		expect(previous.consecutive_failures).toBe(3);
+		expect(previous.next_restart_at).toBeNull();
+		// The delay doubles after each crash
+		expect(delays).toHaveLength(2);
+		expect(delays[1]).toBeGreaterThan(delays[0]);
+		expect(previous.exits.slice(0, 3)).toEqual(
+			Array.from({ length: 3 }, () =>
+				expect.objectContaining({
+					exit_code: 3,
+					signal: null,
+					expected: false,
+					error: null,
+				}),
+			),
+		);
+	});
+
+	test("records a stop as an expected exit without restarting", async () => {
+		settings.BINARY_PATH = writeFakeBinary(binDir, "running", "exec sleep 30");
+
+		await startRindexerProcess();
+		const running = getRindexerStatus();
+		expect(running.state).toBe("running");
+		expect(running.pid).not.toBeNull();
+
+		await stopRindexerProcess();
+
+		const stopped = getRindexerStatus();
+		expect(stopped.state).toBe("stopped");
+		expect(stopped.consecutive_failures).toBe(0);
+		expect(stopped.exits[0]).toMatchObject({
+			pid: running.pid,
+			exit_code: null,
+			signal: "SIGTERM",
+			expected: true,
+		});
+	});
+
+	test("counts a missing binary as a crash", async () => {
+		settings.BINARY_PATH = path.join(binDir, "missing");
+
+		await startRindexerProcess();
+
+		const status = getRindexerStatus();
+		expect(status.state).toBe("backoff");
+		expect(status.exits[0]).toMatchObject({
+			pid: null,
+			exit_code: null,
+			expected: false,
+		});
+		expect(status.exits[0].error).toEqual(expect.any(String));
+	});
+});
@@ -0,0 +1,64 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { createHash } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { APP_CONSTANTS, withConfigChange } from "../src/helpers.js";
+import { TEST_INDEXER_ID, createFakeClient } from "./fixtures.js";
+
+const ABI_FILE = `abis/${TEST_INDEXER_ID}.json`;
+const ABI_PATH = path.join(
+	path.dirname(APP_CONSTANTS.CONFIG_FILE_PATH),
+	ABI_FILE,
+);
+
+function sha256(content: string): string {
+	return createHash("sha256").update(content).digest("hex");
+}
+
+describe("withConfigChange", () => {
+	afterEach(() => {
+		fs.rmSync(ABI_PATH, { force: true });
+	});
+
+	test("stores ABIs once by hash and prunes old versions", async () => {
+		const config = fs.readFileSync(APP_CONSTANTS.CONFIG_FILE_PATH, "utf8");
+		const abi = JSON.stringify([
+			{ type: "event", name: "Transfer", inputs: [] },
+		]);
+		const { client, queries } = createFakeClient((sql) => {
+			if (sql.startsWith("SELECT config, abis FROM config_versions")) {
+				// The latest version matches the files before the change
+				return { rows: [{ config, abis: {} }] };
+			}
+			if (sql.startsWith("DELETE FROM config_versions")) {
+				return { rows: [], rowCount: 3 };
+			}
+			return undefined;
+		});
+
+		await withConfigChange(
+			client,
+			{ source: "POST /add-contracts", request: { contracts: [] } },
+			async () => {
+				fs.writeFileSync(ABI_PATH, abi);
+			},
+		);
+
+		const statements = queries.map((query) => query.sql.split(" (")[0]);
+		expect(statements).toEqual([
+			"SELECT config, abis FROM config_versions ORDER BY id DESC LIMIT 1",
+			"INSERT INTO config_abis",
+			"INSERT INTO config_versions",
+			"DELETE FROM config_versions WHERE id <=",
+			"DELETE FROM config_abis a WHERE NOT EXISTS",
+		]);
+		expect(queries[1].params).toEqual([[sha256(abi)], [abi]]);
+		expect(queries[2].params).toEqual([
+			"POST /add-contracts",
+			JSON.stringify({ contracts: [] }),
+			config,
+			JSON.stringify({ [ABI_FILE]: sha256(abi) }),
+		]);
+		expect(queries[3].params).toEqual([APP_CONSTANTS.MAX_CONFIG_VERSIONS]);
+	});
+});
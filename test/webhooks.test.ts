@@ -0,0 +1,318 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { createHmac } from "crypto";
+import { APP_CONSTANTS } from "../src/helpers.js";
+import { WebhookError } from "../src/types.js";
+import {
+	createWebhook,
+	dispatchWebhookDeliveries,
+	signWebhookPayload,
+} from "../src/webhooks.js";
+import { createFakeClient } from "./fixtures.js";
+
+const SECRET = "test-secret";
+
+interface ReceivedRequest {
+	path: string;
+	body: string;
+	headers: Headers;
+}
+
+/**
+ * Starts an HTTP receiver answering each request with the next of `statuses` for its
+ * path, then 200. Redirects point to /redirected. Requests to /slow are answered after
+ * `slowMs`.
+ */
+function startReceiver(statuses: Record<string, number[]>, slowMs = 0) {
+	const received: ReceivedRequest[] = [];
+	const server = Bun.serve({
+		port: 0,
+		async fetch(request) {
+			const path = new URL(request.url).pathname;
+			received.push({
+				path,
+				body: await request.text(),
+				headers: request.headers,
+			});
+			if (path === "/slow") {
+				await Bun.sleep(slowMs);
+			}
+			const status = statuses[path]?.shift() ?? 200;
+			return new Response(null, {
+				status,
+				headers:
+					status >= 300 && status < 400 ? { Location: "/redirected" } : {},
+			});
+		},
+	});
+	return {
+		url: `http://127.0.0.1:${server.port}`,
+		received,
+		stop: () => server.stop(true),
+	};
+}
+
+function setAllowPrivateHosts(allow: boolean): void {
+	(
+		APP_CONSTANTS.WEBHOOK as { ALLOW_PRIVATE_HOSTS: boolean }
+	).ALLOW_PRIVATE_HOSTS = allow;
+}
+
+function delivery(
+	id: string,
+	webhookId: string,
+	url: string,
+	attempts = 0,
+): Record<string, unknown> {
+	return {
+		id,
+		webhook_id: webhookId,
+		url,
+		secret: SECRET,
+		payload: { webhook_id: webhookId, events: [{ delivery: id }] },
+		attempts,
+	};
+}
+
+/**
+ * A database whose pending deliveries are `due`, recording how each one ended.
+ */
+function createDeliveryDatabase(due: Record<string, unknown>[]) {
+	const outcomes: Array<{ id: string; outcome: string; params: unknown[] }> =
+		[];
+	const database = createFakeClient((sql, params) => {
+		if (sql.includes("FROM webhook_deliveries d")) {
+			return { rows: due.splice(0, due.length) };
+		}
+		const id = String(params[0]);
+		if (sql.includes("SET status = 'succeeded'")) {
+			outcomes.push({ id, outcome: "succeeded", params });
+			return undefined;
+		}
+		if (sql.includes("SET status = 'dead'")) {
+			outcomes.push({ id, outcome: "dead", params });
+			return undefined;
+		}
+		if (sql.includes("next_attempt_at = NOW()")) {
+			outcomes.push({ id, outcome: "retry", params });
+			return undefined;
+		}
+		throw new Error(`Unexpected query: ${sql}`);
+	});
+	return { ...database, outcomes };
+}
+
+describe("webhook dispatch", () => {
+	let stopReceiver = () => {};
+
+	beforeEach(() => {
+		// The test receivers listen on localhost
+		setAllowPrivateHosts(true);
+	});
+
+	afterEach(() => {
+		stopReceiver();
+		setAllowPrivateHosts(false);
+	});
+
+	test("signs deliveries with the webhook secret", async () => {
+		const receiver = startReceiver({});
+		stopReceiver = receiver.stop;
+		const database = createDeliveryDatabase([
+			delivery("1", "webhook-a", `${receiver.url}/a`),
+		]);
+
+		await dispatchWebhookDeliveries(database.client);
+
+		expect(receiver.received).toHaveLength(1);
+		const { body, headers } = receiver.received[0];
+		const timestamp = headers.get("X-Webhook-Timestamp");
+		expect(headers.get("X-Webhook-Id")).toBe("webhook-a");
+		expect(headers.get("X-Webhook-Delivery-Id")).toBe("1");
+		expect(headers.get("X-Webhook-Signature")).toBe(
+			`sha256=${createHmac("sha256", SECRET).update(`${timestamp}.${body}`).digest("hex")}`,
+		);
+		expect(JSON.parse(body)).toEqual({
+			webhook_id: "webhook-a",
+			events: [{ delivery: "1" }],
+		});
+		expect(database.outcomes).toMatchObject([
+			{ id: "1", outcome: "succeeded", params: ["1", 200] },
+		]);
+	});
+
+	test("signs over the timestamp and body", () => {
+		expect(signWebhookPayload(SECRET, 1700000000, "{}")).not.toBe(
+			signWebhookPayload(SECRET, 1700000001, "{}"),
+		);
+		expect(signWebhookPayload(SECRET, 1700000000, "{}")).not.toBe(
+			signWebhookPayload("other-secret", 1700000000, "{}"),
+		);
+	});
+
+	test("retries failed deliveries with backoff, then dead-letters them", async () => {
+		const receiver = startReceiver({ "/a": [500, 503] });
+		stopReceiver = receiver.stop;
+		const url = `${receiver.url}/a`;
+
+		const first = createDeliveryDatabase([delivery("1", "webhook-a", url)]);
+		await dispatchWebhookDeliveries(first.client);
+		expect(first.outcomes).toEqual([
+			{
+				id: "1",
+				outcome: "retry",
+				params: [
+					"1",
+					1,
+					500,
+					"Receiver responded with status 500",
+					APP_CONSTANTS.WEBHOOK.BASE_RETRY_DELAY_MS,
+				],
+			},
+		]);
+
+		const second = createDeliveryDatabase([delivery("1", "webhook-a", url, 1)]);
+		await dispatchWebhookDeliveries(second.client);
+		expect(second.outcomes[0].params[4]).toBe(
+			APP_CONSTANTS.WEBHOOK.BASE_RETRY_DELAY_MS * 2,
+		);
+
+		const third = createDeliveryDatabase([delivery("1", "webhook-a", url, 2)]);
+		await dispatchWebhookDeliveries(third.client);
+		expect(third.outcomes).toMatchObject([{ id: "1", outcome: "succeeded" }]);
+
+		const last = createDeliveryDatabase([
+			delivery(
+				"2",
+				"webhook-b",
+				"http://127.0.0.1:1/unreachable",
+				APP_CONSTANTS.WEBHOOK.MAX_ATTEMPTS - 1,
+			),
+		]);
+		await dispatchWebhookDeliveries(last.client);
+		expect(last.outcomes).toHaveLength(1);
+		expect(last.outcomes[0]).toMatchObject({ id: "2", outcome: "dead" });
+		// Attempts and status code; the request never got a response
+		expect(last.outcomes[0].params.slice(0, 3)).toEqual([
+			"2",
+			APP_CONSTANTS.WEBHOOK.MAX_ATTEMPTS,
+			null,
+		]);
+	});
+
+	test("fails redirected deliveries without following them", async () => {
+		const receiver = startReceiver({ "/a": [307] });
+		stopReceiver = receiver.stop;
+		const database = createDeliveryDatabase([
+			delivery("1", "webhook-a", `${receiver.url}/a`),
+		]);
+
+		await dispatchWebhookDeliveries(database.client);
+
+		expect(receiver.received.map((request) => request.path)).toEqual(["/a"]);
+		expect(database.outcomes).toMatchObject([
+			{
+				id: "1",
+				outcome: "retry",
+				params: [
+					"1",
+					1,
+					307,
+					"Receiver redirected with status 307, redirects are not followed",
+					APP_CONSTANTS.WEBHOOK.BASE_RETRY_DELAY_MS,
+				],
+			},
+		]);
+	});
+
+	test("checks the host again before each delivery", async () => {
+		const receiver = startReceiver({});
+		stopReceiver = receiver.stop;
+		setAllowPrivateHosts(false);
+		const database = createDeliveryDatabase([
+			delivery("1", "webhook-a", `${receiver.url}/a`),
+		]);
+
+		await dispatchWebhookDeliveries(database.client);
+
+		expect(receiver.received).toHaveLength(0);
+		expect(database.outcomes).toMatchObject([
+			{
+				id: "1",
+				outcome: "retry",
+				params: [
+					"1",
+					1,
+					null,
+					"Webhook URL must not point to a local, private or metadata address",
+					APP_CONSTANTS.WEBHOOK.BASE_RETRY_DELAY_MS,
+				],
+			},
+		]);
+	});
+
+	test("sends to different webhooks concurrently and stops a webhook at its first failure", async () => {
+		const receiver = startReceiver({ "/a": [500] }, 300);
+		stopReceiver = receiver.stop;
+		const database = createDeliveryDatabase([
+			delivery("1", "webhook-slow", `${receiver.url}/slow`),
+			delivery("2", "webhook-a", `${receiver.url}/a`),
+			delivery("3", "webhook-a", `${receiver.url}/a`),
+			delivery("4", "webhook-b", `${receiver.url}/b`),
+		]);
+
+		await dispatchWebhookDeliveries(database.client);
+
+		// The slow receiver answers last, and delivery 3 waits for delivery 2's retry
+		expect(receiver.received.map((request) => request.path).sort()).toEqual([
+			"/a",
+			"/b",
+			"/slow",
+		]);
+		const outcomes = database.outcomes.map(({ id, outcome }) => [id, outcome]);
+		expect(outcomes.slice(0, 2).sort()).toEqual([
+			["2", "retry"],
+			["4", "succeeded"],
+		]);
+		expect(outcomes[2]).toEqual(["1", "succeeded"]);
+	});
+});
+
+describe("createWebhook", () => {
+	const request = (url: string) => ({
+		contract_name: "Token",
+		report_id: "report",
+		url,
+	});
+
+	test.each([
+		"http://localhost:8080/hook",
+		"http://api.localhost/hook",
+		"http://127.0.0.1/hook",
+		"http://2130706433/hook",
+		"http://10.1.2.3/hook",
+		"http://172.20.0.1/hook",
+		"http://192.168.1.10/hook",
+		"http://169.254.169.254/latest/meta-data",
+		"http://0.0.0.0/hook",
+		"http://[::1]/hook",
+		"http://[::ffff:127.0.0.1]/hook",
+		"http://[fd00:ec2::254]/hook",
+		"http://[fe80::1]/hook",
+	])("rejects %s", async (url) => {
+		const { client, queries } = createFakeClient(() => undefined);
+
+		await expect(createWebhook(client, request(url))).rejects.toThrow(
+			/must not point to/,
+		);
+		expect(queries).toHaveLength(0);
+	});
+
+	test("accepts public addresses", async () => {
+		const { client } = createFakeClient(() => undefined);
+
+		// The fake database has no contract, so the webhook gets as far as its insert
+		await expect(
+			createWebhook(client, request("https://93.184.216.34/hook")),
+		).rejects.toThrow(new WebhookError('Contract "Token_report" not found'));
+	});
+});